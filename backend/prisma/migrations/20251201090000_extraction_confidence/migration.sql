@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "confidence" DOUBLE PRECISION,
+ADD COLUMN     "extraction" JSONB;
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "confidence" DOUBLE PRECISION,
+ADD COLUMN     "extraction" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Receipt_confidence_idx" ON "Receipt"("confidence");
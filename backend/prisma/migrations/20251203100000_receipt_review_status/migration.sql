@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "ReceiptStatus" AS ENUM ('PROCESSING', 'NEEDS_REVIEW', 'VERIFIED', 'REJECTED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "status" "ReceiptStatus" NOT NULL DEFAULT 'PROCESSING',
+ADD COLUMN     "statusReason" TEXT,
+ADD COLUMN     "reviewedBy" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "humanEdited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- Receipts created before this migration have already been through OCR
+UPDATE "Receipt" SET "status" = 'NEEDS_REVIEW';
+
+-- CreateIndex
+CREATE INDEX "Receipt_status_idx" ON "Receipt"("status");
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "CalendarSystem" AS ENUM ('GREGORIAN', 'ETHIOPIAN');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "purchaseDateRaw" TEXT,
+ADD COLUMN     "purchaseDateCalendar" "CalendarSystem";
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SummaryLineType" AS ENUM ('VAT', 'TURNOVER_TAX', 'EXCISE_TAX', 'OTHER_TAX', 'SERVICE_CHARGE', 'DISCOUNT', 'ROUNDING');
+
+-- CreateTable
+CREATE TABLE "ReceiptSummary" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION,
+    "taxTotal" DOUBLE PRECISION,
+    "discountTotal" DOUBLE PRECISION,
+    "rounding" DOUBLE PRECISION,
+    "grandTotal" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReceiptSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SummaryLine" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "type" "SummaryLineType" NOT NULL,
+    "label" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "SummaryLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReceiptSummary_receiptId_key" ON "ReceiptSummary"("receiptId");
+
+-- AddForeignKey
+ALTER TABLE "ReceiptSummary" ADD CONSTRAINT "ReceiptSummary_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryLine" ADD CONSTRAINT "SummaryLine_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "ReceiptSummary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
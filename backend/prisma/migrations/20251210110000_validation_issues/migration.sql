@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ValidationSeverity" AS ENUM ('INFO', 'WARNING', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "ValidationIssue" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "itemId" TEXT,
+    "code" TEXT NOT NULL,
+    "severity" "ValidationSeverity" NOT NULL,
+    "message" TEXT NOT NULL,
+    "expected" DOUBLE PRECISION,
+    "actual" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ValidationIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ValidationIssue_receiptId_idx" ON "ValidationIssue"("receiptId");
+
+-- AddForeignKey
+ALTER TABLE "ValidationIssue" ADD CONSTRAINT "ValidationIssue_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ValidationIssue" ADD CONSTRAINT "ValidationIssue_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
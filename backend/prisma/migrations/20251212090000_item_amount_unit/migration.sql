@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Item" ALTER COLUMN "quantity" SET DATA TYPE DOUBLE PRECISION,
+ADD COLUMN     "amount" DOUBLE PRECISION,
+ADD COLUMN     "unit" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "preprocessing" JSONB,
+ADD COLUMN     "processedImageUrl" TEXT;
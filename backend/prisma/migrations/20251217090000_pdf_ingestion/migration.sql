@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "TextSource" AS ENUM ('OCR', 'PDF_TEXT');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "sourcePage" INTEGER,
+ADD COLUMN     "textSource" "TextSource";
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "batchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Batch" (
+    "id" TEXT NOT NULL,
+    "options" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Batch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BatchFile" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "receiptId" TEXT,
+    "jobId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BatchFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Receipt_batchId_idx" ON "Receipt"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BatchFile_receiptId_key" ON "BatchFile"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "BatchFile_batchId_idx" ON "BatchFile"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BatchFile" ADD CONSTRAINT "BatchFile_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BatchFile" ADD CONSTRAINT "BatchFile_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
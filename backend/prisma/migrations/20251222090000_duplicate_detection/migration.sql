@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "DuplicateMatch" AS ENUM ('IMAGE', 'FIELDS', 'IMAGE_AND_FIELDS');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "duplicateDismissed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "duplicateMatch" "DuplicateMatch",
+ADD COLUMN     "duplicateOfId" TEXT,
+ADD COLUMN     "fingerprint" TEXT,
+ADD COLUMN     "fsNumber" TEXT,
+ADD COLUMN     "imageHash" TEXT,
+ADD COLUMN     "tin" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Receipt_imageHash_idx" ON "Receipt"("imageHash");
+
+-- CreateIndex
+CREATE INDEX "Receipt_fingerprint_idx" ON "Receipt"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "Receipt_duplicateOfId_idx" ON "Receipt"("duplicateOfId");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Receipt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
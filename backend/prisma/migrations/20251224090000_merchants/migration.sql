@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "merchantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Merchant" (
+    "id" TEXT NOT NULL,
+    "tin" TEXT,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "address" TEXT,
+    "vatNumber" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Merchant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Merchant_tin_key" ON "Merchant"("tin");
+
+-- CreateIndex
+CREATE INDEX "Merchant_name_idx" ON "Merchant"("name");
+
+-- CreateIndex
+CREATE INDEX "Receipt_merchantId_idx" ON "Receipt"("merchantId");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
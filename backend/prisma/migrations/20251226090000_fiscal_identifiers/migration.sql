@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'MOBILE_MONEY', 'BANK_TRANSFER', 'CHEQUE', 'CREDIT', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "cashier" TEXT,
+ADD COLUMN     "mrc" TEXT,
+ADD COLUMN     "paymentMethod" "PaymentMethod",
+ADD COLUMN     "referenceNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Receipt_fsNumber_idx" ON "Receipt"("fsNumber");
+
+-- CreateIndex
+CREATE INDEX "Receipt_mrc_idx" ON "Receipt"("mrc");
+
+-- CreateIndex
+CREATE INDEX "Receipt_referenceNumber_idx" ON "Receipt"("referenceNumber");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReceiptTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tin" TEXT,
+    "source" TEXT NOT NULL,
+    "definition" JSONB NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReceiptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReceiptTemplate_tin_idx" ON "ReceiptTemplate"("tin");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ReceiptTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
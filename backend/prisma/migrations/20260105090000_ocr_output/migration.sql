@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "OcrOutput" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "pages" JSONB NOT NULL,
+    "engine" TEXT,
+    "engineVersion" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OcrOutput_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OcrOutput_receiptId_key" ON "OcrOutput"("receiptId");
+
+-- AddForeignKey
+ALTER TABLE "OcrOutput" ADD CONSTRAINT "OcrOutput_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,100 @@
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "ocrLanguages" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'ETB',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_slug_key" ON "Organization"("slug");
+
+-- Everything created before organizations existed belongs to the default one. Its uploads
+-- stay in the root of the upload directory.
+INSERT INTO "Organization" ("id", "name", "slug", "updatedAt") VALUES ('default', 'Default', 'default', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN "organizationId" TEXT,
+ADD COLUMN "currency" TEXT;
+UPDATE "Receipt" SET "organizationId" = 'default', "currency" = 'ETB';
+ALTER TABLE "Receipt" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "organizationId" TEXT;
+UPDATE "Item" SET "organizationId" = 'default';
+ALTER TABLE "Item" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Merchant" ADD COLUMN "organizationId" TEXT;
+UPDATE "Merchant" SET "organizationId" = 'default';
+ALTER TABLE "Merchant" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Batch" ADD COLUMN "organizationId" TEXT;
+UPDATE "Batch" SET "organizationId" = 'default';
+ALTER TABLE "Batch" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Webhook" ADD COLUMN "organizationId" TEXT;
+UPDATE "Webhook" SET "organizationId" = 'default';
+ALTER TABLE "Webhook" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "organizationId" TEXT;
+UPDATE "User" SET "organizationId" = 'default';
+ALTER TABLE "User" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ReceiptTemplate" ADD COLUMN "organizationId" TEXT;
+UPDATE "ReceiptTemplate" SET "organizationId" = 'default';
+ALTER TABLE "ReceiptTemplate" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Merchant_tin_key";
+
+-- DropIndex
+DROP INDEX "Merchant_name_idx";
+
+-- DropIndex
+DROP INDEX "ReceiptTemplate_tin_idx";
+
+-- CreateIndex
+CREATE INDEX "Receipt_organizationId_createdAt_idx" ON "Receipt"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Item_organizationId_idx" ON "Item"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Merchant_organizationId_tin_key" ON "Merchant"("organizationId", "tin");
+
+-- CreateIndex
+CREATE INDEX "Merchant_organizationId_name_idx" ON "Merchant"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "ReceiptTemplate_organizationId_tin_idx" ON "ReceiptTemplate"("organizationId", "tin");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Merchant" ADD CONSTRAINT "Merchant_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Batch" ADD CONSTRAINT "Batch_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Webhook" ADD CONSTRAINT "Webhook_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReceiptTemplate" ADD CONSTRAINT "ReceiptTemplate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
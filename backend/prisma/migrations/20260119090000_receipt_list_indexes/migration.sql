@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Receipt_organizationId_purchaseDate_idx" ON "Receipt"("organizationId", "purchaseDate");
+
+-- CreateIndex
+CREATE INDEX "Receipt_organizationId_totalAmount_idx" ON "Receipt"("organizationId", "totalAmount");
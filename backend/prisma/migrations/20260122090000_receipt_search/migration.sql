@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Receipt_searchVector_idx" ON "Receipt" USING GIN ("searchVector");
+
+-- Search document of a receipt: store name (weight A), item names (B) and the stored OCR
+-- text (D). The 'simple' configuration does not stem, so Amharic and English words are
+-- matched as written.
+CREATE FUNCTION receipt_search_vector_refresh(receipt_id TEXT) RETURNS void AS $$
+  UPDATE "Receipt" r SET "searchVector" =
+    setweight(to_tsvector('simple', coalesce(r."storeName", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce((SELECT string_agg(i."name", ' ') FROM "Item" i WHERE i."receiptId" = r."id"), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce((SELECT o."text" FROM "OcrOutput" o WHERE o."receiptId" = r."id"), '')), 'D')
+  WHERE r."id" = receipt_id;
+$$ LANGUAGE sql;
+
+-- Receipts: when created or renamed. Setting "searchVector" does not fire it again.
+CREATE FUNCTION receipt_search_vector_receipt_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM receipt_search_vector_refresh(NEW."id");
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Receipt_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "storeName" ON "Receipt"
+FOR EACH ROW EXECUTE FUNCTION receipt_search_vector_receipt_trigger();
+
+-- Items and OCR output: the receipt they belong to, and the one they left when moved
+CREATE FUNCTION receipt_search_vector_child_trigger() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM receipt_search_vector_refresh(NEW."receiptId");
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM receipt_search_vector_refresh(OLD."receiptId");
+    IF NEW."receiptId" IS DISTINCT FROM OLD."receiptId" THEN
+      PERFORM receipt_search_vector_refresh(NEW."receiptId");
+    END IF;
+  ELSE
+    PERFORM receipt_search_vector_refresh(OLD."receiptId");
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Item_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "name", "receiptId" OR DELETE ON "Item"
+FOR EACH ROW EXECUTE FUNCTION receipt_search_vector_child_trigger();
+
+CREATE TRIGGER "OcrOutput_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "text", "receiptId" OR DELETE ON "OcrOutput"
+FOR EACH ROW EXECUTE FUNCTION receipt_search_vector_child_trigger();
+
+-- Existing receipts
+SELECT receipt_search_vector_refresh("id") FROM "Receipt";
@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "CategorySource" AS ENUM ('RULE', 'CLASSIFIER', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "CategoryRuleType" AS ENUM ('KEYWORD', 'REGEX');
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "categoryId" TEXT,
+ADD COLUMN "categorySource" "CategorySource",
+ADD COLUMN "categoryConfidence" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CategoryRule" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "type" "CategoryRuleType" NOT NULL DEFAULT 'KEYWORD',
+    "pattern" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CategoryCorrection" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "itemName" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Item_categoryId_idx" ON "Item"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_organizationId_name_key" ON "Category"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "CategoryRule_categoryId_idx" ON "CategoryRule"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryCorrection_organizationId_itemName_key" ON "CategoryCorrection"("organizationId", "itemName");
+
+-- CreateIndex
+CREATE INDEX "CategoryCorrection_categoryId_idx" ON "CategoryCorrection"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategoryRule" ADD CONSTRAINT "CategoryRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategoryCorrection" ADD CONSTRAINT "CategoryCorrection_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategoryCorrection" ADD CONSTRAINT "CategoryCorrection_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default taxonomy of existing organizations; new ones get it from OrganizationService
+INSERT INTO "Category" ("id", "organizationId", "name", "updatedAt")
+SELECT gen_random_uuid()::text, o."id", c."name", CURRENT_TIMESTAMP
+FROM "Organization" o
+CROSS JOIN (VALUES
+    ('Groceries'), ('Beverages'), ('Restaurants'), ('Fuel'), ('Transport'),
+    ('Office Supplies'), ('Household'), ('Utilities'), ('Other')
+) AS c("name");
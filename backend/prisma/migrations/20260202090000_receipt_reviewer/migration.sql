@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN "reviewerId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,8 +1,73 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, UserRole } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { withFilter } from 'graphql-subscriptions';
+import { CalendarSystem, toCalendarDate } from '../utils/ethiopianCalendar';
+import { ValidationService } from '../services/validation.service';
+import { DuplicateService } from '../services/duplicate.service';
+import { MerchantService } from '../services/merchant.service';
+import { TemplateService } from '../services/template.service';
+import { ReparseService } from '../services/reparse.service';
+import { OrganizationService } from '../services/organization.service';
+import { ReceiptQueryError, ReceiptService } from '../services/receipt.service';
+import { SearchQueryError, SearchService } from '../services/search.service';
+import { AnalyticsService } from '../services/analytics.service';
+import { CategoryService, carryOverCategory } from '../services/category.service';
+import { ExportFormat, ExportLayout } from '../services/export.service';
+import { WEBHOOK_EVENTS, WebhookService } from '../services/webhook.service';
+import { AuthError, AuthService, AuthUser, canAccessOwned, hasRole, receiptScope, requireRole } from '../services/auth.service';
+import { clearAuthCookie, setAuthCookie } from '../utils/auth';
+import { deleteUploadedFile, uploadedFilePath } from '../utils/fileUpload';
+import {
+  JOB_PROGRESS,
+  RECEIPTS_CHANGED,
+  RECEIPT_UPDATED,
+  publishReceiptChange,
+  pubsub,
+  withInitialPayload,
+} from './subscriptions';
 
 interface Context {
   prisma: PrismaClient;
   req?: any;
+  res?: any;
+  user?: AuthUser | null;
+}
+
+// The caller, if they have the role. Auth failures become GraphQL errors with the usual codes.
+function requireUser(context: Context, role: UserRole = 'SUBMITTER'): AuthUser {
+  try {
+    return requireRole(context.user, role);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new GraphQLError(error.message, {
+        extensions: { code: error.status === 401 ? 'UNAUTHENTICATED' : 'FORBIDDEN' },
+      });
+    }
+    throw error;
+  }
+}
+
+// Invalid query arguments become BAD_USER_INPUT errors
+async function badUserInput<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ReceiptQueryError || error instanceof SearchQueryError) {
+      throw new GraphQLError(error.message, { extensions: { code: 'BAD_USER_INPUT' } });
+    }
+    throw error;
+  }
+}
+
+// A receipt the caller may see and change, or the usual not found error
+async function findOwnReceipt(context: Context, id: string) {
+  const receipt = await context.prisma.receipt.findFirst({
+    where: { id, ...receiptScope(requireUser(context)) },
+  });
+  if (!receipt) {
+    throw new Error('Receipt not found');
+  }
+  return receipt;
 }
 
 export const resolvers = {
@@ -25,69 +90,644 @@ export const resolvers = {
       console.log('[GraphQL] Serializing purchaseDate:', parent.purchaseDate, '->', isoString);
       return isoString;
     },
+    purchaseDateIn: (parent: any, args: { calendar: CalendarSystem }) => {
+      if (!parent.purchaseDate) {
+        return null;
+      }
+      const date = parent.purchaseDate instanceof Date ? parent.purchaseDate : new Date(parent.purchaseDate);
+      return isNaN(date.getTime()) ? null : toCalendarDate(date, args.calendar);
+    },
+    reviewedAt: (parent: any) => (parent.reviewedAt ? new Date(parent.reviewedAt).toISOString() : null),
+    editedAt: (parent: any) => (parent.editedAt ? new Date(parent.editedAt).toISOString() : null),
+    owner: async (parent: any, _: any, context: Context) => {
+      if (!parent.ownerId) {
+        return null;
+      }
+      return await context.prisma.user.findUnique({
+        where: { id: parent.ownerId },
+      });
+    },
+    reviewer: async (parent: any, _: any, context: Context) => {
+      if (!parent.reviewerId) {
+        return null;
+      }
+      return await context.prisma.user.findUnique({
+        where: { id: parent.reviewerId },
+      });
+    },
+    summary: async (parent: any, _: any, context: Context) => {
+      if (parent.summary !== undefined) {
+        return parent.summary;
+      }
+      return await context.prisma.receiptSummary.findUnique({
+        where: { receiptId: parent.id },
+        include: {
+          lines: {
+            orderBy: { position: 'asc' },
+          },
+        },
+      });
+    },
+    validationIssues: async (parent: any, _: any, context: Context) => {
+      if (parent.validationIssues) {
+        return parent.validationIssues;
+      }
+      return await context.prisma.validationIssue.findMany({
+        where: { receiptId: parent.id },
+        orderBy: { createdAt: 'asc' },
+      });
+    },
+    extractions: (parent: any) => {
+      // Stored as { storeName: {...}, purchaseDate: {...}, ... }
+      if (!parent.extraction || typeof parent.extraction !== 'object') {
+        return [];
+      }
+      return Object.entries(parent.extraction).map(([field, provenance]: [string, any]) => ({
+        field,
+        ...provenance,
+      }));
+    },
+    merchant: async (parent: any, _: any, context: Context) => {
+      if (!parent.merchantId) {
+        return null;
+      }
+      return await context.prisma.merchant.findUnique({
+        where: { id: parent.merchantId },
+      });
+    },
+    ocrOutput: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.ocrOutput.findUnique({
+        where: { receiptId: parent.id },
+      });
+    },
+    template: async (parent: any, _: any, context: Context) => {
+      if (!parent.templateId) {
+        return null;
+      }
+      return await context.prisma.receiptTemplate.findUnique({
+        where: { id: parent.templateId },
+      });
+    },
+    duplicateOf: async (parent: any, _: any, context: Context) => {
+      if (!parent.duplicateOfId) {
+        return null;
+      }
+      return await context.prisma.receipt.findFirst({
+        where: { id: parent.duplicateOfId, ...receiptScope(requireUser(context)) },
+        include: { items: true },
+      });
+    },
+    duplicates: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.receipt.findMany({
+        where: { duplicateOfId: parent.id, ...receiptScope(requireUser(context)) },
+        include: { items: true },
+        orderBy: { createdAt: 'asc' },
+      });
+    },
+    preprocessing: (parent: any) => {
+      if (!parent.preprocessing || typeof parent.preprocessing !== 'object') {
+        return null;
+      }
+      return {
+        steps: [],
+        rotation: 0,
+        skewAngle: 0,
+        scale: 1,
+        ...parent.preprocessing,
+      };
+    },
   },
-  Query: {
-    receipts: async (_: any, args: { filter?: any }, context: Context) => {
-      const { filter } = args;
-      const where: any = {};
-
-      if (filter) {
-        if (filter.storeName) {
-          where.storeName = {
-            contains: filter.storeName,
-            mode: 'insensitive',
-          };
-        }
-
-        if (filter.startDate || filter.endDate) {
-          where.purchaseDate = {};
-          if (filter.startDate) {
-            where.purchaseDate.gte = new Date(filter.startDate);
-          }
-          if (filter.endDate) {
-            where.purchaseDate.lte = new Date(filter.endDate);
-          }
-        }
+  Merchant: {
+    receiptCount: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.receipt.count({
+        where: { merchantId: parent.id, ...receiptScope(requireUser(context)) },
+      });
+    },
+    receipts: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.receipt.findMany({
+        where: { merchantId: parent.id, ...receiptScope(requireUser(context)) },
+        include: { items: true },
+        orderBy: [{ purchaseDate: 'desc' }, { createdAt: 'desc' }],
+      });
+    },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  ReceiptTemplate: {
+    receiptCount: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.receipt.count({
+        where: { templateId: parent.id, organizationId: parent.organizationId },
+      });
+    },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  Category: {
+    parent: async (parent: any, _: any, context: Context) => {
+      if (!parent.parentId) {
+        return null;
       }
-
+      return await context.prisma.category.findUnique({
+        where: { id: parent.parentId },
+      });
+    },
+    children: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.category.findMany({
+        where: { parentId: parent.id },
+        orderBy: { name: 'asc' },
+      });
+    },
+    rules: async (parent: any, _: any, context: Context) => {
+      const user = requireUser(context);
+      return await new CategoryService(context.prisma).listRules(user.organizationId, parent.id);
+    },
+    // Items of receipts the caller may see
+    itemCount: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.item.count({
+        where: { categoryId: parent.id, receipt: receiptScope(requireUser(context)) },
+      });
+    },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  CategoryRule: {
+    category: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.category.findUnique({
+        where: { id: parent.categoryId },
+      });
+    },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  OcrOutput: {
+    pageCount: (parent: any) => (Array.isArray(parent.pages) ? parent.pages.length : 0),
+    lines: (parent: any) => {
+      const pages = Array.isArray(parent.pages) ? parent.pages : [];
+      return pages.flatMap((page: any, index: number) =>
+        (page.lines || []).map((line: any) => ({
+          page: index + 1,
+          text: line.text,
+          confidence: line.confidence ?? null,
+          bbox: line.bbox ?? null,
+        }))
+      );
+    },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  TemplateTestField: {
+    value: (parent: any) => (parent.value instanceof Date ? parent.value.toISOString() : String(parent.value)),
+    sourceLine: (parent: any) => parent.sourceLine || null,
+  },
+  ReceiptSummary: {
+    lines: async (parent: any, _: any, context: Context) => {
+      if (parent.lines) {
+        return parent.lines;
+      }
+      return await context.prisma.summaryLine.findMany({
+        where: { summaryId: parent.id },
+        orderBy: { position: 'asc' },
+      });
+    },
+    // Input VAT that accounting can reclaim
+    vatAmount: async (parent: any, _: any, context: Context) => {
+      const lines = parent.lines || await context.prisma.summaryLine.findMany({
+        where: { summaryId: parent.id, type: 'VAT' },
+      });
+      const vatLines = lines.filter((line: any) => line.type === 'VAT');
+      if (vatLines.length === 0) {
+        return null;
+      }
+      return Math.round(vatLines.reduce((sum: number, line: any) => sum + line.amount, 0) * 100) / 100;
+    },
+  },
+  ValidationIssue: {
+    item: async (parent: any, _: any, context: Context) => {
+      if (!parent.itemId) {
+        return null;
+      }
+      return await context.prisma.item.findUnique({
+        where: { id: parent.itemId },
+      });
+    },
+  },
+  Item: {
+    extraction: (parent: any) => {
+      if (!parent.extraction || typeof parent.extraction !== 'object') {
+        return null;
+      }
+      return { field: 'item', ...parent.extraction };
+    },
+    category: async (parent: any, _: any, context: Context) => {
+      if (!parent.categoryId) {
+        return null;
+      }
+      return await context.prisma.category.findUnique({
+        where: { id: parent.categoryId },
+      });
+    },
+  },
+  Batch: {
+    receipts: async (parent: any, _: any, context: Context) => {
       return await context.prisma.receipt.findMany({
-        where,
+        where: { batchId: parent.id, ...receiptScope(requireUser(context)) },
+        orderBy: [{ createdAt: 'asc' }, { sourcePage: 'asc' }],
         include: {
           items: true,
         },
-        orderBy: [
-          {
-            purchaseDate: 'desc', // Most recent purchase date first
-          },
-          {
-            createdAt: 'desc', // Fallback to creation date if purchaseDate is null
-          },
-        ],
       });
     },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  BatchFile: {
+    receipt: async (parent: any, _: any, context: Context) => {
+      if (!parent.receiptId) {
+        return null;
+      }
+      return await context.prisma.receipt.findFirst({
+        where: { id: parent.receiptId, ...receiptScope(requireUser(context)) },
+        include: {
+          items: true,
+        },
+      });
+    },
+  },
+  MerchantSpend: {
+    merchant: async (parent: any, _: any, context: Context) => {
+      if (!parent.merchantId) {
+        return null;
+      }
+      return await context.prisma.merchant.findUnique({
+        where: { id: parent.merchantId },
+      });
+    },
+  },
+  CategorySpend: {
+    category: async (parent: any, _: any, context: Context) => {
+      if (!parent.categoryId) {
+        return null;
+      }
+      return await context.prisma.category.findUnique({
+        where: { id: parent.categoryId },
+      });
+    },
+  },
+  Organization: {
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  User: {
+    organization: async (parent: any, _: any, context: Context) => {
+      return await context.prisma.organization.findUnique({
+        where: { id: parent.organizationId },
+      });
+    },
+    lastLoginAt: (parent: any) => (parent.lastLoginAt ? new Date(parent.lastLoginAt).toISOString() : null),
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+  },
+  ApiKey: {
+    lastUsedAt: (parent: any) => (parent.lastUsedAt ? new Date(parent.lastUsedAt).toISOString() : null),
+    expiresAt: (parent: any) => (parent.expiresAt ? new Date(parent.expiresAt).toISOString() : null),
+    revokedAt: (parent: any) => (parent.revokedAt ? new Date(parent.revokedAt).toISOString() : null),
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+  },
+  Webhook: {
+    deliveries: async (parent: any, args: { status?: any; limit?: number }, context: Context) => {
+      return await new WebhookService(context.prisma).listDeliveries({
+        organizationId: requireUser(context, 'ADMIN').organizationId,
+        webhookId: parent.id,
+        status: args.status,
+        limit: args.limit,
+      });
+    },
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  WebhookDelivery: {
+    payload: (parent: any) => JSON.stringify(parent.payload),
+    deliveredAt: (parent: any) => (parent.deliveredAt ? new Date(parent.deliveredAt).toISOString() : null),
+    createdAt: (parent: any) => new Date(parent.createdAt).toISOString(),
+    updatedAt: (parent: any) => new Date(parent.updatedAt).toISOString(),
+  },
+  Query: {
+    // Null when not logged in, so the web interface can show its login form
+    me: (_: any, __: any, context: Context) => context.user ?? null,
+
+    organization: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context);
+      return await new OrganizationService(context.prisma).getOrganization(user.organizationId);
+    },
+
+    users: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new AuthService(context.prisma).listUsers(user.organizationId);
+    },
+
+    apiKeys: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context);
+      return await new AuthService(context.prisma).listApiKeys(user.id);
+    },
+
+    receipts: async (_: any, args: { filter?: any; orderBy?: string; sort?: any[] }, context: Context) => {
+      const scope = receiptScope(requireUser(context));
+      return await badUserInput(() =>
+        new ReceiptService(context.prisma).listReceipts(scope, args.filter, args.sort, args.orderBy)
+      );
+    },
+
+    receiptsConnection: async (
+      _: any,
+      args: { filter?: any; sort?: any[]; first?: number; after?: string; last?: number; before?: string },
+      context: Context
+    ) => {
+      const { filter, sort, ...page } = args;
+      const scope = receiptScope(requireUser(context));
+      return await badUserInput(() => new ReceiptService(context.prisma).findReceiptPage(scope, filter, sort, page));
+    },
+
+    searchReceipts: async (_: any, args: { query: string; limit?: number; offset?: number }, context: Context) => {
+      const user = requireUser(context);
+      return await badUserInput(() =>
+        new SearchService(context.prisma).searchReceipts(user, args.query, { limit: args.limit, offset: args.offset })
+      );
+    },
 
     receipt: async (_: any, args: { id: string }, context: Context) => {
-      return await context.prisma.receipt.findUnique({
-        where: { id: args.id },
+      return await context.prisma.receipt.findFirst({
+        where: { id: args.id, ...receiptScope(requireUser(context)) },
         include: {
           items: true,
         },
       });
     },
 
+    // Analytics cover the receipts the caller may see
+    spendByMerchant: async (_: any, args: { filter?: any; limit?: number }, context: Context) => {
+      const user = requireUser(context);
+      return await badUserInput(() => new AnalyticsService(context.prisma).spendByMerchant(user, args.filter, args.limit));
+    },
+
+    spendByPeriod: async (_: any, args: { interval?: any; filter?: any }, context: Context) => {
+      const user = requireUser(context);
+      return await badUserInput(() => new AnalyticsService(context.prisma).spendByPeriod(user, args.interval, args.filter));
+    },
+
+    topItems: async (_: any, args: { orderBy?: any; filter?: any; limit?: number }, context: Context) => {
+      const user = requireUser(context);
+      return await badUserInput(() =>
+        new AnalyticsService(context.prisma).topItems(user, args.orderBy, args.filter, args.limit)
+      );
+    },
+
+    spendByCategory: async (_: any, args: { filter?: any }, context: Context) => {
+      const user = requireUser(context);
+      return await badUserInput(() => new AnalyticsService(context.prisma).spendByCategory(user, args.filter));
+    },
+
+    basketStats: async (_: any, args: { filter?: any }, context: Context) => {
+      const user = requireUser(context);
+      return await badUserInput(() => new AnalyticsService(context.prisma).basketStats(user, args.filter));
+    },
+
     jobStatus: async (_: any, args: { jobId: string }, context: Context) => {
+      const user = requireUser(context);
       const { getJobStatus } = await import('../queue/ocr.queue');
-      return await getJobStatus(args.jobId);
+      return await getJobStatus(args.jobId, user);
+    },
+
+    batchStatus: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context);
+      const { BatchService } = await import('../services/batch.service');
+      const batch = await new BatchService(context.prisma).getBatchStatus(args.id);
+      return batch && canAccessOwned(user, batch) ? batch : null;
+    },
+
+    duplicateClusters: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      return await new DuplicateService(context.prisma).getClusters(user.organizationId);
+    },
+
+    merchants: async (_: any, args: { search?: string }, context: Context) => {
+      const user = requireUser(context);
+      return await new MerchantService(context.prisma).listMerchants(user.organizationId, args.search);
+    },
+
+    merchant: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context);
+      return await new MerchantService(context.prisma).getMerchant(user.organizationId, args.id);
+    },
+
+    categories: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context);
+      return await new CategoryService(context.prisma).listCategories(user.organizationId);
+    },
+
+    categoryRules: async (_: any, args: { categoryId?: string }, context: Context) => {
+      const user = requireUser(context);
+      return await new CategoryService(context.prisma).listRules(user.organizationId, args.categoryId);
+    },
+
+    receiptTemplates: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new TemplateService(context.prisma).listTemplates(user.organizationId);
+    },
+
+    receiptTemplate: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new TemplateService(context.prisma).getTemplate(user.organizationId, args.id);
+    },
+
+    testReceiptTemplate: async (
+      _: any,
+      args: { id?: string; source?: string; text?: string; receiptId?: string; tin?: string },
+      context: Context
+    ) => {
+      const user = requireUser(context, 'ADMIN');
+      if (args.receiptId) {
+        await findOwnReceipt(context, args.receiptId);
+      }
+      return await new TemplateService(context.prisma).testTemplate(user.organizationId, args);
+    },
+
+    reparseJob: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      const { getReparseJobStatus } = await import('../queue/reparse.queue');
+      return await getReparseJobStatus(args.id, user.organizationId);
+    },
+
+    exportJob: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context);
+      const { getExportJobStatus } = await import('../queue/export.queue');
+      return await getExportJobStatus(args.id, user.id);
+    },
+
+    webhooks: async (_: any, __: any, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).listWebhooks(user.organizationId);
+    },
+
+    webhook: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).getWebhook(user.organizationId, args.id);
+    },
+
+    webhookEvents: (_: any, __: any, context: Context) => {
+      requireUser(context, 'ADMIN');
+      return WEBHOOK_EVENTS;
+    },
+
+    webhookDeliveries: async (_: any, args: { webhookId?: string; status?: any; limit?: number }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).listDeliveries({ ...args, organizationId: user.organizationId });
     },
   },
 
+  Subscription: {
+    // Current status first, then every change reported by the worker
+    jobProgress: {
+      subscribe: async (root: any, args: { jobId: string }, context: Context, info: any) => {
+        const { getJobStatus } = await import('../queue/ocr.queue');
+        if (!(await getJobStatus(args.jobId, requireUser(context)))) {
+          throw new Error('Job not found');
+        }
+        return withInitialPayload(
+          { jobId: args.jobId },
+          withFilter(
+            () => pubsub.asyncIterator(JOB_PROGRESS),
+            (payload: any, variables: any) => payload.jobId === variables.jobId
+          )(root, args, context, info)
+        );
+      },
+      resolve: async (payload: any, _: any, context: Context) => {
+        const { getJobStatus } = await import('../queue/ocr.queue');
+        return await getJobStatus(payload.jobId, requireUser(context));
+      },
+    },
+    // Null once the receipt is deleted
+    receiptUpdated: {
+      subscribe: async (root: any, args: { id: string }, context: Context, info: any) => {
+        await findOwnReceipt(context, args.id);
+        return withInitialPayload(
+          { receiptId: args.id },
+          withFilter(
+            () => pubsub.asyncIterator(RECEIPT_UPDATED),
+            (payload: any, variables: any) => payload.receiptId === variables.id
+          )(root, args, context, info)
+        );
+      },
+      resolve: async (payload: any, _: any, context: Context) => {
+        return await context.prisma.receipt.findFirst({
+          where: { id: payload.receiptId, ...receiptScope(requireUser(context)) },
+          include: { items: true },
+        });
+      },
+    },
+    // Submitters hear of changes to their own receipts. Deletions carry ids only and are
+    // passed on to everyone in the organization, as the owner can no longer be looked up.
+    receiptsChanged: {
+      subscribe: (root: any, args: any, context: Context, info: any) => {
+        requireUser(context);
+        return withFilter(
+          () => pubsub.asyncIterator(RECEIPTS_CHANGED),
+          async (payload: any, _: any, context: Context) => {
+            const user = requireUser(context);
+            if (payload.organizationId !== user.organizationId) {
+              return false;
+            }
+            if (hasRole(user, 'REVIEWER') || payload.change === 'DELETED') {
+              return true;
+            }
+            const owned = await context.prisma.receipt.count({
+              where: { id: { in: payload.receiptIds }, ownerId: user.id },
+            });
+            return owned > 0;
+          }
+        )(root, args, context, info);
+      },
+      resolve: (payload: any) => payload,
+    },
+  },
+  ReceiptsChange: {
+    receipts: async (parent: any, _: any, context: Context) => {
+      if (parent.change === 'DELETED') {
+        return [];
+      }
+      return await context.prisma.receipt.findMany({
+        where: { id: { in: parent.receiptIds }, ...receiptScope(requireUser(context)) },
+        include: { items: true },
+        orderBy: { createdAt: 'desc' },
+      });
+    },
+  },
   Mutation: {
+    // Also sets the web interface's session cookie when called over HTTP
+    login: async (_: any, args: { email: string; password: string }, context: Context) => {
+      try {
+        const result = await new AuthService(context.prisma).login(args.email, args.password);
+        if (context.res) {
+          setAuthCookie(context.res, result.token);
+        }
+        return result;
+      } catch (error) {
+        if (error instanceof AuthError) {
+          throw new GraphQLError(error.message, { extensions: { code: 'UNAUTHENTICATED' } });
+        }
+        throw error;
+      }
+    },
+
+    logout: (_: any, __: any, context: Context) => {
+      if (context.res) {
+        clearAuthCookie(context.res);
+      }
+      return true;
+    },
+
+    changePassword: async (_: any, args: { currentPassword: string; newPassword: string }, context: Context) => {
+      const user = requireUser(context);
+      try {
+        return await new AuthService(context.prisma).changePassword(user.id, args.currentPassword, args.newPassword);
+      } catch (error) {
+        if (error instanceof AuthError) {
+          throw new GraphQLError(error.message, { extensions: { code: 'FORBIDDEN' } });
+        }
+        throw error;
+      }
+    },
+
+    updateOrganization: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new OrganizationService(context.prisma).updateOrganization(user.organizationId, args.input);
+    },
+
+    // New users join the admin's organization
+    createUser: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new AuthService(context.prisma).createUser({ ...args.input, organizationId: user.organizationId });
+    },
+
+    updateUser: async (_: any, args: { id: string; input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new AuthService(context.prisma).updateUser(user.organizationId, args.id, args.input);
+    },
+
+    createApiKey: async (_: any, args: { name: string; expiresAt?: string }, context: Context) => {
+      const user = requireUser(context);
+      return await new AuthService(context.prisma).createApiKey(user.id, args.name, args.expiresAt);
+    },
+
+    revokeApiKey: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context);
+      return await new AuthService(context.prisma).revokeApiKey(user, args.id);
+    },
+
     uploadReceipt: async (_: any, args: { imageUrl: string }, context: Context) => {
       // This mutation is kept for GraphQL compatibility
       // But file upload is handled via REST endpoint /api/upload
       // This can be used if imageUrl is already known
       const receipt = await context.prisma.receipt.findFirst({
-        where: { imageUrl: args.imageUrl },
+        where: { imageUrl: args.imageUrl, ...receiptScope(requireUser(context)) },
         include: { items: true },
       });
 
@@ -101,14 +741,9 @@ export const resolvers = {
     updateReceipt: async (_: any, args: { id: string; input: any; items?: any[] }, context: Context) => {
       const { id, input, items } = args;
 
-      // Validate receipt exists
-      const existingReceipt = await context.prisma.receipt.findUnique({
-        where: { id },
-      });
-
-      if (!existingReceipt) {
-        throw new Error('Receipt not found');
-      }
+      // Validate receipt exists and belongs to the caller
+      const existingReceipt = await findOwnReceipt(context, id);
+      const previousItems = items ? await context.prisma.item.findMany({ where: { receiptId: id } }) : [];
 
       // Prepare update data
       const updateData: any = {};
@@ -121,12 +756,33 @@ export const resolvers = {
         // Validate date
         const date = input.purchaseDate ? new Date(input.purchaseDate) : null;
         updateData.purchaseDate = date && !isNaN(date.getTime()) ? date : null;
+        // A hand-entered date is Gregorian and has no printed original
+        updateData.purchaseDateRaw = null;
+        updateData.purchaseDateCalendar = null;
       }
 
       if (input.totalAmount !== undefined) {
         updateData.totalAmount = input.totalAmount;
       }
 
+      // Fiscal identifiers; an empty value clears the field
+      for (const field of ['tin', 'fsNumber', 'mrc', 'referenceNumber', 'cashier', 'paymentMethod']) {
+        if (input[field] !== undefined) {
+          updateData[field] = input[field] || null;
+        }
+      }
+
+      if (input.merchantId !== undefined) {
+        if (input.merchantId && !(await new MerchantService(context.prisma).getMerchant(existingReceipt.organizationId, input.merchantId))) {
+          throw new Error('Merchant not found');
+        }
+        updateData.merchantId = input.merchantId || null;
+      }
+
+      // Any manual edit means the receipt has been touched by a human
+      updateData.humanEdited = true;
+      updateData.editedAt = new Date();
+
       // Update receipt
       const receipt = await context.prisma.receipt.update({
         where: { id },
@@ -136,9 +792,13 @@ export const resolvers = {
             items: {
               deleteMany: {}, // Delete all existing items
               create: items.map((item) => ({
+                organizationId: existingReceipt.organizationId,
                 name: item.name,
                 quantity: item.quantity || null,
+                unit: item.unit || null,
                 price: item.price || null,
+                amount: item.amount ?? null,
+                ...carryOverCategory(previousItems, item.id),
               })),
             },
           }),
@@ -148,13 +808,94 @@ export const resolvers = {
         },
       });
 
+      // Re-check the arithmetic and duplicates after the manual edit
+      await new ValidationService(context.prisma).validateReceipt(id);
+      const duplicate = await new DuplicateService(context.prisma).checkReceipt(id);
+
+      // Items kept their categories; new ones get one
+      if (items) {
+        await new CategoryService(context.prisma).categorizeReceipt(id);
+        receipt.items = await context.prisma.item.findMany({ where: { receiptId: id } });
+      }
+
+      // A corrected TIN or store name may belong to another merchant, unless one was picked by hand
+      let merchantId = receipt.merchantId;
+      if (input.merchantId === undefined && (input.tin !== undefined || input.storeName !== undefined)) {
+        merchantId = (await new MerchantService(context.prisma).matchReceipt(id))?.id ?? null;
+      }
+
+      publishReceiptChange(existingReceipt.organizationId, id);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', id);
+
+      return { ...receipt, ...duplicate, merchantId };
+    },
+
+    verifyReceipt: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      const existingReceipt = await context.prisma.receipt.findFirst({
+        where: { id: args.id, ...receiptScope(user) },
+      });
+
+      if (!existingReceipt) {
+        throw new Error('Receipt not found');
+      }
+
+      if (existingReceipt.status === 'PROCESSING') {
+        throw new Error('Receipt is still being processed and cannot be verified yet');
+      }
+
+      const receipt = await context.prisma.receipt.update({
+        where: { id: args.id },
+        data: {
+          status: 'VERIFIED',
+          statusReason: null,
+          reviewerId: user.id,
+          reviewedBy: user.name || user.email,
+          reviewedAt: new Date(),
+        },
+        include: {
+          items: true,
+        },
+      });
+
+      publishReceiptChange(user.organizationId, args.id);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', args.id);
       return receipt;
     },
 
-    deleteReceipt: async (_: any, args: { id: string }, context: Context) => {
-      // Check if receipt exists
-      const receipt = await context.prisma.receipt.findUnique({
+    rejectReceipt: async (_: any, args: { id: string; reason?: string }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      const existingReceipt = await context.prisma.receipt.findFirst({
+        where: { id: args.id, ...receiptScope(user) },
+      });
+
+      if (!existingReceipt) {
+        throw new Error('Receipt not found');
+      }
+
+      const receipt = await context.prisma.receipt.update({
         where: { id: args.id },
+        data: {
+          status: 'REJECTED',
+          statusReason: args.reason || null,
+          reviewerId: user.id,
+          reviewedBy: user.name || user.email,
+          reviewedAt: new Date(),
+        },
+        include: {
+          items: true,
+        },
+      });
+
+      publishReceiptChange(user.organizationId, args.id);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', args.id);
+      return receipt;
+    },
+
+    deleteReceipt: async (_: any, args: { id: string }, context: Context) => {
+      // Check if receipt exists and belongs to the caller
+      const receipt = await context.prisma.receipt.findFirst({
+        where: { id: args.id, ...receiptScope(requireUser(context)) },
         include: { items: true },
       });
 
@@ -166,18 +907,17 @@ export const resolvers = {
       await context.prisma.receipt.delete({
         where: { id: args.id },
       });
+      publishReceiptChange(receipt.organizationId, args.id, 'DELETED');
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.deleted', args.id, receipt);
 
-      // Optionally delete the image file
-      if (receipt.imageUrl) {
+      // Optionally delete the image file and its derived images, unless other receipts
+      // still use it (one per page of a split PDF)
+      const sharedWith = receipt.imageUrl
+        ? await context.prisma.receipt.count({ where: { imageUrl: receipt.imageUrl } })
+        : 0;
+      if (receipt.imageUrl && sharedWith === 0) {
         try {
-          const fs = await import('fs');
-          const path = await import('path');
-          const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
-          const imagePath = path.join(uploadDir, receipt.imageUrl.replace('/uploads/', ''));
-          
-          if (fs.existsSync(imagePath)) {
-            fs.unlinkSync(imagePath);
-          }
+          deleteUploadedFile(uploadedFilePath(receipt.imageUrl));
         } catch (error) {
           console.error('Error deleting image file:', error);
           // Don't fail the deletion if file deletion fails
@@ -189,8 +929,9 @@ export const resolvers = {
 
     deleteItem: async (_: any, args: { id: string }, context: Context) => {
       // Check if item exists
-      const item = await context.prisma.item.findUnique({
-        where: { id: args.id },
+      const user = requireUser(context);
+      const item = await context.prisma.item.findFirst({
+        where: { id: args.id, receipt: receiptScope(user) },
       });
 
       if (!item) {
@@ -201,9 +942,223 @@ export const resolvers = {
       await context.prisma.item.delete({
         where: { id: args.id },
       });
+      publishReceiptChange(user.organizationId, item.receiptId);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', item.receiptId);
 
       return true;
     },
+
+    setItemCategory: async (_: any, args: { itemId: string; categoryId?: string | null }, context: Context) => {
+      const user = requireUser(context);
+      const item = await context.prisma.item.findFirst({
+        where: { id: args.itemId, receipt: receiptScope(user) },
+      });
+
+      if (!item) {
+        throw new Error('Item not found');
+      }
+
+      const updated = await new CategoryService(context.prisma).setItemCategory(
+        user.organizationId,
+        args.itemId,
+        args.categoryId || null
+      );
+      publishReceiptChange(user.organizationId, item.receiptId);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', item.receiptId);
+
+      return updated;
+    },
+
+    retryBatch: async (_: any, args: { id: string; failedOnly?: boolean; force?: boolean }, context: Context) => {
+      const user = requireUser(context);
+      const { BatchService } = await import('../services/batch.service');
+      const batchService = new BatchService(context.prisma);
+      const existing = await batchService.getBatchStatus(args.id);
+      if (!existing || !canAccessOwned(user, existing)) {
+        throw new Error('Batch not found');
+      }
+
+      const batch = await batchService.retryBatch(args.id, args.failedOnly ?? true, args.force ?? false);
+
+      if (!batch) {
+        throw new Error('Batch not found');
+      }
+
+      // Retried receipts are back to PROCESSING
+      publishReceiptChange(user.organizationId, batch.files.map((file) => file.receiptId!));
+      return batch;
+    },
+
+    mergeReceipts: async (_: any, args: { keepId: string; mergeIds: string[] }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      const mergeIds = args.mergeIds.filter((id) => id !== args.keepId);
+      // Webhooks get the merged receipts as they were before deletion
+      const merged = await context.prisma.receipt.findMany({
+        where: { id: { in: mergeIds }, organizationId: user.organizationId },
+        include: { items: true },
+      });
+      const receipt = await new DuplicateService(context.prisma).mergeReceipts(user.organizationId, args.keepId, args.mergeIds);
+      publishReceiptChange(user.organizationId, mergeIds, 'DELETED');
+      publishReceiptChange(user.organizationId, args.keepId);
+
+      const webhookService = new WebhookService(context.prisma);
+      for (const snapshot of merged) {
+        await webhookService.emitReceiptEvent('receipt.deleted', snapshot.id, snapshot);
+      }
+      await webhookService.emitReceiptEvent('receipt.updated', args.keepId);
+      return receipt;
+    },
+
+    createMerchant: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      return await new MerchantService(context.prisma).createMerchant(user.organizationId, args.input);
+    },
+
+    updateMerchant: async (_: any, args: { id: string; input: any }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      return await new MerchantService(context.prisma).updateMerchant(user.organizationId, args.id, args.input);
+    },
+
+    deleteMerchant: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      return await new MerchantService(context.prisma).deleteMerchant(user.organizationId, args.id);
+    },
+
+    mergeMerchants: async (_: any, args: { keepId: string; mergeIds: string[] }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      return await new MerchantService(context.prisma).mergeMerchants(user.organizationId, args.keepId, args.mergeIds);
+    },
+
+    createCategory: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).createCategory(user.organizationId, args.input);
+    },
+
+    updateCategory: async (_: any, args: { id: string; input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).updateCategory(user.organizationId, args.id, args.input);
+    },
+
+    deleteCategory: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).deleteCategory(user.organizationId, args.id);
+    },
+
+    createCategoryRule: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).createRule(user.organizationId, args.input);
+    },
+
+    updateCategoryRule: async (_: any, args: { id: string; input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).updateRule(user.organizationId, args.id, args.input);
+    },
+
+    deleteCategoryRule: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).deleteRule(user.organizationId, args.id);
+    },
+
+    recategorizeItems: async (_: any, args: { force?: boolean }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new CategoryService(context.prisma).recategorizeItems(user.organizationId, args.force ?? false);
+    },
+
+    createReceiptTemplate: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new TemplateService(context.prisma).createTemplate(user.organizationId, args.input);
+    },
+
+    updateReceiptTemplate: async (_: any, args: { id: string; input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new TemplateService(context.prisma).updateTemplate(user.organizationId, args.id, args.input);
+    },
+
+    deleteReceiptTemplate: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new TemplateService(context.prisma).deleteTemplate(user.organizationId, args.id);
+    },
+
+    reparseReceipt: async (_: any, args: { id: string; force?: boolean }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      await findOwnReceipt(context, args.id);
+      const receipt = await new ReparseService(context.prisma).reparseReceipt(args.id, { force: args.force ?? false });
+      publishReceiptChange(user.organizationId, args.id);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', args.id);
+      return receipt;
+    },
+
+    reparseReceipts: async (_: any, args: { filter?: any; force?: boolean }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      const { addReparseJob, getReparseJobStatus } = await import('../queue/reparse.queue');
+      const job = await addReparseJob({
+        filter: { ...args.filter, organizationId: user.organizationId },
+        force: args.force ?? false,
+      });
+      return await getReparseJobStatus(job.id!, user.organizationId);
+    },
+
+    exportReceipts: async (
+      _: any,
+      args: { filter?: any; sort?: any[]; format?: ExportFormat; layout?: ExportLayout },
+      context: Context
+    ) => {
+      const user = requireUser(context);
+      // Bad filters are reported now rather than when the job runs
+      await badUserInput(async () => new ReceiptService(context.prisma).buildWhere(args.filter));
+
+      const { addExportJob, getExportJobStatus } = await import('../queue/export.queue');
+      const job = await addExportJob({
+        user,
+        options: {
+          format: args.format ?? 'CSV',
+          layout: args.layout ?? 'RECEIPTS',
+          filter: args.filter,
+          sort: args.sort,
+        },
+      });
+      return await getExportJobStatus(job.id!, user.id);
+    },
+
+    dismissDuplicate: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'REVIEWER');
+      await findOwnReceipt(context, args.id);
+
+      const dismissed = await new DuplicateService(context.prisma).dismissDuplicate(args.id);
+      publishReceiptChange(user.organizationId, args.id);
+      await new WebhookService(context.prisma).emitReceiptEvent('receipt.updated', args.id);
+      return dismissed;
+    },
+
+    createWebhook: async (_: any, args: { input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).createWebhook(user.organizationId, args.input);
+    },
+
+    updateWebhook: async (_: any, args: { id: string; input: any }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).updateWebhook(user.organizationId, args.id, args.input);
+    },
+
+    deleteWebhook: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).deleteWebhook(user.organizationId, args.id);
+    },
+
+    rotateWebhookSecret: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).rotateSecret(user.organizationId, args.id);
+    },
+
+    testWebhook: async (_: any, args: { id: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).testWebhook(user.organizationId, args.id);
+    },
+
+    redeliverWebhook: async (_: any, args: { deliveryId: string }, context: Context) => {
+      const user = requireUser(context, 'ADMIN');
+      return await new WebhookService(context.prisma).redeliver(user.organizationId, args.deliveryId);
+    },
   },
 };
 
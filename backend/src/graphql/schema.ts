@@ -5,39 +5,463 @@ export const typeDefs = gql`
     id: ID!
     storeName: String
     purchaseDate: String
+    purchaseDateRaw: String
+    purchaseDateCalendar: CalendarSystem
+    purchaseDateIn(calendar: CalendarSystem!): CalendarDate
     totalAmount: Float
+    currency: String # Of the organization when the receipt was processed
+    tin: String
+    fsNumber: String
+    mrc: String
+    referenceNumber: String
+    cashier: String
+    paymentMethod: PaymentMethod
+    merchantId: ID
+    merchant: Merchant
     imageUrl: String
+    processedImageUrl: String
+    preprocessing: PreprocessingReport
+    textSource: TextSource
+    ocrEngine: String
+    templateId: ID
+    template: ReceiptTemplate
+    sourcePage: Int
+    confidence: Float
+    extractions: [FieldExtraction!]!
+    status: ReceiptStatus!
+    statusReason: String
+    reviewedBy: String # Name of the reviewer at the time
+    reviewerId: ID
+    reviewer: User # Null once the user is deleted
+    reviewedAt: String
+    humanEdited: Boolean!
+    editedAt: String
+    ownerId: ID
+    owner: User
+    batchId: ID
+    duplicateOfId: ID
+    duplicateOf: Receipt
+    duplicateMatch: DuplicateMatch
+    duplicateDismissed: Boolean!
+    duplicates: [Receipt!]!
     items: [Item!]!
+    summary: ReceiptSummary
+    validationIssues: [ValidationIssue!]!
+    ocrOutput: OcrOutput
     createdAt: String!
     updatedAt: String!
   }
 
+  # Raw OCR result of a receipt, kept for re-parsing
+  type OcrOutput {
+    text: String!
+    engine: String
+    engineVersion: String
+    confidence: Float
+    pageCount: Int!
+    lines: [OcrOutputLine!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type OcrOutputLine {
+    page: Int!
+    text: String!
+    confidence: Float
+    bbox: BoundingBox
+  }
+
+  # Receipts to re-parse in bulk; all receipts with stored OCR output when empty
+  input ReparseFilter {
+    receiptIds: [ID!]
+    status: ReceiptStatus
+    merchantId: ID
+    templateId: ID
+    createdAfter: String
+    createdBefore: String
+  }
+
+  type ReparseJob {
+    id: String!
+    state: String!
+    progress: Int
+    result: ReparseJobResult
+    failedReason: String
+    timestamp: Float
+  }
+
+  type ReparseJobResult {
+    total: Int!
+    reparsed: Int!
+    skipped: Int!
+    failed: Int!
+    errors: [ReparseError!]!
+  }
+
+  type ReparseError {
+    receiptId: ID!
+    error: String!
+  }
+
+  enum ExportFormat {
+    CSV
+    XLSX
+    NDJSON # One JSON object per line
+  }
+
+  enum ExportLayout {
+    RECEIPTS # One row per receipt
+    ITEMS # One row per item, with the receipt's main columns
+  }
+
+  # Background export; the file is kept for EXPORT_TTL_HOURS
+  type ExportJob {
+    id: String!
+    state: String!
+    progress: Int
+    result: ExportJobResult
+    failedReason: String
+    timestamp: Float
+    downloadUrl: String # REST path of the file, once completed
+  }
+
+  type ExportJobResult {
+    format: ExportFormat!
+    layout: ExportLayout!
+    rowCount: Int!
+    fileName: String!
+  }
+
+  enum PaymentMethod {
+    CASH
+    CARD
+    MOBILE_MONEY
+    BANK_TRANSFER
+    CHEQUE
+    CREDIT
+    OTHER
+  }
+
+  # A shop, identified by its TIN; receipts are matched to it by TIN or store name
+  type Merchant {
+    id: ID!
+    tin: String
+    name: String!
+    aliases: [String!]!
+    address: String
+    vatNumber: String
+    receiptCount: Int!
+    receipts: [Receipt!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input MerchantInput {
+    tin: String
+    name: String
+    aliases: [String!]
+    address: String
+    vatNumber: String
+  }
+
+  # What set an item's category
+  enum CategorySource {
+    RULE
+    CLASSIFIER # Learned from the categories users gave items of the same or similar names
+    MANUAL
+  }
+
+  enum CategoryRuleType {
+    KEYWORD # Contained in the item name, ignoring case
+    REGEX # Case-insensitive regular expression on the item name
+  }
+
+  # Spending category of items; categories are nested at most one level deep
+  type Category {
+    id: ID!
+    name: String!
+    parentId: ID
+    parent: Category
+    children: [Category!]!
+    rules: [CategoryRule!]!
+    itemCount: Int!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input CategoryInput {
+    name: String
+    parentId: ID
+  }
+
+  # Puts items whose name matches in the category. Enabled rules are tried by priority,
+  # highest first, before the classifier.
+  type CategoryRule {
+    id: ID!
+    categoryId: ID!
+    category: Category!
+    type: CategoryRuleType!
+    pattern: String!
+    priority: Int!
+    enabled: Boolean!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input CategoryRuleInput {
+    categoryId: ID
+    type: CategoryRuleType
+    pattern: String
+    priority: Int
+    enabled: Boolean
+  }
+
+  # Layout template of a merchant, written as JSON or YAML; overrides the generic parser
+  type ReceiptTemplate {
+    id: ID!
+    name: String!
+    tin: String
+    source: String!
+    enabled: Boolean!
+    priority: Int!
+    receiptCount: Int!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input ReceiptTemplateInput {
+    source: String
+    enabled: Boolean
+    priority: Int
+  }
+
+  # What a template reads from OCR text, without saving anything
+  type TemplateTestResult {
+    matched: Boolean!
+    matchedBy: String
+    fields: [TemplateTestField!]!
+    items: [TemplateTestItem!]!
+    missingFields: [String!]!
+  }
+
+  type TemplateTestField {
+    field: String!
+    value: String!
+    raw: String!
+    sourceLine: String
+  }
+
+  type TemplateTestItem {
+    name: String!
+    quantity: Float
+    unit: String
+    price: Float
+    amount: Float
+    sourceLine: String!
+  }
+
+  # What made a receipt look like a re-upload of another one
+  enum DuplicateMatch {
+    IMAGE
+    FIELDS
+    IMAGE_AND_FIELDS
+  }
+
+  # An original receipt and the receipts flagged as its duplicates
+  type DuplicateCluster {
+    original: Receipt!
+    duplicates: [Receipt!]!
+  }
+
+  # OCR, or the embedded text layer of a digital PDF
+  enum TextSource {
+    OCR
+    PDF_TEXT
+  }
+
+  type ImageRegion {
+    left: Int!
+    top: Int!
+    width: Int!
+    height: Int!
+  }
+
+  # What the preprocessing pipeline did to the image before OCR
+  type PreprocessingReport {
+    steps: [String!]!
+    rotation: Int!
+    skewAngle: Float!
+    crop: ImageRegion
+    scale: Float!
+    width: Int
+    height: Int
+  }
+
+  enum ValidationSeverity {
+    INFO
+    WARNING
+    ERROR
+  }
+
+  type ValidationIssue {
+    id: ID!
+    code: String!
+    severity: ValidationSeverity!
+    message: String!
+    itemId: String
+    item: Item
+    expected: Float
+    actual: Float
+  }
+
+  enum SummaryLineType {
+    VAT
+    TURNOVER_TAX
+    EXCISE_TAX
+    OTHER_TAX
+    SERVICE_CHARGE
+    DISCOUNT
+    ROUNDING
+  }
+
+  type SummaryLine {
+    id: ID!
+    type: SummaryLineType!
+    label: String!
+    rate: Float
+    amount: Float!
+  }
+
+  type ReceiptSummary {
+    id: ID!
+    subtotal: Float
+    taxTotal: Float
+    vatAmount: Float
+    discountTotal: Float
+    rounding: Float
+    grandTotal: Float
+    lines: [SummaryLine!]!
+  }
+
   type Item {
     id: ID!
     name: String!
-    quantity: Int
+    quantity: Float
+    unit: String
     price: Float
+    amount: Float
+    confidence: Float
+    extraction: FieldExtraction
+    categoryId: ID
+    category: Category
+    categorySource: CategorySource
+    categoryConfidence: Float # Of the classifier, 0-1
     receiptId: String!
     createdAt: String!
   }
 
+  type BoundingBox {
+    x0: Int!
+    y0: Int!
+    x1: Int!
+    y1: Int!
+  }
+
+  type FieldExtraction {
+    field: String!
+    strategy: String!
+    confidence: Float
+    sourceLine: String
+    bbox: BoundingBox
+  }
+
+  enum CalendarSystem {
+    GREGORIAN
+    ETHIOPIAN
+  }
+
+  type CalendarDate {
+    calendar: CalendarSystem!
+    year: Int!
+    month: Int!
+    day: Int!
+    monthName: String!
+    formatted: String!
+  }
+
+  enum ReceiptStatus {
+    PROCESSING
+    NEEDS_REVIEW
+    VERIFIED
+    REJECTED
+    FAILED
+  }
+
+  enum ReceiptOrderBy {
+    PURCHASE_DATE_DESC
+    CONFIDENCE_ASC
+  }
+
+  enum ReceiptSortField {
+    PURCHASE_DATE
+    CREATED_AT
+    UPDATED_AT
+    TOTAL_AMOUNT
+    STORE_NAME
+    CONFIDENCE
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  # Receipts without a value for the field come last, whatever the direction
+  input ReceiptSort {
+    field: ReceiptSortField!
+    direction: SortDirection = DESC
+  }
+
   input ReceiptFilter {
     storeName: String
     startDate: String
     endDate: String
+    hasPurchaseDate: Boolean # true: only receipts with a purchase date, false: only those without
+    minTotal: Float
+    maxTotal: Float
+    itemName: String # Any item whose name contains it
+    categoryId: ID # Any item in the category or one of its subcategories
+    status: ReceiptStatus
+    merchantId: ID
+    ownerId: ID # Uploaded by
+    tin: String
+    fsNumber: String
+    mrc: String
+    referenceNumber: String
+    cashier: String
+    paymentMethod: PaymentMethod
   }
 
   input UpdateReceiptInput {
     storeName: String
     purchaseDate: String
     totalAmount: Float
+    tin: String
+    fsNumber: String
+    mrc: String
+    referenceNumber: String
+    cashier: String
+    paymentMethod: PaymentMethod
+    merchantId: ID
   }
 
   input UpdateItemInput {
     id: String
     name: String
-    quantity: Int
+    quantity: Float
+    unit: String
     price: Float
+    amount: Float
   }
 
   type JobStatus {
@@ -51,15 +475,175 @@ export const typeDefs = gql`
 
   type OCRJobResult {
     receiptId: String!
+    receiptIds: [String!]
     storeName: String
     purchaseDate: String
     totalAmount: Float
+    confidence: Float
+    duplicateOfId: String
     items: [ItemResult!]!
   }
 
   type ItemResult {
     name: String!
-    quantity: Int
+    quantity: Float
+    unit: String
+    price: Float
+    amount: Float
+  }
+
+  enum BatchStatus {
+    PROCESSING
+    COMPLETED
+    COMPLETED_WITH_ERRORS
+  }
+
+  enum BatchFileStatus {
+    QUEUED
+    PROCESSING
+    SUCCEEDED
+    FAILED
+  }
+
+  # Receipts uploaded together through /api/upload/batch
+  type Batch {
+    id: ID!
+    status: BatchStatus!
+    total: Int!
+    queued: Int!
+    processing: Int!
+    succeeded: Int!
+    failed: Int!
+    progress: Int!
+    files: [BatchFile!]!
+    receipts: [Receipt!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type BatchFile {
+    id: ID!
+    originalName: String!
+    status: BatchFileStatus!
+    progress: Int!
+    jobId: String
+    attempts: Int!
+    error: String
+    receiptId: ID
+    receipt: Receipt
+  }
+
+  # Receiver of receipt lifecycle events, signed with its secret
+  type Webhook {
+    id: ID!
+    url: String!
+    description: String
+    events: [String!]! # Empty for all events
+    secret: String!
+    enabled: Boolean!
+    deliveries(status: WebhookDeliveryStatus, limit: Int = 20): [WebhookDelivery!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input WebhookInput {
+    url: String
+    description: String
+    events: [String!]
+    enabled: Boolean
+  }
+
+  enum WebhookDeliveryStatus {
+    PENDING
+    SUCCEEDED
+    FAILED
+    SKIPPED
+  }
+
+  type WebhookDelivery {
+    id: ID!
+    webhookId: ID!
+    event: String!
+    payload: String! # JSON request body
+    status: WebhookDeliveryStatus!
+    attempts: Int!
+    responseStatus: Int
+    responseBody: String
+    error: String
+    durationMs: Int
+    deliveredAt: String
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  enum UserRole {
+    SUBMITTER # Uploads receipts and corrects their own
+    REVIEWER # Sees all receipts, verifies and rejects them
+    ADMIN # Also manages users, templates, webhooks and bulk re-parsing
+  }
+
+  # A tenant: its users, receipts, merchants, batches and webhooks are invisible to others
+  type Organization {
+    id: ID!
+    name: String!
+    slug: String!
+    ocrLanguages: String # Tesseract languages, e.g. "eng+amh"; the server's default when null
+    currency: String!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input OrganizationInput {
+    name: String
+    slug: String
+    ocrLanguages: String
+    currency: String
+  }
+
+  type User {
+    id: ID!
+    organization: Organization!
+    email: String!
+    name: String
+    role: UserRole!
+    active: Boolean!
+    lastLoginAt: String
+    createdAt: String!
+  }
+
+  input CreateUserInput {
+    email: String!
+    name: String
+    password: String!
+    role: UserRole = SUBMITTER
+  }
+
+  input UpdateUserInput {
+    email: String
+    name: String
+    password: String
+    role: UserRole
+    active: Boolean
+  }
+
+  type AuthPayload {
+    token: String!
+    user: User!
+  }
+
+  type ApiKey {
+    id: ID!
+    name: String!
+    prefix: String!
+    lastUsedAt: String
+    expiresAt: String
+    revokedAt: String
+    createdAt: String!
+  }
+
+  type CreatedApiKey {
+    apiKey: ApiKey!
+    key: String! # Only returned here; store it safely
   }
 
   type UploadResponse {
@@ -68,17 +652,217 @@ export const typeDefs = gql`
     status: String!
   }
 
+  enum ReceiptChange {
+    CREATED
+    UPDATED
+    DELETED
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type ReceiptEdge {
+    cursor: String!
+    node: Receipt!
+  }
+
+  type ReceiptConnection {
+    edges: [ReceiptEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int! # Of all matching receipts, not just this page
+  }
+
+  enum SearchField {
+    STORE_NAME
+    ITEMS
+    TEXT # Stored OCR text
+  }
+
+  type SearchHighlight {
+    field: SearchField!
+    snippet: String! # HTML: the text is escaped and matches are wrapped in <mark>
+  }
+
+  type ReceiptSearchResult {
+    receipt: Receipt!
+    rank: Float!
+    highlights: [SearchHighlight!]!
+  }
+
+  type ReceiptSearchResults {
+    results: [ReceiptSearchResult!]! # Best match first
+    totalCount: Int!
+  }
+
+  # Date, merchant and category options of ReceiptFilter. Rejected receipts are left out
+  # unless asked for by status. Item figures only count items in the category.
+  input AnalyticsFilter {
+    startDate: String
+    endDate: String
+    merchantId: ID
+    categoryId: ID
+    status: ReceiptStatus
+  }
+
+  enum SpendInterval {
+    DAY
+    WEEK # Starting on Monday
+    MONTH
+  }
+
+  enum TopItemsOrder {
+    QUANTITY
+    AMOUNT
+  }
+
+  type MerchantSpend {
+    merchantId: ID # Null for receipts not matched to a merchant, grouped by store name
+    merchant: Merchant
+    name: String
+    receiptCount: Int!
+    totalAmount: Float!
+    averageAmount: Float
+  }
+
+  type PeriodSpend {
+    period: String! # First day of the period, YYYY-MM-DD
+    receiptCount: Int!
+    totalAmount: Float!
+  }
+
+  type ItemSpend {
+    name: String!
+    quantity: Float!
+    totalAmount: Float!
+    receiptCount: Int!
+  }
+
+  type CategorySpend {
+    categoryId: ID # Null for uncategorized items
+    category: Category
+    name: String
+    parentId: ID
+    itemCount: Int!
+    totalAmount: Float!
+  }
+
+  type BasketStats {
+    receiptCount: Int!
+    totalAmount: Float!
+    averageAmount: Float # Average receipt total
+    averageItemCount: Float # Average number of items per receipt
+  }
+
+  type ReceiptsChange {
+    change: ReceiptChange!
+    receiptIds: [ID!]!
+    receipts: [Receipt!]! # Current state of the changed receipts; empty when deleted
+  }
+
   type Query {
-    receipts(filter: ReceiptFilter): [Receipt!]!
+    me: User
+    organization: Organization
+    users: [User!]!
+    apiKeys: [ApiKey!]!
+    receipts(filter: ReceiptFilter, orderBy: ReceiptOrderBy, sort: [ReceiptSort!]): [Receipt!]! # Every match; sort overrides orderBy
+    # Pages forward with first/after or backward with last/before (at most 100 per page).
+    # Cursors are only valid with the sort they came from.
+    receiptsConnection(
+      filter: ReceiptFilter
+      sort: [ReceiptSort!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): ReceiptConnection!
+    # Full-text search over store names, item names and OCR text. Takes web search syntax:
+    # words, "quoted phrases", OR and -excluded words.
+    searchReceipts(query: String!, limit: Int = 20, offset: Int = 0): ReceiptSearchResults!
     receipt(id: ID!): Receipt
+    spendByMerchant(filter: AnalyticsFilter, limit: Int = 20): [MerchantSpend!]!
+    spendByPeriod(interval: SpendInterval = MONTH, filter: AnalyticsFilter): [PeriodSpend!]!
+    topItems(orderBy: TopItemsOrder = AMOUNT, filter: AnalyticsFilter, limit: Int = 20): [ItemSpend!]!
+    spendByCategory(filter: AnalyticsFilter): [CategorySpend!]!
+    basketStats(filter: AnalyticsFilter): BasketStats!
     jobStatus(jobId: String!): JobStatus
+    batchStatus(id: ID!): Batch
+    duplicateClusters: [DuplicateCluster!]!
+    merchants(search: String): [Merchant!]!
+    merchant(id: ID!): Merchant
+    categories: [Category!]!
+    categoryRules(categoryId: ID): [CategoryRule!]!
+    receiptTemplates: [ReceiptTemplate!]!
+    receiptTemplate(id: ID!): ReceiptTemplate
+    testReceiptTemplate(id: ID, source: String, text: String, receiptId: ID, tin: String): TemplateTestResult!
+    reparseJob(id: String!): ReparseJob
+    exportJob(id: String!): ExportJob
+    webhooks: [Webhook!]!
+    webhook(id: ID!): Webhook
+    webhookEvents: [String!]!
+    webhookDeliveries(webhookId: ID, status: WebhookDeliveryStatus, limit: Int = 50): [WebhookDelivery!]!
   }
 
   type Mutation {
+    login(email: String!, password: String!): AuthPayload!
+    logout: Boolean!
+    changePassword(currentPassword: String!, newPassword: String!): Boolean!
+    updateOrganization(input: OrganizationInput!): Organization!
+    createUser(input: CreateUserInput!): User!
+    updateUser(id: ID!, input: UpdateUserInput!): User!
+    createApiKey(name: String!, expiresAt: String): CreatedApiKey!
+    revokeApiKey(id: ID!): Boolean!
     uploadReceipt(imageUrl: String!): Receipt!
     updateReceipt(id: ID!, input: UpdateReceiptInput!, items: [UpdateItemInput!]): Receipt!
+    # Recorded as reviewed by the calling user
+    verifyReceipt(id: ID!): Receipt!
+    rejectReceipt(id: ID!, reason: String): Receipt!
     deleteReceipt(id: ID!): Boolean!
     deleteItem(id: ID!): Boolean!
+    setItemCategory(itemId: ID!, categoryId: ID): Item! # Null categoryId marks the item uncategorized
+    # Reviewed and hand-edited receipts are only reprocessed with force
+    retryBatch(id: ID!, failedOnly: Boolean = true, force: Boolean = false): Batch!
+    mergeReceipts(keepId: ID!, mergeIds: [ID!]!): Receipt!
+    dismissDuplicate(id: ID!): Receipt!
+    createMerchant(input: MerchantInput!): Merchant!
+    updateMerchant(id: ID!, input: MerchantInput!): Merchant!
+    deleteMerchant(id: ID!): Boolean!
+    mergeMerchants(keepId: ID!, mergeIds: [ID!]!): Merchant!
+    createCategory(input: CategoryInput!): Category!
+    updateCategory(id: ID!, input: CategoryInput!): Category!
+    deleteCategory(id: ID!): Boolean!
+    createCategoryRule(input: CategoryRuleInput!): CategoryRule!
+    updateCategoryRule(id: ID!, input: CategoryRuleInput!): CategoryRule!
+    deleteCategoryRule(id: ID!): Boolean!
+    # Applies the current rules and classifier to items not categorized by a user; with
+    # force, also to those categorized before. Returns the number of items changed.
+    recategorizeItems(force: Boolean = false): Int!
+    createReceiptTemplate(input: ReceiptTemplateInput!): ReceiptTemplate!
+    updateReceiptTemplate(id: ID!, input: ReceiptTemplateInput!): ReceiptTemplate!
+    deleteReceiptTemplate(id: ID!): Boolean!
+    reparseReceipt(id: ID!, force: Boolean = false): Receipt!
+    reparseReceipts(filter: ReparseFilter, force: Boolean = false): ReparseJob!
+    # Writes the matching receipts to a file in the background; poll exportJob for it
+    exportReceipts(
+      filter: ReceiptFilter
+      sort: [ReceiptSort!]
+      format: ExportFormat = CSV
+      layout: ExportLayout = RECEIPTS
+    ): ExportJob!
+    createWebhook(input: WebhookInput!): Webhook!
+    updateWebhook(id: ID!, input: WebhookInput!): Webhook!
+    deleteWebhook(id: ID!): Boolean!
+    rotateWebhookSecret(id: ID!): Webhook!
+    testWebhook(id: ID!): WebhookDelivery!
+    redeliverWebhook(deliveryId: ID!): WebhookDelivery!
   }
-`;
 
+  type Subscription {
+    jobProgress(jobId: String!): JobStatus
+    receiptUpdated(id: ID!): Receipt
+    receiptsChanged: ReceiptsChange!
+  }
+`;
@@ -0,0 +1,80 @@
+import { PubSub } from 'graphql-subscriptions';
+import {
+  RECEIPTS_CHANGED_EVENT,
+  ReceiptChange,
+  createQueueEvents,
+  parseReceiptsChangedEvent,
+} from '../queue/events';
+
+// In-process pub/sub for GraphQL subscriptions. Changes made by the workers reach it
+// through BullMQ queue events, changes made by the API are published directly.
+export const pubsub = new PubSub();
+
+export const JOB_PROGRESS = 'JOB_PROGRESS';
+export const RECEIPT_UPDATED = 'RECEIPT_UPDATED';
+export const RECEIPTS_CHANGED = 'RECEIPTS_CHANGED';
+
+export interface ReceiptsChangedPayload {
+  organizationId: string;
+  receiptIds: string[];
+  change: ReceiptChange;
+}
+
+// Receipts of one organization were changed
+export function publishReceiptChange(organizationId: string, receiptIds: string | string[], change: ReceiptChange = 'UPDATED') {
+  const ids = (Array.isArray(receiptIds) ? receiptIds : [receiptIds]).filter(Boolean);
+  if (ids.length === 0) {
+    return;
+  }
+
+  for (const receiptId of ids) {
+    pubsub.publish(RECEIPT_UPDATED, { organizationId, receiptId, change });
+  }
+  pubsub.publish(RECEIPTS_CHANGED, { organizationId, receiptIds: ids, change } as ReceiptsChangedPayload);
+}
+
+// Yield one payload right away, then everything from the iterator. Subscribers get the
+// current state instead of waiting for the next event, which may never come for a job that
+// finished while they were connecting.
+export async function* withInitialPayload<T>(initial: T, iterator: AsyncIterator<T>): AsyncGenerator<T> {
+  try {
+    yield initial;
+    while (true) {
+      const { value, done } = await iterator.next();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+// Forward OCR job progress and receipt changes from the workers to subscribers.
+// Returns a function that stops listening.
+export function listenToQueueEvents(): () => Promise<void> {
+  const ocrEvents = createQueueEvents('ocr-processing');
+  const reparseEvents = createQueueEvents('receipt-reparse');
+
+  const publishJob = ({ jobId }: { jobId: string }) => {
+    pubsub.publish(JOB_PROGRESS, { jobId });
+  };
+  ocrEvents.on('active', publishJob);
+  ocrEvents.on('progress', publishJob);
+  ocrEvents.on('completed', publishJob);
+  ocrEvents.on('failed', publishJob);
+
+  for (const events of [ocrEvents, reparseEvents]) {
+    events.on(RECEIPTS_CHANGED_EVENT as any, (args: any) => {
+      const { organizationId, receiptIds, change } = parseReceiptsChangedEvent(args);
+      publishReceiptChange(organizationId, receiptIds, change);
+    });
+    events.on('error', (error: any) => {
+      console.error('[Subscriptions] Queue events error:', error);
+    });
+  }
+
+  return async () => {
+    await ocrEvents.close();
+    await reparseEvents.close();
+  };
+}
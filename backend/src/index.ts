@@ -6,15 +6,53 @@ import path from 'path';
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 import express from 'express';
+import http from 'http';
 import { ApolloServer } from '@apollo/server';
 import { expressMiddleware } from '@apollo/server/express4';
+import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
 import cors from 'cors';
 import { typeDefs } from './graphql/schema';
 import { resolvers } from './graphql/resolvers';
+import { listenToQueueEvents, publishReceiptChange } from './graphql/subscriptions';
 import { PrismaClient } from '@prisma/client';
 import fs from 'fs';
-import { upload } from './utils/fileUpload';
+import {
+  upload,
+  batchUpload,
+  deleteUploadedFile,
+  isOrganizationUpload,
+  uploadedFilePath,
+  uploadedFileUrl,
+  MAX_BATCH_FILES,
+} from './utils/fileUpload';
 import { addOCRJob, closeQueue } from './queue/ocr.queue';
+import { ValidationService } from './services/validation.service';
+import { parsePreprocessOptions } from './services/preprocess.service';
+import { parsePdfMode } from './services/pdf.service';
+import { parseOcrEngineName } from './services/engines/ocr-engine';
+import { BatchService, BatchUploadFile } from './services/batch.service';
+import { DuplicateService } from './services/duplicate.service';
+import { MerchantService } from './services/merchant.service';
+import { WebhookService } from './services/webhook.service';
+import { OrganizationService } from './services/organization.service';
+import { ReceiptQueryError, ReceiptService, parseReceiptListQuery } from './services/receipt.service';
+import { SearchQueryError, SearchService } from './services/search.service';
+import { CategoryService, carryOverCategory } from './services/category.service';
+import {
+  EXPORT_FORMATS,
+  EXPORT_SYNC_MAX_ROWS,
+  ExportQueryError,
+  ExportService,
+  exportFileName,
+  exportFilePath,
+  parseExportQuery,
+} from './services/export.service';
+import { AuthError, AuthService, canAccessOwned, receiptScope } from './services/auth.service';
+import { authenticate, clearAuthCookie, getRequestToken, setAuthCookie } from './utils/auth';
+import { PaymentMethod } from './services/ocr.service';
 
 // Verify DATABASE_URL is set
 if (!process.env.DATABASE_URL) {
@@ -24,7 +62,26 @@ if (!process.env.DATABASE_URL) {
   process.exit(1);
 }
 
+// Verify JWT_SECRET is set, as login tokens are signed with it
+if (!process.env.JWT_SECRET) {
+  console.error('❌ ERROR: JWT_SECRET environment variable is not set!');
+  console.error('Please add a long random value to the .env file in the backend directory, e.g.:');
+  console.error('JWT_SECRET="$(openssl rand -hex 32)"');
+  process.exit(1);
+}
+
 const prisma = new PrismaClient();
+const authService = new AuthService(prisma);
+const validationService = new ValidationService(prisma);
+const batchService = new BatchService(prisma);
+const duplicateService = new DuplicateService(prisma);
+const merchantService = new MerchantService(prisma);
+const webhookService = new WebhookService(prisma);
+const organizationService = new OrganizationService(prisma);
+const receiptService = new ReceiptService(prisma);
+const searchService = new SearchService(prisma);
+const categoryService = new CategoryService(prisma);
+const exportService = new ExportService(prisma);
 
 const app = express();
 const PORT = process.env.PORT || 4000;
@@ -42,15 +99,58 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
 }));
 
 // Body parser middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Serve uploaded images
-app.use('/uploads', express.static(uploadDir, {
+// REST endpoint to log in: returns a JWT for API clients and sets the session cookie
+// used by the web interface
+app.post('/api/auth/login', async (req: express.Request, res: express.Response) => {
+  try {
+    const { token, user } = await authService.login(req.body?.email, req.body?.password);
+    setAuthCookie(res, token);
+    res.json({ token, user: { id: user.id, email: user.email, name: user.name, role: user.role } });
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Login error:', error);
+    res.status(500).json({ error: error.message || 'Login failed' });
+  }
+});
+
+app.post('/api/auth/logout', (req: express.Request, res: express.Response) => {
+  clearAuthCookie(res);
+  res.json({ success: true });
+});
+
+// Everything below needs a logged-in user or an API key
+app.use('/api', authenticate(authService));
+
+app.get('/api/auth/me', (req: express.Request, res: express.Response) => {
+  res.json(req.user);
+});
+
+// REST endpoint to get the caller's organization and its settings
+app.get('/api/organization', async (req: express.Request, res: express.Response) => {
+  try {
+    res.json(await organizationService.getOrganization(req.user!.organizationId));
+  } catch (error: any) {
+    console.error('Get organization error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get organization' });
+  }
+});
+
+// Serve uploaded images, each organization only its own
+app.use('/uploads', authenticate(authService), (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!isOrganizationUpload(req.user!.organizationId, req.path)) {
+    return res.status(404).json({ error: 'File not found' });
+  }
+  next();
+}, express.static(uploadDir, {
   setHeaders: (res, path) => {
     // Set proper cache headers for images
     if (path.endsWith('.jpg') || path.endsWith('.jpeg') || path.endsWith('.png') || 
@@ -79,35 +179,61 @@ app.post('/api/upload', upload.single('file'), async (req: express.Request, res:
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    // Use consistent path that works in both backend and worker containers
-    const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
-    const filePath = path.join(uploadDir, req.file.filename);
-    const imageUrl = `/uploads/${req.file.filename}`;
+    // Use consistent path that works in both backend and worker containers. Files are stored
+    // in the uploader's organization directory.
+    const { organizationId } = req.user!;
+    const imageUrl = uploadedFileUrl(organizationId, req.file.filename);
+    const filePath = uploadedFilePath(imageUrl);
 
     // Verify file was saved correctly
     if (!fs.existsSync(filePath)) {
       throw new Error(`File was not saved correctly: ${filePath}`);
     }
 
+    // Optional form fields:
+    // - preprocessing: "false" to skip it, or JSON such as {"threshold": false}
+    // - pdfMode: "document" (default) for one receipt per PDF, "pages" for one per page
+    // - engine: OCR engine for this upload, "tesseract" or "http" (defaults to OCR_ENGINE)
+    let preprocessing;
+    let pdfMode;
+    let engine;
+    try {
+      preprocessing = parsePreprocessOptions(req.body?.preprocessing);
+      pdfMode = parsePdfMode(req.body?.pdfMode);
+      engine = parseOcrEngineName(req.body?.engine);
+    } catch (error: any) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ error: error.message });
+    }
+
     // Create a placeholder receipt in the database immediately
     const placeholderReceipt = await prisma.receipt.create({
       data: {
+        organizationId,
         storeName: null,
         purchaseDate: null,
         totalAmount: null,
         imageUrl,
+        ownerId: req.user!.id,
         items: {
           create: [], // Empty items initially
         },
       },
     });
 
+    publishReceiptChange(req.user!.organizationId, placeholderReceipt.id, 'CREATED');
+
     // Add OCR job to queue for background processing
     const job = await addOCRJob({
       filePath,
       filename: req.file.filename,
       imageUrl,
+      organizationId,
       receiptId: placeholderReceipt.id,
+      ownerId: req.user!.id,
+      preprocessing,
+      pdfMode,
+      engine,
     });
 
     console.log(`[API] Added OCR job ${job.id} to queue for receipt ${placeholderReceipt.id}`);
@@ -145,7 +271,7 @@ app.post('/api/upload', upload.single('file'), async (req: express.Request, res:
 app.get('/api/job/:jobId', async (req: express.Request, res: express.Response) => {
   try {
     const { getJobStatus } = await import('./queue/ocr.queue');
-    const status = await getJobStatus(req.params.jobId);
+    const status = await getJobStatus(req.params.jobId, req.user!);
     
     if (!status) {
       return res.status(404).json({ error: 'Job not found' });
@@ -160,12 +286,240 @@ app.get('/api/job/:jobId', async (req: express.Request, res: express.Response) =
   }
 });
 
+// REST endpoint for batch upload: many receipt files, or ZIP archives of them, in the "files" field.
+// Accepts the same preprocessing, pdfMode and engine fields as /api/upload, applied to every file.
+// @ts-ignore - Multer type conflict with Express types
+app.post('/api/upload/batch', batchUpload.array('files', MAX_BATCH_FILES), async (req: express.Request, res: express.Response) => {
+  const uploaded = (req.files as Express.Multer.File[] | undefined) || [];
+  let files: BatchUploadFile[] = [];
+
+  try {
+    if (uploaded.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded' });
+    }
+
+    let preprocessing;
+    let pdfMode;
+    let engine;
+    try {
+      preprocessing = parsePreprocessOptions(req.body?.preprocessing);
+      pdfMode = parsePdfMode(req.body?.pdfMode);
+      engine = parseOcrEngineName(req.body?.engine);
+      files = batchService.expandUploads(req.user!.organizationId, uploaded, files);
+    } catch (error: any) {
+      batchService.discardUploads(req.user!.organizationId, [...uploaded, ...files]);
+      return res.status(400).json({ error: error.message });
+    }
+
+    const batch = await batchService.createBatch(
+      req.user!.organizationId,
+      files,
+      { preprocessing, pdfMode, engine },
+      req.user!.id
+    );
+    publishReceiptChange(req.user!.organizationId, batch!.files.map((file) => file.receiptId!), 'CREATED');
+
+    console.log(`[API] Added batch ${batch!.id} with ${batch!.total} OCR jobs to queue`);
+
+    res.json({
+      batchId: batch!.id,
+      message: `${batch!.total} files uploaded successfully. OCR processing started in background.`,
+      status: 'processing',
+      batch,
+    });
+  } catch (error: any) {
+    console.error('Batch upload error:', error);
+    res.status(500).json({
+      error: error.message || 'Batch upload failed',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// REST endpoint to check batch status
+app.get('/api/batch/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const status = await batchService.getBatchStatus(req.params.id);
+
+    if (!status || !canAccessOwned(req.user!, status)) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    res.json(status);
+  } catch (error: any) {
+    console.error('Batch status error:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to get batch status'
+    });
+  }
+});
+
+// REST endpoint to retry a batch: failed files only, or every finished file with ?failedOnly=false.
+// Reviewed and hand-edited receipts are only reprocessed with ?force=true.
+app.post('/api/batch/:id/retry', async (req: express.Request, res: express.Response) => {
+  try {
+    const current = await batchService.getBatchStatus(req.params.id);
+    if (!current || !canAccessOwned(req.user!, current)) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const status = await batchService.retryBatch(
+      req.params.id,
+      req.query.failedOnly !== 'false',
+      req.query.force === 'true'
+    );
+
+    if (!status) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    // Retried receipts are back to PROCESSING
+    publishReceiptChange(req.user!.organizationId, status.files.map((file) => file.receiptId!));
+
+    res.json(status);
+  } catch (error: any) {
+    console.error('Batch retry error:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to retry batch'
+    });
+  }
+});
+
+// REST endpoint to list receipts a page at a time, with the receiptsConnection query's
+// filter, sort and paging options as query parameters
+app.get('/api/receipts', async (req: express.Request, res: express.Response) => {
+  try {
+    const { filter, sort, page } = parseReceiptListQuery(req.query);
+    const { edges, pageInfo, totalCount } = await receiptService.findReceiptPage(receiptScope(req.user!), filter, sort, page);
+
+    res.json({
+      receipts: edges.map((edge) => edge.node),
+      pageInfo,
+      totalCount,
+    });
+  } catch (error: any) {
+    if (error instanceof ReceiptQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('List receipts error:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to list receipts'
+    });
+  }
+});
+
+// REST endpoint for full-text search: ?q=<query>&limit=20&offset=0
+app.get('/api/receipts/search', async (req: express.Request, res: express.Response) => {
+  try {
+    const number = (value: unknown) => (typeof value === 'string' && value !== '' ? Number(value) : undefined);
+    const results = await searchService.searchReceipts(req.user!, String(req.query.q ?? ''), {
+      limit: number(req.query.limit),
+      offset: number(req.query.offset),
+    });
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof SearchQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Search receipts error:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to search receipts'
+    });
+  }
+});
+
+// REST endpoint to export receipts (layout=receipts) or their items (layout=items) as
+// format=csv, xlsx or ndjson, with the /api/receipts filter and sort parameters. Small exports
+// are downloaded right away; larger ones, or any with async=true, are written by a background
+// job and answered with 202 and the job to poll.
+app.get('/api/receipts/export', async (req: express.Request, res: express.Response) => {
+  try {
+    const options = parseExportQuery(req.query);
+    const scope = receiptScope(req.user!);
+
+    const rows = await exportService.countRows(scope, options);
+    if (req.query.async !== 'true' && rows <= EXPORT_SYNC_MAX_ROWS) {
+      res.setHeader('Content-Type', EXPORT_FORMATS[options.format].contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(options)}"`);
+      await exportService.writeExport(scope, options, res);
+      return;
+    }
+
+    const { addExportJob, getExportJobStatus } = await import('./queue/export.queue');
+    const job = await addExportJob({ user: req.user!, options });
+    console.log(`[API] Added export job ${job.id} for ${rows} rows to queue`);
+
+    res.status(202).json({
+      jobId: job.id,
+      message: `Export of ${rows} rows started in background.`,
+      status: 'processing',
+      job: await getExportJobStatus(job.id!, req.user!.id),
+    });
+  } catch (error: any) {
+    if (error instanceof ReceiptQueryError || error instanceof ExportQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Export receipts error:', error);
+    // Part of the file may have been sent already
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.status(500).json({
+      error: error.message || 'Failed to export receipts'
+    });
+  }
+});
+
+// REST endpoint to check a background export
+app.get('/api/exports/:jobId', async (req: express.Request, res: express.Response) => {
+  try {
+    const { getExportJobStatus } = await import('./queue/export.queue');
+    const status = await getExportJobStatus(req.params.jobId, req.user!.id);
+
+    if (!status) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    res.json(status);
+  } catch (error: any) {
+    console.error('Export status error:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to get export status'
+    });
+  }
+});
+
+// REST endpoint to download the file of a finished background export
+app.get('/api/exports/:jobId/download', async (req: express.Request, res: express.Response) => {
+  try {
+    const { getExportJobStatus } = await import('./queue/export.queue');
+    const status = await getExportJobStatus(req.params.jobId, req.user!.id);
+    const file = status?.result && exportFilePath(req.params.jobId, status.result.format);
+
+    if (!status?.result || !file || !fs.existsSync(file)) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    res.download(file, status.result.fileName);
+  } catch (error: any) {
+    console.error('Export download error:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to download export'
+    });
+  }
+});
+
 // REST endpoint to get receipt details
 app.get('/api/receipt/:id', async (req: express.Request, res: express.Response) => {
   try {
-    const receipt = await prisma.receipt.findUnique({
-      where: { id: req.params.id },
-      include: { items: true },
+    const receipt = await prisma.receipt.findFirst({
+      where: { id: req.params.id, ...receiptScope(req.user!) },
+      include: {
+        items: true,
+        summary: {
+          include: { lines: { orderBy: { position: 'asc' } } },
+        },
+      },
     });
 
     if (!receipt) {
@@ -181,19 +535,22 @@ app.get('/api/receipt/:id', async (req: express.Request, res: express.Response)
   }
 });
 
+const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'MOBILE_MONEY', 'BANK_TRANSFER', 'CHEQUE', 'CREDIT', 'OTHER'];
+
 // REST endpoint to update receipt
 app.put('/api/receipt/:id', express.json(), async (req: express.Request, res: express.Response) => {
   try {
-    const { storeName, purchaseDate, totalAmount, items } = req.body;
+    const { storeName, purchaseDate, totalAmount, tin, fsNumber, mrc, referenceNumber, cashier, paymentMethod, merchantId, items } = req.body;
 
-    // Validate receipt exists
-    const existingReceipt = await prisma.receipt.findUnique({
-      where: { id: req.params.id },
+    // Validate receipt exists and belongs to the caller
+    const existingReceipt = await prisma.receipt.findFirst({
+      where: { id: req.params.id, ...receiptScope(req.user!) },
     });
 
     if (!existingReceipt) {
       return res.status(404).json({ error: 'Receipt not found' });
     }
+    const previousItems = items ? await prisma.item.findMany({ where: { receiptId: existingReceipt.id } }) : [];
 
     // Prepare update data
     const updateData: any = {};
@@ -202,8 +559,32 @@ app.put('/api/receipt/:id', express.json(), async (req: express.Request, res: ex
     if (purchaseDate !== undefined) {
       const date = purchaseDate ? new Date(purchaseDate) : null;
       updateData.purchaseDate = date && !isNaN(date.getTime()) ? date : null;
+      // The printed date no longer backs the stored one
+      updateData.purchaseDateRaw = null;
+      updateData.purchaseDateCalendar = null;
     }
     if (totalAmount !== undefined) updateData.totalAmount = totalAmount ? parseFloat(totalAmount) : null;
+    if (tin !== undefined) updateData.tin = tin || null;
+    if (fsNumber !== undefined) updateData.fsNumber = fsNumber || null;
+    if (mrc !== undefined) updateData.mrc = mrc || null;
+    if (referenceNumber !== undefined) updateData.referenceNumber = referenceNumber || null;
+    if (cashier !== undefined) updateData.cashier = cashier || null;
+    if (paymentMethod !== undefined) {
+      if (paymentMethod && !PAYMENT_METHODS.includes(paymentMethod)) {
+        return res.status(400).json({ error: `Invalid paymentMethod: expected one of ${PAYMENT_METHODS.join(', ')}` });
+      }
+      updateData.paymentMethod = paymentMethod || null;
+    }
+    if (merchantId !== undefined) {
+      if (merchantId && !(await merchantService.getMerchant(req.user!.organizationId, merchantId))) {
+        return res.status(400).json({ error: 'Merchant not found' });
+      }
+      updateData.merchantId = merchantId || null;
+    }
+
+    // Any manual edit means the receipt has been touched by a human
+    updateData.humanEdited = true;
+    updateData.editedAt = new Date();
 
     // Update receipt
     const receipt = await prisma.receipt.update({
@@ -214,9 +595,13 @@ app.put('/api/receipt/:id', express.json(), async (req: express.Request, res: ex
           items: {
             deleteMany: {},
             create: items.map((item: any) => ({
+              organizationId: existingReceipt.organizationId,
               name: item.name,
-              quantity: item.quantity ? parseInt(item.quantity) : null,
+              quantity: item.quantity ? parseFloat(item.quantity) : null,
+              unit: item.unit || null,
               price: item.price ? parseFloat(item.price) : null,
+              amount: item.amount !== undefined && item.amount !== null && item.amount !== '' ? parseFloat(item.amount) : null,
+              ...carryOverCategory(previousItems, item.id),
             })),
           },
         }),
@@ -226,7 +611,26 @@ app.put('/api/receipt/:id', express.json(), async (req: express.Request, res: ex
       },
     });
 
-    res.json(receipt);
+    // Re-check the arithmetic and duplicates after the manual edit
+    const validationIssues = await validationService.validateReceipt(receipt.id);
+    const duplicate = await duplicateService.checkReceipt(receipt.id);
+
+    // Items kept their categories; new ones get one
+    if (items) {
+      await categoryService.categorizeReceipt(receipt.id);
+      receipt.items = await prisma.item.findMany({ where: { receiptId: receipt.id } });
+    }
+
+    // A corrected TIN or store name may belong to another merchant, unless one was picked by hand
+    let matchedMerchantId = receipt.merchantId;
+    if (merchantId === undefined && (tin !== undefined || storeName !== undefined)) {
+      matchedMerchantId = (await merchantService.matchReceipt(receipt.id))?.id ?? null;
+    }
+
+    publishReceiptChange(req.user!.organizationId, receipt.id);
+    await webhookService.emitReceiptEvent('receipt.updated', receipt.id);
+
+    res.json({ ...receipt, ...duplicate, merchantId: matchedMerchantId, validationIssues });
   } catch (error: any) {
     console.error('Update receipt error:', error);
     res.status(500).json({ 
@@ -238,9 +642,9 @@ app.put('/api/receipt/:id', express.json(), async (req: express.Request, res: ex
 // REST endpoint to delete receipt
 app.delete('/api/receipt/:id', async (req: express.Request, res: express.Response) => {
   try {
-    // Check if receipt exists
-    const receipt = await prisma.receipt.findUnique({
-      where: { id: req.params.id },
+    // Check if receipt exists and belongs to the caller
+    const receipt = await prisma.receipt.findFirst({
+      where: { id: req.params.id, ...receiptScope(req.user!) },
       include: { items: true },
     });
 
@@ -252,14 +656,15 @@ app.delete('/api/receipt/:id', async (req: express.Request, res: express.Respons
     await prisma.receipt.delete({
       where: { id: req.params.id },
     });
+    publishReceiptChange(req.user!.organizationId, req.params.id, 'DELETED');
+    await webhookService.emitReceiptEvent('receipt.deleted', receipt.id, receipt);
 
-    // Optionally delete the image file
-    if (receipt.imageUrl) {
+    // Optionally delete the image file and its derived images, unless other receipts
+    // still use it (one per page of a split PDF)
+    const sharedWith = receipt.imageUrl ? await prisma.receipt.count({ where: { imageUrl: receipt.imageUrl } }) : 0;
+    if (receipt.imageUrl && sharedWith === 0) {
       try {
-        const imagePath = path.join(uploadDir, receipt.imageUrl.replace('/uploads/', ''));
-        if (fs.existsSync(imagePath)) {
-          fs.unlinkSync(imagePath);
-        }
+        deleteUploadedFile(uploadedFilePath(receipt.imageUrl));
       } catch (fileError) {
         console.error('Error deleting image file:', fileError);
         // Don't fail the deletion if file deletion fails
@@ -275,12 +680,57 @@ app.delete('/api/receipt/:id', async (req: express.Request, res: express.Respons
   }
 });
 
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+function connectionParamsToken(params: Record<string, unknown> | undefined) {
+  const authorization = params?.authorization ?? params?.Authorization;
+  return typeof authorization === 'string' ? authorization.replace(/^Bearer\s+/, '') : undefined;
+}
+const httpServer = http.createServer(app);
+
+// GraphQL subscriptions over WebSocket (graphql-ws protocol), on the same path as queries
+const wsServer = new WebSocketServer({
+  server: httpServer,
+  path: '/graphql',
+});
+const wsServerCleanup = useServer(
+  {
+    schema,
+    // The browser sends the session cookie with the handshake; other clients pass
+    // { authorization: "Bearer <JWT or API key>" } as connection params
+    onConnect: async (ctx) => {
+      const token = getRequestToken(ctx.extra.request.headers) ?? connectionParamsToken(ctx.connectionParams);
+      return (await authService.authenticateToken(token)) !== null;
+    },
+    context: async (ctx) => {
+      const token = getRequestToken(ctx.extra.request.headers) ?? connectionParamsToken(ctx.connectionParams);
+      return { prisma, user: await authService.authenticateToken(token) };
+    },
+  },
+  wsServer
+);
+
+// Worker job progress and receipt changes, forwarded to subscribers
+const stopQueueEvents = listenToQueueEvents();
+
 const server = new ApolloServer({
-  typeDefs,
-  resolvers,
+  schema,
+  plugins: [
+    ApolloServerPluginDrainHttpServer({ httpServer }),
+    {
+      async serverWillStart() {
+        return {
+          async drainServer() {
+            await wsServerCleanup.dispose();
+          },
+        };
+      },
+    },
+  ],
 });
 
 async function startServer() {
+  await authService.ensureAdminUser(process.env.ADMIN_EMAIL, process.env.ADMIN_PASSWORD);
   await server.start();
 
   // GraphQL endpoint with proper CORS handling
@@ -292,13 +742,20 @@ async function startServer() {
     }),
     express.json(),
     expressMiddleware(server, {
-      context: async ({ req }: { req: express.Request }) => ({ prisma, req }),
+      context: async ({ req, res }: { req: express.Request; res: express.Response }) => ({
+        prisma,
+        req,
+        res,
+        user: await authService.authenticateToken(getRequestToken(req.headers)),
+      }),
     })
   );
 
-  app.listen(PORT, () => {
+  httpServer.listen(PORT, () => {
     console.log(`🚀 Server ready at http://localhost:${PORT}/graphql`);
+    console.log(`🔔 Subscriptions ready at ws://localhost:${PORT}/graphql`);
     console.log(`📤 Upload endpoint at http://localhost:${PORT}/api/upload`);
+    console.log(`📦 Batch upload endpoint at http://localhost:${PORT}/api/upload/batch`);
   });
 }
 
@@ -320,8 +777,10 @@ async function gracefulShutdown() {
     }
   }
   
-  // Close queue connection
+  // Close queue connections
   try {
+    await server.stop();
+    await stopQueueEvents();
     await closeQueue();
   } catch (error) {
     console.error('Error closing queue:', error);
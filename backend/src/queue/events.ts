@@ -0,0 +1,63 @@
+import { QueueEvents, QueueEventsProducer } from 'bullmq';
+import Redis from 'ioredis';
+
+export type ReceiptChange = 'CREATED' | 'UPDATED' | 'DELETED';
+
+// Custom queue event the workers publish once receipts are written. BullMQ's own
+// completed/failed events can arrive before the receipt is saved (a failed receipt is only
+// marked in the worker's 'failed' handler), so receipt subscribers listen to this one.
+export const RECEIPTS_CHANGED_EVENT = 'receipts-changed';
+
+export interface ReceiptsChangedEvent {
+  organizationId: string; // Subscribers only hear of their own organization's receipts
+  receiptIds: string[];
+  change: ReceiptChange;
+}
+
+// QueueEvents reads the event stream with blocking commands, so each gets its own connection
+function createConnection() {
+  return new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+    maxRetriesPerRequest: null,
+  });
+}
+
+export function createQueueEvents(queueName: string) {
+  return new QueueEvents(queueName, { connection: createConnection() });
+}
+
+export function createEventsProducer(queueName: string) {
+  return new QueueEventsProducer(queueName, { connection: createConnection() });
+}
+
+export async function publishReceiptsChanged(
+  producer: QueueEventsProducer,
+  organizationId: string,
+  receiptIds: string[],
+  change: ReceiptChange
+) {
+  if (receiptIds.length === 0) {
+    return;
+  }
+
+  try {
+    // Event fields are stored as strings in the Redis stream
+    await producer.publishEvent({
+      eventName: RECEIPTS_CHANGED_EVENT,
+      organizationId,
+      receiptIds: receiptIds.join(','),
+      change,
+    });
+  } catch (error) {
+    // Subscribers miss an update; the receipt itself is saved
+    console.error('[Events] Error publishing receipt change:', error);
+  }
+}
+
+// Read a receipts-changed event back from the stream
+export function parseReceiptsChangedEvent(args: any): ReceiptsChangedEvent {
+  return {
+    organizationId: String(args.organizationId || ''),
+    receiptIds: String(args.receiptIds || '').split(',').filter((id) => id.length > 0),
+    change: args.change as ReceiptChange,
+  };
+}
@@ -0,0 +1,60 @@
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { AuthUser } from '../services/auth.service';
+import { EXPORT_TTL_HOURS, ExportFormat, ExportLayout, ExportOptions } from '../services/export.service';
+
+// Create Redis connection
+const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// Receipt exports too large to write during a request. Jobs are kept as long as their files.
+export const exportQueue = new Queue('receipt-export', {
+  connection,
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: {
+      age: EXPORT_TTL_HOURS * 3600,
+    },
+    removeOnFail: {
+      age: EXPORT_TTL_HOURS * 3600,
+    },
+  },
+});
+
+export interface ExportJobData {
+  user: AuthUser; // Requested by; the export covers the receipts they could see then
+  options: ExportOptions;
+}
+
+export interface ExportJobResult {
+  format: ExportFormat;
+  layout: ExportLayout;
+  rowCount: number;
+  fileName: string; // Offered when downloading
+}
+
+export async function addExportJob(data: ExportJobData) {
+  return exportQueue.add('export-receipts', data, {
+    jobId: `export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  });
+}
+
+// Exports are only visible to the user who requested them
+export async function getExportJobStatus(jobId: string, userId: string) {
+  const job = await exportQueue.getJob(jobId);
+  if (!job || job.data.user?.id !== userId) {
+    return null;
+  }
+
+  const state = await job.getState();
+  return {
+    id: job.id,
+    state,
+    progress: job.progress,
+    result: job.returnvalue as ExportJobResult | undefined,
+    failedReason: job.failedReason,
+    timestamp: job.timestamp,
+    downloadUrl: state === 'completed' ? `/api/exports/${job.id}/download` : null,
+  };
+}
@@ -1,5 +1,9 @@
 import { Queue } from 'bullmq';
 import Redis from 'ioredis';
+import { PreprocessOptions } from '../services/preprocess.service';
+import { PdfMode } from '../services/pdf.service';
+import { OcrEngineName } from '../services/engines/ocr-engine';
+import { AuthUser, hasRole } from '../services/auth.service';
 
 // Create Redis connection
 const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
@@ -29,17 +33,29 @@ export interface OCRJobData {
   filePath: string;
   filename: string;
   imageUrl: string;
+  organizationId: string; // Tenant of the upload; receipts, items and merchants are created in it
   receiptId?: string; // Optional: if receipt was created before processing
+  batchId?: string; // Batch upload the file belongs to
+  ownerId?: string; // Uploading user, owner of receipts created for extra PDF pages
+  preprocessing?: PreprocessOptions | false; // Per-job preprocessing steps, false to skip
+  pdfMode?: PdfMode; // For PDFs: one receipt for the document (default) or one per page
+  engine?: OcrEngineName; // OCR engine for this job, instead of the OCR_ENGINE default
 }
 
 export interface OCRJobResult {
   receiptId: string;
+  receiptIds?: string[]; // All receipts created, when a PDF was split into one per page
   storeName?: string;
   purchaseDate?: string; // ISO string format
   totalAmount?: number;
+  confidence?: number; // Lowest per-field extraction confidence
+  duplicateOfId?: string; // Set when the receipt looks like a re-upload of this one
   items: Array<{
     name: string;
     quantity?: number;
+    unit?: string;
+    price?: number; // Unit price
+    amount?: number; // Line amount
   }>;
 }
 
@@ -51,12 +67,19 @@ export async function addOCRJob(data: OCRJobData) {
   return job;
 }
 
-// Helper function to get job status
-export async function getJobStatus(jobId: string) {
+// Helper function to get job status. When user is given, jobs they could not see the receipt
+// of are reported as missing: those of other organizations, and for submitters, other users'.
+export async function getJobStatus(jobId: string, user?: AuthUser) {
   const job = await ocrQueue.getJob(jobId);
   if (!job) {
     return null;
   }
+  if (
+    user &&
+    (job.data.organizationId !== user.organizationId || (!hasRole(user, 'REVIEWER') && job.data.ownerId !== user.id))
+  ) {
+    return null;
+  }
 
   const state = await job.getState();
   const progress = job.progress;
@@ -0,0 +1,51 @@
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { ReparseFilter, ReparseJobResult } from '../services/reparse.service';
+
+// Create Redis connection
+const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// Bulk re-parsing of stored OCR output. A job covers many receipts and records its own
+// per-receipt failures, so it is not retried as a whole.
+export const reparseQueue = new Queue('receipt-reparse', {
+  connection,
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: {
+      age: 7 * 24 * 3600, // Keep completed jobs for a week, for their counts
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600,
+    },
+  },
+});
+
+export interface ReparseJobData {
+  filter?: ReparseFilter;
+  force?: boolean; // Also overwrite reviewed and hand-edited receipts
+}
+
+export async function addReparseJob(data: ReparseJobData) {
+  return reparseQueue.add('reparse-receipts', data, {
+    jobId: `reparse-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  });
+}
+
+// Jobs of other organizations are reported as missing when organizationId is given
+export async function getReparseJobStatus(jobId: string, organizationId?: string) {
+  const job = await reparseQueue.getJob(jobId);
+  if (!job || (organizationId && job.data.filter?.organizationId !== organizationId)) {
+    return null;
+  }
+
+  return {
+    id: job.id,
+    state: await job.getState(),
+    progress: job.progress,
+    result: job.returnvalue as ReparseJobResult | undefined,
+    failedReason: job.failedReason,
+    timestamp: job.timestamp,
+  };
+}
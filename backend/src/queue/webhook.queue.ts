@@ -0,0 +1,40 @@
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+
+// Create Redis connection
+const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// Attempts per delivery before it is marked FAILED. With the exponential backoff below a
+// receiver has about half an hour to come back.
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+
+// Outbound webhook deliveries, one job per event and webhook
+export const webhookQueue = new Queue('webhook-delivery', {
+  connection,
+  defaultJobOptions: {
+    attempts: WEBHOOK_MAX_ATTEMPTS,
+    backoff: {
+      type: 'exponential',
+      delay: 30000, // 30s, 1m, 2m, 4m, 8m
+    },
+    removeOnComplete: {
+      age: 24 * 3600, // The delivery log keeps the outcome
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600,
+    },
+  },
+});
+
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+export async function addWebhookJob(data: WebhookJobData) {
+  // A redelivery of the same delivery is a new job
+  return webhookQueue.add('deliver-webhook', data, {
+    jobId: `webhook-${data.deliveryId}-${Date.now()}`,
+  });
+}
@@ -0,0 +1,46 @@
+// Create a tenant with its first admin, who then adds the organization's other users:
+//   ORG_NAME="Acme Trading" ORG_SLUG=acme ORG_ADMIN_EMAIL=admin@acme.et ORG_ADMIN_PASSWORD=... \
+//     npm run org:create
+// Optional: ORG_OCR_LANGUAGES (e.g. amh+eng, the server's default when unset) and
+// ORG_CURRENCY (ETB when unset). Without arguments, lists the existing organizations.
+import { PrismaClient } from '@prisma/client';
+import { OrganizationService } from '../services/organization.service';
+import path from 'path';
+
+// Load environment variables
+import dotenv from 'dotenv';
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+const prisma = new PrismaClient();
+const organizationService = new OrganizationService(prisma);
+
+async function main() {
+  if (!process.env.ORG_SLUG) {
+    for (const organization of await organizationService.listOrganizations()) {
+      console.log(`${organization.slug}\t${organization.name}\t${organization.currency}\t${organization.ocrLanguages ?? '-'}`);
+    }
+    return;
+  }
+
+  const organization = await organizationService.createOrganization(
+    {
+      name: process.env.ORG_NAME,
+      slug: process.env.ORG_SLUG,
+      ocrLanguages: process.env.ORG_OCR_LANGUAGES || null,
+      currency: process.env.ORG_CURRENCY || undefined,
+    },
+    {
+      email: process.env.ORG_ADMIN_EMAIL,
+      password: process.env.ORG_ADMIN_PASSWORD,
+      name: 'Administrator',
+    }
+  );
+  console.log(`Created organization ${organization.slug} (${organization.id}) with admin ${process.env.ORG_ADMIN_EMAIL}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(`Error: ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
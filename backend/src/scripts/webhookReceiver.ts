@@ -0,0 +1,40 @@
+// Local webhook receiver for trying out webhooks during development:
+//   WEBHOOK_SECRET=whsec_... npm run webhook:receiver
+// Register http://localhost:4001/webhook (http://host.docker.internal:4001/webhook from
+// the Docker worker) and every delivery is printed with its signature check.
+// Set WEBHOOK_RECEIVER_STATUS=500 to see failed deliveries being retried.
+import express from 'express';
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '../utils/webhookSignature';
+
+const PORT = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '4001', 10);
+const SECRET = process.env.WEBHOOK_SECRET;
+const STATUS = parseInt(process.env.WEBHOOK_RECEIVER_STATUS || '200', 10);
+
+const app = express();
+
+// The signature covers the raw body, so it must not be parsed first
+app.post('/webhook', express.text({ type: '*/*', limit: '5mb' }), (req: express.Request, res: express.Response) => {
+  const body = typeof req.body === 'string' ? req.body : '';
+  const signature = req.header(WEBHOOK_SIGNATURE_HEADER);
+  const verified = SECRET ? verifyWebhookSignature(SECRET, signature, body) : null;
+
+  console.log(
+    `[Receiver] ${req.header('X-Webhook-Event')} ${req.header('X-Webhook-Id')} signature: ${
+      verified === null ? 'not checked (WEBHOOK_SECRET not set)' : verified ? 'valid' : 'INVALID'
+    }`
+  );
+  try {
+    console.log(JSON.stringify(JSON.parse(body), null, 2));
+  } catch {
+    console.log(body);
+  }
+
+  if (verified === false) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+  res.status(STATUS).json({ received: true });
+});
+
+app.listen(PORT, () => {
+  console.log(`[Receiver] Listening on http://localhost:${PORT}/webhook, answering ${STATUS}`);
+});
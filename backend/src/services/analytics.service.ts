@@ -0,0 +1,173 @@
+import { Prisma, PrismaClient, ReceiptStatus } from '@prisma/client';
+import { AuthUser, receiptScopeSql } from './auth.service';
+import { ReceiptQueryError, parseFilterDate } from './receipt.service';
+
+export const DEFAULT_ANALYTICS_LIMIT = 20;
+export const MAX_ANALYTICS_LIMIT = 500;
+
+// Periods spend is grouped by, and the date_trunc units behind them. Weeks start on Monday.
+const SPEND_INTERVALS = { DAY: 'day', WEEK: 'week', MONTH: 'month' } as const;
+export type SpendInterval = keyof typeof SPEND_INTERVALS;
+
+export type TopItemsOrder = 'QUANTITY' | 'AMOUNT';
+
+// The date, merchant and category options of the receipts filter. Rejected receipts are not
+// spend, so they are left out unless asked for by status.
+export interface AnalyticsFilter {
+  startDate?: string | null;
+  endDate?: string | null;
+  merchantId?: string | null;
+  categoryId?: string | null; // The category or one of its subcategories
+  status?: ReceiptStatus | null;
+}
+
+function checkLimit(limit: number) {
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ANALYTICS_LIMIT) {
+    throw new ReceiptQueryError(`Limit must be between 1 and ${MAX_ANALYTICS_LIMIT}`);
+  }
+}
+
+// Items aliased "i" in the category or one of its subcategories
+function itemCategorySql(categoryId: string): Prisma.Sql {
+  return Prisma.sql`(i."categoryId" = ${categoryId}
+    OR i."categoryId" IN (SELECT c."id" FROM "Category" c WHERE c."parentId" = ${categoryId}))`;
+}
+
+// Conditions on receipts aliased "r": the caller's scope and the filter. A category keeps
+// receipts with an item in it, or with itemLevel, only the items aliased "i" in it.
+function filterSql(user: AuthUser, filter?: AnalyticsFilter | null, itemLevel = false): Prisma.Sql {
+  const conditions = [receiptScopeSql(user, 'r')];
+
+  if (filter?.startDate) {
+    conditions.push(Prisma.sql`r."purchaseDate" >= ${parseFilterDate(filter.startDate, 'start date')}`);
+  }
+  if (filter?.endDate) {
+    conditions.push(Prisma.sql`r."purchaseDate" <= ${parseFilterDate(filter.endDate, 'end date')}`);
+  }
+  if (filter?.merchantId) {
+    conditions.push(Prisma.sql`r."merchantId" = ${filter.merchantId}`);
+  }
+  if (filter?.categoryId) {
+    conditions.push(
+      itemLevel
+        ? itemCategorySql(filter.categoryId)
+        : Prisma.sql`EXISTS (SELECT 1 FROM "Item" i WHERE i."receiptId" = r."id" AND ${itemCategorySql(filter.categoryId)})`
+    );
+  }
+  conditions.push(
+    filter?.status ? Prisma.sql`r."status" = CAST(${filter.status} AS "ReceiptStatus")` : Prisma.sql`r."status" <> 'REJECTED'`
+  );
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+// Spending figures aggregated by the database; only the aggregates are loaded
+export class AnalyticsService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Spend per merchant, highest first. Receipts not matched to a merchant are grouped by
+  // their store name.
+  async spendByMerchant(user: AuthUser, filter?: AnalyticsFilter | null, limit = DEFAULT_ANALYTICS_LIMIT) {
+    checkLimit(limit);
+    return this.prisma.$queryRaw<
+      { merchantId: string | null; name: string | null; receiptCount: number; totalAmount: number; averageAmount: number | null }[]
+    >(Prisma.sql`
+      SELECT
+        r."merchantId",
+        coalesce(m."name", r."storeName") AS "name",
+        count(*)::int AS "receiptCount",
+        coalesce(sum(r."totalAmount"), 0)::float8 AS "totalAmount",
+        avg(r."totalAmount")::float8 AS "averageAmount"
+      FROM "Receipt" r
+      LEFT JOIN "Merchant" m ON m."id" = r."merchantId"
+      WHERE ${filterSql(user, filter)}
+      GROUP BY r."merchantId", coalesce(m."name", r."storeName")
+      ORDER BY "totalAmount" DESC, "receiptCount" DESC
+      LIMIT ${limit}
+    `);
+  }
+
+  // Spend per day, week or month of purchase, oldest first. Periods without receipts are
+  // left out, as are receipts without a purchase date.
+  async spendByPeriod(user: AuthUser, interval: SpendInterval = 'MONTH', filter?: AnalyticsFilter | null) {
+    const unit = SPEND_INTERVALS[interval];
+    if (!unit) {
+      throw new ReceiptQueryError(`Unknown interval: ${interval}; expected one of ${Object.keys(SPEND_INTERVALS).join(', ')}`);
+    }
+
+    const rows = await this.prisma.$queryRaw<{ period: Date; receiptCount: number; totalAmount: number }[]>(Prisma.sql`
+      SELECT
+        date_trunc(${unit}, r."purchaseDate") AS "period",
+        count(*)::int AS "receiptCount",
+        coalesce(sum(r."totalAmount"), 0)::float8 AS "totalAmount"
+      FROM "Receipt" r
+      WHERE ${filterSql(user, filter)} AND r."purchaseDate" IS NOT NULL
+      GROUP BY 1
+      ORDER BY 1
+    `);
+
+    return rows.map((row) => ({ ...row, period: row.period.toISOString().slice(0, 10) }));
+  }
+
+  // Items bought most, by quantity or by amount. Names are compared ignoring case and
+  // surrounding spaces and shown as last spelled. Items without a quantity count once; those
+  // without an amount count at price times quantity.
+  async topItems(user: AuthUser, orderBy: TopItemsOrder = 'AMOUNT', filter?: AnalyticsFilter | null, limit = DEFAULT_ANALYTICS_LIMIT) {
+    checkLimit(limit);
+    const order = orderBy === 'QUANTITY' ? Prisma.sql`"quantity" DESC, "totalAmount" DESC` : Prisma.sql`"totalAmount" DESC, "quantity" DESC`;
+
+    return this.prisma.$queryRaw<{ name: string; quantity: number; totalAmount: number; receiptCount: number }[]>(Prisma.sql`
+      SELECT
+        (array_agg(i."name" ORDER BY i."createdAt" DESC))[1] AS "name",
+        sum(coalesce(i."quantity", 1))::float8 AS "quantity",
+        coalesce(sum(coalesce(i."amount", i."price" * coalesce(i."quantity", 1))), 0)::float8 AS "totalAmount",
+        count(DISTINCT i."receiptId")::int AS "receiptCount"
+      FROM "Item" i
+      JOIN "Receipt" r ON r."id" = i."receiptId"
+      WHERE ${filterSql(user, filter, true)}
+      GROUP BY lower(trim(i."name"))
+      ORDER BY ${order}
+      LIMIT ${limit}
+    `);
+  }
+
+  // Item spend per category, highest first. Subcategories are listed on their own; items
+  // without a category are grouped under a null category.
+  async spendByCategory(user: AuthUser, filter?: AnalyticsFilter | null) {
+    return this.prisma.$queryRaw<
+      { categoryId: string | null; name: string | null; parentId: string | null; itemCount: number; totalAmount: number }[]
+    >(Prisma.sql`
+      SELECT
+        i."categoryId",
+        c."name",
+        c."parentId",
+        count(*)::int AS "itemCount",
+        coalesce(sum(coalesce(i."amount", i."price" * coalesce(i."quantity", 1))), 0)::float8 AS "totalAmount"
+      FROM "Item" i
+      JOIN "Receipt" r ON r."id" = i."receiptId"
+      LEFT JOIN "Category" c ON c."id" = i."categoryId"
+      WHERE ${filterSql(user, filter, true)}
+      GROUP BY i."categoryId", c."name", c."parentId"
+      ORDER BY "totalAmount" DESC, "itemCount" DESC
+    `);
+  }
+
+  // Average receipt total and number of items per receipt
+  async basketStats(user: AuthUser, filter?: AnalyticsFilter | null) {
+    const [stats] = await this.prisma.$queryRaw<
+      { receiptCount: number; totalAmount: number; averageAmount: number | null; averageItemCount: number | null }[]
+    >(Prisma.sql`
+      SELECT
+        count(*)::int AS "receiptCount",
+        coalesce(sum(b."totalAmount"), 0)::float8 AS "totalAmount",
+        avg(b."totalAmount")::float8 AS "averageAmount",
+        avg(b."itemCount")::float8 AS "averageItemCount"
+      FROM (
+        SELECT r."totalAmount", (SELECT count(*) FROM "Item" i WHERE i."receiptId" = r."id") AS "itemCount"
+        FROM "Receipt" r
+        WHERE ${filterSql(user, filter)}
+      ) b
+    `);
+    return stats;
+  }
+}
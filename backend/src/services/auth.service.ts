@@ -0,0 +1,339 @@
+import { Prisma, PrismaClient, UserRole } from '@prisma/client';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const USER_ROLES: UserRole[] = ['SUBMITTER', 'REVIEWER', 'ADMIN'];
+
+// Each role may do everything the roles before it may
+const ROLE_RANK: Record<UserRole, number> = { SUBMITTER: 0, REVIEWER: 1, ADMIN: 2 };
+
+// API keys are told apart from JWTs by this prefix
+export const API_KEY_PREFIX = 'ocr_';
+
+// Lifetime of login tokens and the web interface's session cookie
+export const AUTH_TOKEN_TTL_HOURS = parseInt(process.env.AUTH_TOKEN_TTL_HOURS || '12', 10);
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// The caller of a request, as seen by routes and resolvers. Their organization is the
+// tenant every request is scoped to.
+export interface AuthUser {
+  id: string;
+  organizationId: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+}
+
+export interface UserInput {
+  organizationId?: string; // Required when creating a user
+  email?: string;
+  name?: string | null;
+  password?: string;
+  role?: UserRole;
+  active?: boolean;
+}
+
+// 401 when there are no valid credentials, 403 when the role is not enough
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export function hasRole(user: AuthUser, role: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+export function requireRole(user: AuthUser | null | undefined, role: UserRole = 'SUBMITTER'): AuthUser {
+  if (!user) {
+    throw new AuthError('Authentication required');
+  }
+  if (!hasRole(user, role)) {
+    throw new AuthError(`This requires the ${role.toLowerCase()} role`, 403);
+  }
+  return user;
+}
+
+// Receipts a user may see and change: submitters their own, reviewers and admins all of
+// their organization's
+export function receiptScope(user: AuthUser): Prisma.ReceiptWhereInput {
+  return hasRole(user, 'REVIEWER')
+    ? { organizationId: user.organizationId }
+    : { organizationId: user.organizationId, ownerId: user.id };
+}
+
+// The same as a condition on the columns of "Receipt", or of the alias it has in a raw SQL query
+export function receiptScopeSql(user: AuthUser, alias = 'Receipt'): Prisma.Sql {
+  const column = (name: string) => Prisma.raw(`"${alias}"."${name}"`);
+  return hasRole(user, 'REVIEWER')
+    ? Prisma.sql`${column('organizationId')} = ${user.organizationId}`
+    : Prisma.sql`${column('organizationId')} = ${user.organizationId} AND ${column('ownerId')} = ${user.id}`;
+}
+
+// Whether a user may see and change something owned by a user, like a batch
+export function canAccessOwned(user: AuthUser, owned: { organizationId: string; ownerId: string | null }): boolean {
+  return owned.organizationId === user.organizationId && (hasRole(user, 'REVIEWER') || owned.ownerId === user.id);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function hashApiKey(key: string) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function jwtSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is not set');
+  }
+  return secret;
+}
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function validateUserInput(input: UserInput) {
+  if (input.email != null && !/^[^\s@]+@[^\s@]+$/.test(input.email.trim())) {
+    throw new Error(`Invalid email address: ${input.email}`);
+  }
+  if (input.password != null && input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (input.role != null && !USER_ROLES.includes(input.role)) {
+    throw new Error(`Invalid role: expected one of ${USER_ROLES.join(', ')}`);
+  }
+}
+
+function toAuthUser(user: { id: string; organizationId: string; email: string; name: string | null; role: UserRole }): AuthUser {
+  return { id: user.id, organizationId: user.organizationId, email: user.email, name: user.name, role: user.role };
+}
+
+export class AuthService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Exchange email and password for a JWT. The error does not say which one was wrong.
+  async login(email: string, password: string) {
+    const user = await this.prisma.user.findUnique({ where: { email: normalizeEmail(email || '') } });
+    if (!user || !user.active || !(await verifyPassword(password || '', user.passwordHash))) {
+      throw new AuthError('Invalid email or password');
+    }
+
+    await this.prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+    console.log(`[Auth] ${user.email} logged in`);
+
+    return { token: this.signToken(user), user };
+  }
+
+  signToken(user: { id: string; role: UserRole }) {
+    return jwt.sign({ role: user.role }, jwtSecret(), {
+      subject: user.id,
+      expiresIn: `${AUTH_TOKEN_TTL_HOURS}h`,
+    });
+  }
+
+  // The user behind a JWT or API key, or null when it is missing, invalid, expired, revoked
+  // or belongs to a deactivated user. The role is read from the database, so role changes
+  // apply to tokens issued before them.
+  async authenticateToken(token: string | undefined | null): Promise<AuthUser | null> {
+    if (!token) {
+      return null;
+    }
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await this.prisma.apiKey.findUnique({
+        where: { keyHash: hashApiKey(token) },
+        include: { user: true },
+      });
+      if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date()) || !apiKey.user.active) {
+        return null;
+      }
+
+      await this.prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+      return toAuthUser(apiKey.user);
+    }
+
+    let userId: string | undefined;
+    try {
+      userId = (jwt.verify(token, jwtSecret()) as jwt.JwtPayload).sub;
+    } catch {
+      return null;
+    }
+
+    const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
+    return user && user.active ? toAuthUser(user) : null;
+  }
+
+  // Create the first admin from ADMIN_EMAIL/ADMIN_PASSWORD, so a fresh install can be logged
+  // into. They join the oldest organization, the default one created by the migrations.
+  // Does nothing once any user exists.
+  async ensureAdminUser(email?: string, password?: string) {
+    if (!email || !password || (await this.prisma.user.count()) > 0) {
+      return null;
+    }
+
+    const organization = await this.prisma.organization.findFirst({ orderBy: { createdAt: 'asc' } });
+    if (!organization) {
+      throw new Error('No organization to add the admin user to');
+    }
+
+    const admin = await this.createUser({
+      organizationId: organization.id,
+      email,
+      password,
+      role: 'ADMIN',
+      name: 'Administrator',
+    });
+    console.log(`[Auth] Created admin user ${admin.email}`);
+    return admin;
+  }
+
+  async listUsers(organizationId: string) {
+    return this.prisma.user.findMany({ where: { organizationId }, orderBy: { email: 'asc' } });
+  }
+
+  async getUser(id: string) {
+    return this.prisma.user.findUnique({ where: { id } });
+  }
+
+  // Emails are unique across organizations, as they are what users log in with
+  async createUser(input: UserInput) {
+    if (!input.organizationId) {
+      throw new Error('Organization is required');
+    }
+    if (!input.email?.trim() || !input.password) {
+      throw new Error('Email and password are required');
+    }
+    validateUserInput(input);
+
+    const email = normalizeEmail(input.email);
+    if (await this.prisma.user.findUnique({ where: { email } })) {
+      throw new Error(`A user with email ${email} already exists`);
+    }
+
+    return this.prisma.user.create({
+      data: {
+        organizationId: input.organizationId,
+        email,
+        name: input.name?.trim() || null,
+        passwordHash: await hashPassword(input.password),
+        role: input.role ?? 'SUBMITTER',
+        active: input.active ?? true,
+      },
+    });
+  }
+
+  // Users move between organizations only by being created again
+  async updateUser(organizationId: string, id: string, input: UserInput) {
+    const user = await this.prisma.user.findFirst({ where: { id, organizationId } });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    validateUserInput(input);
+
+    const data: Prisma.UserUpdateInput = {};
+
+    if (input.email !== undefined && input.email !== null) {
+      const email = normalizeEmail(input.email);
+      const existing = await this.prisma.user.findUnique({ where: { email } });
+      if (existing && existing.id !== id) {
+        throw new Error(`A user with email ${email} already exists`);
+      }
+      data.email = email;
+    }
+    if (input.name !== undefined) data.name = input.name?.trim() || null;
+    if (input.password !== undefined && input.password !== null) data.passwordHash = await hashPassword(input.password);
+    if (input.role !== undefined && input.role !== null) data.role = input.role;
+    if (input.active !== undefined && input.active !== null) data.active = input.active;
+
+    // Keep at least one way into user management
+    if ((input.role && input.role !== 'ADMIN') || input.active === false) {
+      const otherAdmins = await this.prisma.user.count({
+        where: { organizationId, role: 'ADMIN', active: true, id: { not: id } },
+      });
+      if (user.role === 'ADMIN' && otherAdmins === 0) {
+        throw new Error('Cannot demote or deactivate the last active admin');
+      }
+    }
+
+    return this.prisma.user.update({ where: { id }, data });
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !(await verifyPassword(currentPassword || '', user.passwordHash))) {
+      throw new AuthError('Current password is incorrect', 403);
+    }
+    validateUserInput({ password: newPassword });
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await hashPassword(newPassword) },
+    });
+    return true;
+  }
+
+  async listApiKeys(userId: string) {
+    return this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // The key itself is returned only here; the database keeps its hash
+  async createApiKey(userId: string, name: string, expiresAt?: string | null) {
+    if (!name?.trim()) {
+      throw new Error('API key name is required');
+    }
+    const expires = expiresAt ? new Date(expiresAt) : null;
+    if (expires && isNaN(expires.getTime())) {
+      throw new Error(`Invalid expiry date: ${expiresAt}`);
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: name.trim(),
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        keyHash: hashApiKey(key),
+        expiresAt: expires,
+      },
+    });
+
+    return { apiKey, key };
+  }
+
+  // Users revoke their own keys; admins any key of their organization
+  async revokeApiKey(user: AuthUser, id: string) {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { id }, include: { user: true } });
+    if (
+      !apiKey ||
+      (apiKey.userId !== user.id && !(hasRole(user, 'ADMIN') && apiKey.user.organizationId === user.organizationId))
+    ) {
+      throw new Error('API key not found');
+    }
+
+    await this.prisma.apiKey.update({ where: { id }, data: { revokedAt: apiKey.revokedAt ?? new Date() } });
+    return true;
+  }
+}
@@ -0,0 +1,434 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import AdmZip from 'adm-zip';
+import { PrismaClient } from '@prisma/client';
+import { addOCRJob, getJobStatus } from '../queue/ocr.queue';
+import {
+  MAX_BATCH_FILES,
+  deleteUploadedFile,
+  detectFileType,
+  organizationUploadDir,
+  uploadedFilePath,
+  uploadedFileUrl,
+  validateImage,
+} from '../utils/fileUpload';
+import { PreprocessOptions } from './preprocess.service';
+import { PdfMode } from './pdf.service';
+import { OcrEngineName } from './engines/ocr-engine';
+import { REVIEWED_STATUSES } from './reparse.service';
+
+// A file of a batch, once stored in the upload directory
+export interface BatchUploadFile {
+  originalName: string; // As uploaded, or the entry path inside a ZIP archive
+  filename: string; // Stored name in the upload directory
+}
+
+// Upload options applied to every file of a batch
+export interface BatchOptions {
+  preprocessing?: PreprocessOptions | false;
+  pdfMode?: PdfMode;
+  engine?: OcrEngineName;
+}
+
+export type BatchState = 'PROCESSING' | 'COMPLETED' | 'COMPLETED_WITH_ERRORS';
+export type BatchFileState = 'QUEUED' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED';
+
+export interface BatchFileStatus {
+  id: string;
+  originalName: string;
+  status: BatchFileState;
+  progress: number; // 0-100
+  receiptId: string | null;
+  jobId: string | null;
+  attempts: number;
+  error: string | null;
+}
+
+export interface BatchStatus {
+  id: string;
+  status: BatchState;
+  total: number;
+  queued: number;
+  processing: number;
+  succeeded: number;
+  failed: number;
+  progress: number; // 0-100, average over all files
+  files: BatchFileStatus[];
+  organizationId: string;
+  ownerId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Receipt files accepted inside ZIP archives (there is no MIME type to check)
+const ARCHIVE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.pdf'];
+
+// Same limit as a single upload, enforced while inflating each entry: the sizes in the
+// archive's headers are whatever the uploader wrote there
+const MAX_ENTRY_SIZE = 10 * 1024 * 1024;
+
+// Limit on everything unpacked from one archive
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+// ZIP compression methods that can be unpacked
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+// Job states in which BullMQ has not picked the job up yet
+const QUEUED_JOB_STATES = ['waiting', 'delayed', 'prioritized', 'waiting-children'];
+
+export function isZip(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(4);
+    fs.readSync(fd, header, 0, 4, 0);
+    return header.equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export class BatchService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Turn the uploaded files into batch files: receipts are kept as they are, ZIP archives are
+  // unpacked into the organization's upload directory and removed. Throws on files that cannot
+  // be processed; the caller is responsible for deleting what was stored by then (see
+  // discardUploads).
+  expandUploads(organizationId: string, files: Express.Multer.File[], extracted: BatchUploadFile[] = []): BatchUploadFile[] {
+    for (const file of files) {
+      if (isZip(file.path)) {
+        extracted.push(...this.extractArchive(organizationId, file));
+        fs.unlinkSync(file.path);
+      } else {
+        const validation = validateImage(file);
+        if (!validation.valid) {
+          throw new Error(`${file.originalname}: ${validation.error}`);
+        }
+        extracted.push({ originalName: file.originalname, filename: file.filename });
+      }
+
+      if (extracted.length > MAX_BATCH_FILES) {
+        throw new Error(`A batch can contain at most ${MAX_BATCH_FILES} receipts`);
+      }
+    }
+
+    if (extracted.length === 0) {
+      throw new Error('No receipt files found in the upload');
+    }
+
+    return extracted;
+  }
+
+  // Remove stored uploads after a rejected batch request
+  discardUploads(organizationId: string, files: Array<Express.Multer.File | BatchUploadFile>) {
+    for (const file of files) {
+      try {
+        deleteUploadedFile(path.join(organizationUploadDir(organizationId), file.filename));
+      } catch (error) {
+        console.error('[Batch] Error deleting file:', error);
+      }
+    }
+  }
+
+  // Create the batch with one placeholder receipt and one OCR job per file
+  async createBatch(organizationId: string, files: BatchUploadFile[], options: BatchOptions = {}, ownerId?: string) {
+    const batch = await this.prisma.batch.create({
+      data: {
+        organizationId,
+        options: options as any,
+        ownerId: ownerId ?? null,
+      },
+    });
+
+    for (const file of files) {
+      const imageUrl = uploadedFileUrl(organizationId, file.filename);
+      const receipt = await this.prisma.receipt.create({
+        data: {
+          organizationId,
+          imageUrl,
+          batchId: batch.id,
+          ownerId: ownerId ?? null,
+        },
+      });
+
+      const job = await addOCRJob({
+        filePath: uploadedFilePath(imageUrl),
+        filename: file.filename,
+        imageUrl,
+        organizationId,
+        receiptId: receipt.id,
+        batchId: batch.id,
+        ownerId,
+        ...options,
+      });
+
+      await this.prisma.batchFile.create({
+        data: {
+          batchId: batch.id,
+          originalName: file.originalName,
+          filename: file.filename,
+          receiptId: receipt.id,
+          jobId: job.id,
+        },
+      });
+    }
+
+    console.log(`[Batch] Created batch ${batch.id} with ${files.length} files`);
+
+    return this.getBatchStatus(batch.id);
+  }
+
+  // Progress of every file and the totals of the batch
+  async getBatchStatus(batchId: string): Promise<BatchStatus | null> {
+    const batch = await this.prisma.batch.findUnique({
+      where: { id: batchId },
+      include: {
+        files: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            receipt: {
+              select: { status: true, statusReason: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!batch) {
+      return null;
+    }
+
+    const files: BatchFileStatus[] = [];
+    for (const file of batch.files) {
+      files.push({
+        id: file.id,
+        originalName: file.originalName,
+        receiptId: file.receiptId,
+        jobId: file.jobId,
+        attempts: file.attempts,
+        ...(await this.getFileState(file.receipt, file.jobId)),
+      });
+    }
+
+    const count = (state: BatchFileState) => files.filter((file) => file.status === state).length;
+    const queued = count('QUEUED');
+    const processing = count('PROCESSING');
+    const failed = count('FAILED');
+
+    let status: BatchState = 'PROCESSING';
+    if (queued + processing === 0) {
+      status = failed > 0 ? 'COMPLETED_WITH_ERRORS' : 'COMPLETED';
+    }
+
+    return {
+      id: batch.id,
+      status,
+      total: files.length,
+      queued,
+      processing,
+      succeeded: count('SUCCEEDED'),
+      failed,
+      progress: files.length > 0 ? Math.round(files.reduce((sum, file) => sum + file.progress, 0) / files.length) : 100,
+      files,
+      organizationId: batch.organizationId,
+      ownerId: batch.ownerId,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  }
+
+  // Queue the files of a batch again: only the failed ones by default, otherwise every file
+  // that is not currently being processed. Reprocessing replaces the extracted data, so
+  // receipts that were verified, rejected or edited by hand are left alone unless force is set.
+  async retryBatch(batchId: string, failedOnly: boolean = true, force: boolean = false): Promise<BatchStatus | null> {
+    const current = await this.getBatchStatus(batchId);
+    if (!current) {
+      return null;
+    }
+
+    const batch = await this.prisma.batch.findUnique({
+      where: { id: batchId },
+      include: { files: { include: { receipt: { select: { status: true, humanEdited: true } } } } },
+    });
+    const options = ((batch?.options as BatchOptions | null) || {}) as BatchOptions;
+
+    const retryable = current.files.filter((fileStatus) => {
+      if (failedOnly ? fileStatus.status !== 'FAILED' : fileStatus.status !== 'SUCCEEDED' && fileStatus.status !== 'FAILED') {
+        return false;
+      }
+      const receipt = batch!.files.find((candidate) => candidate.id === fileStatus.id)?.receipt;
+      if (!force && receipt && (receipt.humanEdited || REVIEWED_STATUSES.includes(receipt.status))) {
+        console.log(`[Batch] Not retrying ${fileStatus.originalName} in batch ${batchId}: receipt was reviewed or edited by hand`);
+        return false;
+      }
+      return true;
+    });
+
+    for (const fileStatus of retryable) {
+      const file = batch!.files.find((candidate) => candidate.id === fileStatus.id)!;
+      // Batches from before organizations have their files in the root of the upload directory
+      const receiptImageUrl = file.receiptId
+        ? (await this.prisma.receipt.findUnique({ where: { id: file.receiptId }, select: { imageUrl: true } }))?.imageUrl
+        : null;
+      const imageUrl = receiptImageUrl || uploadedFileUrl(batch!.organizationId, file.filename);
+      const filePath = uploadedFilePath(imageUrl);
+
+      if (!fs.existsSync(filePath)) {
+        console.warn(`[Batch] Cannot retry ${file.originalName} in batch ${batchId}: file no longer exists`);
+        continue;
+      }
+
+      // Receipts made from extra pages of a split PDF are recreated by the new job
+      await this.prisma.receipt.deleteMany({
+        where: {
+          batchId,
+          imageUrl,
+          ...(file.receiptId ? { id: { not: file.receiptId } } : {}),
+        },
+      });
+
+      // Reset the placeholder, or recreate it if the receipt was deleted in the meantime
+      const receipt = file.receiptId
+        ? await this.prisma.receipt.update({
+            where: { id: file.receiptId },
+            data: { status: 'PROCESSING', statusReason: null },
+          })
+        : await this.prisma.receipt.create({
+            data: { organizationId: batch!.organizationId, imageUrl, batchId, ownerId: batch!.ownerId },
+          });
+
+      const job = await addOCRJob({
+        filePath,
+        filename: file.filename,
+        imageUrl,
+        organizationId: batch!.organizationId,
+        receiptId: receipt.id,
+        batchId,
+        ownerId: batch!.ownerId ?? undefined,
+        ...options,
+      });
+
+      await this.prisma.batchFile.update({
+        where: { id: file.id },
+        data: {
+          receiptId: receipt.id,
+          jobId: job.id,
+          attempts: { increment: 1 },
+        },
+      });
+    }
+
+    console.log(`[Batch] Retrying ${retryable.length} files of batch ${batchId}`);
+
+    return this.getBatchStatus(batchId);
+  }
+
+  // Unpack the receipt files of a ZIP archive, skipping folders and OS metadata
+  private extractArchive(organizationId: string, file: Express.Multer.File): BatchUploadFile[] {
+    let zip: AdmZip;
+    try {
+      zip = new AdmZip(file.path);
+    } catch (error: any) {
+      throw new Error(`${file.originalname}: not a valid ZIP archive`);
+    }
+
+    const extracted: BatchUploadFile[] = [];
+    let totalSize = 0;
+    for (const entry of zip.getEntries()) {
+      const name = path.posix.basename(entry.entryName);
+      if (entry.isDirectory || entry.entryName.startsWith('__MACOSX/') || name.startsWith('.')) {
+        continue;
+      }
+
+      const extension = path.extname(name).toLowerCase();
+      if (!ARCHIVE_EXTENSIONS.includes(extension)) {
+        console.log(`[Batch] Skipping ${entry.entryName} in ${file.originalname}: not a receipt file`);
+        continue;
+      }
+
+      if (extracted.length >= MAX_BATCH_FILES) {
+        throw new Error(`A batch can contain at most ${MAX_BATCH_FILES} receipts`);
+      }
+
+      const data = this.readEntry(file.originalname, entry);
+      totalSize += data.length;
+      if (totalSize > MAX_ARCHIVE_SIZE) {
+        throw new Error(`${file.originalname}: unpacked files exceed the ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB limit`);
+      }
+
+      // Stored under the extension of what the file is, not what it is called
+      const fileType = detectFileType(data);
+      if (!fileType) {
+        throw new Error(`${file.originalname}: ${entry.entryName} is not a JPEG, PNG, GIF, WebP image or PDF file`);
+      }
+
+      // Same naming as multer uploads, so the files are served and cleaned up the same way
+      const filename = Date.now() + '-' + Math.round(Math.random() * 1E9) + fileType;
+      fs.writeFileSync(path.join(organizationUploadDir(organizationId), filename), data);
+      extracted.push({ originalName: entry.entryName, filename });
+    }
+
+    return extracted;
+  }
+
+  // Contents of one archive entry, inflated with a cap of MAX_ENTRY_SIZE bytes
+  private readEntry(archiveName: string, entry: AdmZip.IZipEntry): Buffer {
+    if (entry.header.flags & 1) {
+      throw new Error(`${archiveName}: ${entry.entryName} is encrypted`);
+    }
+
+    const compressed = entry.getCompressedData();
+    if (entry.header.method === ZIP_STORED) {
+      if (compressed.length > MAX_ENTRY_SIZE) {
+        throw new Error(`${archiveName}: ${entry.entryName} exceeds the 10MB limit`);
+      }
+      return compressed;
+    }
+    if (entry.header.method !== ZIP_DEFLATED) {
+      throw new Error(`${archiveName}: ${entry.entryName} uses an unsupported compression method`);
+    }
+
+    try {
+      return zlib.inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_SIZE });
+    } catch (error: any) {
+      if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`${archiveName}: ${entry.entryName} exceeds the 10MB limit`);
+      }
+      throw new Error(`${archiveName}: ${entry.entryName} is corrupt`);
+    }
+  }
+
+  // Where a single file stands, from its receipt and, while it is processing, its job
+  private async getFileState(
+    receipt: { status: string; statusReason: string | null } | null,
+    jobId: string | null
+  ): Promise<{ status: BatchFileState; progress: number; error: string | null }> {
+    if (!receipt) {
+      return { status: 'FAILED', progress: 100, error: 'Receipt was deleted' };
+    }
+
+    if (receipt.status === 'FAILED') {
+      return { status: 'FAILED', progress: 100, error: receipt.statusReason };
+    }
+
+    if (receipt.status !== 'PROCESSING') {
+      return { status: 'SUCCEEDED', progress: 100, error: null };
+    }
+
+    const job = jobId ? await getJobStatus(jobId) : null;
+    if (!job) {
+      return { status: 'QUEUED', progress: 0, error: null };
+    }
+
+    const progress = typeof job.progress === 'number' ? job.progress : 0;
+    return {
+      status: QUEUED_JOB_STATES.includes(job.state) ? 'QUEUED' : 'PROCESSING',
+      // Completed jobs still show as processing until the receipt is saved
+      progress: Math.min(progress, 99),
+      // Error of the last attempt, while BullMQ retries the job
+      error: job.failedReason || null,
+    };
+  }
+}
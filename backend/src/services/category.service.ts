@@ -0,0 +1,398 @@
+import { CategoryRule, CategoryRuleType, CategorySource, Item, Prisma, PrismaClient } from '@prisma/client';
+import { classify, NaiveBayesModel, trainNaiveBayes } from '../utils/naiveBayes';
+
+// Taxonomy every organization starts with; admins rename, nest and add to it
+export const DEFAULT_CATEGORIES = [
+  'Groceries',
+  'Beverages',
+  'Restaurants',
+  'Fuel',
+  'Transport',
+  'Office Supplies',
+  'Household',
+  'Utilities',
+  'Other',
+];
+
+export const CATEGORY_RULE_TYPES: CategoryRuleType[] = ['KEYWORD', 'REGEX'];
+
+// Classifier guesses below this probability leave the item uncategorized
+const CLASSIFIER_MIN_PROBABILITY = parseFloat(process.env.CLASSIFIER_MIN_PROBABILITY || '0.6');
+
+// Items are re-categorized in chunks of this size
+const RECATEGORIZE_BATCH_SIZE = 500;
+
+export interface CategoryInput {
+  name?: string;
+  parentId?: string | null;
+}
+
+export interface CategoryRuleInput {
+  categoryId?: string;
+  type?: CategoryRuleType;
+  pattern?: string;
+  priority?: number;
+  enabled?: boolean;
+}
+
+// Category fields of an item, as stored
+interface ItemCategory {
+  categoryId: string | null;
+  categorySource: CategorySource | null;
+  categoryConfidence: number | null;
+}
+
+// Rules and the classifier of one organization, prepared for categorizing many items
+interface Categorizer {
+  rules: { categoryId: string; matches: (name: string) => boolean }[];
+  corrections: Map<string, string>; // Normalized item name -> category id
+  model: NaiveBayesModel;
+}
+
+// Corrections are keyed by this: "  Sugar  1KG " -> "sugar 1kg"
+export function normalizeItemName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function validateRuleInput(input: CategoryRuleInput) {
+  if (input.type != null && !CATEGORY_RULE_TYPES.includes(input.type)) {
+    throw new Error(`Invalid rule type: expected one of ${CATEGORY_RULE_TYPES.join(', ')}`);
+  }
+  if (input.pattern != null) {
+    if (!input.pattern.trim()) {
+      throw new Error('Rule pattern is required');
+    }
+    if (input.type === 'REGEX') {
+      try {
+        new RegExp(input.pattern, 'iu');
+      } catch (error: any) {
+        throw new Error(`Invalid regular expression: ${error.message}`);
+      }
+    }
+  }
+}
+
+function ruleMatcher(rule: CategoryRule): (name: string) => boolean {
+  if (rule.type === 'REGEX') {
+    const regex = new RegExp(rule.pattern, 'iu');
+    return (name) => regex.test(name);
+  }
+  const keyword = rule.pattern.trim().toLowerCase();
+  return (name) => name.toLowerCase().includes(keyword);
+}
+
+// Category fields a replaced item keeps: those of the item it replaces (same id in the
+// edit), so editing a receipt's items does not lose their categories
+export function carryOverCategory(previousItems: Item[], itemId?: string | null): Partial<ItemCategory> {
+  const previous = itemId ? previousItems.find((item) => item.id === itemId) : undefined;
+  if (!previous) {
+    return {};
+  }
+  return {
+    categoryId: previous.categoryId,
+    categorySource: previous.categorySource,
+    categoryConfidence: previous.categoryConfidence,
+  };
+}
+
+// Category a re-read item keeps: the manual one of the previous item with the same name.
+// Re-parsing replaces every item, so ids cannot be matched.
+export function carryOverManualCategory(previousItems: Item[], name: string): Partial<ItemCategory> {
+  const key = normalizeItemName(name);
+  const previous = previousItems.find(
+    (item) => item.categorySource === 'MANUAL' && normalizeItemName(item.name) === key
+  );
+  return previous ? carryOverCategory(previousItems, previous.id) : {};
+}
+
+// Item categories of an organization: a two-level taxonomy, keyword and regex rules, and a
+// naive Bayes classifier trained from the categories users gave items by hand
+export class CategoryService {
+  constructor(private prisma: PrismaClient) {}
+
+  async listCategories(organizationId: string) {
+    return this.prisma.category.findMany({ where: { organizationId }, orderBy: { name: 'asc' } });
+  }
+
+  async getCategory(organizationId: string, id: string) {
+    return this.prisma.category.findFirst({ where: { id, organizationId } });
+  }
+
+  async createDefaultCategories(organizationId: string) {
+    await this.prisma.category.createMany({
+      data: DEFAULT_CATEGORIES.map((name) => ({ organizationId, name })),
+      skipDuplicates: true,
+    });
+  }
+
+  async createCategory(organizationId: string, input: CategoryInput) {
+    if (!input.name?.trim()) {
+      throw new Error('Category name is required');
+    }
+    await this.assertNameAvailable(organizationId, input.name.trim());
+    if (input.parentId) {
+      await this.assertValidParent(organizationId, input.parentId);
+    }
+
+    return this.prisma.category.create({
+      data: { organizationId, name: input.name.trim(), parentId: input.parentId || null },
+    });
+  }
+
+  async updateCategory(organizationId: string, id: string, input: CategoryInput) {
+    const category = await this.getCategory(organizationId, id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    const data: Prisma.CategoryUncheckedUpdateInput = {};
+
+    if (input.name !== undefined && input.name !== null) {
+      if (!input.name.trim()) {
+        throw new Error('Category name is required');
+      }
+      await this.assertNameAvailable(organizationId, input.name.trim(), id);
+      data.name = input.name.trim();
+    }
+    if (input.parentId !== undefined) {
+      if (input.parentId) {
+        await this.assertValidParent(organizationId, input.parentId, id);
+      }
+      data.parentId = input.parentId || null;
+    }
+
+    return this.prisma.category.update({ where: { id }, data });
+  }
+
+  // Its items become uncategorized and its subcategories top-level; its rules and the
+  // corrections naming it are deleted
+  async deleteCategory(organizationId: string, id: string) {
+    const category = await this.getCategory(organizationId, id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    await this.prisma.category.delete({ where: { id } });
+    return true;
+  }
+
+  async listRules(organizationId: string, categoryId?: string | null) {
+    return this.prisma.categoryRule.findMany({
+      where: { category: { organizationId }, ...(categoryId ? { categoryId } : {}) },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async createRule(organizationId: string, input: CategoryRuleInput) {
+    if (!input.categoryId || !input.pattern) {
+      throw new Error('Category and pattern are required');
+    }
+    validateRuleInput(input);
+    if (!(await this.getCategory(organizationId, input.categoryId))) {
+      throw new Error('Category not found');
+    }
+
+    return this.prisma.categoryRule.create({
+      data: {
+        categoryId: input.categoryId,
+        type: input.type ?? 'KEYWORD',
+        pattern: input.pattern.trim(),
+        priority: input.priority ?? 0,
+        enabled: input.enabled ?? true,
+      },
+    });
+  }
+
+  async updateRule(organizationId: string, id: string, input: CategoryRuleInput) {
+    const rule = await this.prisma.categoryRule.findFirst({ where: { id, category: { organizationId } } });
+    if (!rule) {
+      throw new Error('Category rule not found');
+    }
+    // The pattern is checked against the type the rule will have
+    validateRuleInput({ type: input.type ?? rule.type, pattern: input.pattern ?? rule.pattern });
+
+    const data: Prisma.CategoryRuleUncheckedUpdateInput = {};
+
+    if (input.categoryId !== undefined && input.categoryId !== null) {
+      if (!(await this.getCategory(organizationId, input.categoryId))) {
+        throw new Error('Category not found');
+      }
+      data.categoryId = input.categoryId;
+    }
+    if (input.type !== undefined && input.type !== null) data.type = input.type;
+    if (input.pattern !== undefined && input.pattern !== null) data.pattern = input.pattern.trim();
+    if (input.priority !== undefined && input.priority !== null) data.priority = input.priority;
+    if (input.enabled !== undefined && input.enabled !== null) data.enabled = input.enabled;
+
+    return this.prisma.categoryRule.update({ where: { id }, data });
+  }
+
+  async deleteRule(organizationId: string, id: string) {
+    const rule = await this.prisma.categoryRule.findFirst({ where: { id, category: { organizationId } } });
+    if (!rule) {
+      throw new Error('Category rule not found');
+    }
+
+    await this.prisma.categoryRule.delete({ where: { id } });
+    return true;
+  }
+
+  // A user's category for an item. It is kept through re-categorization and remembered for
+  // the item's name, which the classifier learns from. Null marks it uncategorized.
+  async setItemCategory(organizationId: string, itemId: string, categoryId: string | null) {
+    const item = await this.prisma.item.findFirst({ where: { id: itemId, organizationId } });
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (categoryId && !(await this.getCategory(organizationId, categoryId))) {
+      throw new Error('Category not found');
+    }
+
+    const itemName = normalizeItemName(item.name);
+    if (categoryId && itemName) {
+      await this.prisma.categoryCorrection.upsert({
+        where: { organizationId_itemName: { organizationId, itemName } },
+        create: { organizationId, itemName, categoryId },
+        update: { categoryId },
+      });
+    } else if (itemName) {
+      await this.prisma.categoryCorrection.deleteMany({ where: { organizationId, itemName } });
+    }
+
+    return this.prisma.item.update({
+      where: { id: itemId },
+      data: { categoryId, categorySource: 'MANUAL', categoryConfidence: null },
+    });
+  }
+
+  // Categorize the items of a receipt that no user has categorized
+  async categorizeReceipt(receiptId: string) {
+    const receipt = await this.prisma.receipt.findUnique({
+      where: { id: receiptId },
+      include: { items: true },
+    });
+    if (!receipt) {
+      throw new Error('Receipt not found');
+    }
+
+    const categorizer = await this.loadCategorizer(receipt.organizationId);
+    return this.applyCategorizer(categorizer, receipt.items);
+  }
+
+  // Categorize every item of an organization again, e.g. after rules changed. Manual
+  // categories are kept unless force is set. Returns the number of items changed.
+  async recategorizeItems(organizationId: string, force = false) {
+    if (force) {
+      await this.prisma.item.updateMany({
+        where: { organizationId, categorySource: 'MANUAL' },
+        data: { categorySource: null },
+      });
+    }
+
+    const categorizer = await this.loadCategorizer(organizationId);
+    let changed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const items = await this.prisma.item.findMany({
+        where: { organizationId },
+        orderBy: { id: 'asc' },
+        take: RECATEGORIZE_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (items.length === 0) {
+        break;
+      }
+      changed += await this.applyCategorizer(categorizer, items);
+      cursor = items[items.length - 1].id;
+    }
+
+    console.log(`[Category] Re-categorized ${changed} items of organization ${organizationId}`);
+    return changed;
+  }
+
+  // Category of an item name: a correction given for exactly this name, else the first
+  // matching rule, else the classifier's guess when it is confident enough
+  private categorize(categorizer: Categorizer, name: string): ItemCategory {
+    const corrected = categorizer.corrections.get(normalizeItemName(name));
+    if (corrected) {
+      return { categoryId: corrected, categorySource: 'CLASSIFIER', categoryConfidence: 1 };
+    }
+
+    const rule = categorizer.rules.find((candidate) => candidate.matches(name));
+    if (rule) {
+      return { categoryId: rule.categoryId, categorySource: 'RULE', categoryConfidence: null };
+    }
+
+    const guess = classify(categorizer.model, name);
+    if (guess && guess.probability >= CLASSIFIER_MIN_PROBABILITY) {
+      return { categoryId: guess.label, categorySource: 'CLASSIFIER', categoryConfidence: guess.probability };
+    }
+
+    return { categoryId: null, categorySource: null, categoryConfidence: null };
+  }
+
+  private async loadCategorizer(organizationId: string): Promise<Categorizer> {
+    const [rules, corrections] = await Promise.all([
+      this.listRules(organizationId),
+      this.prisma.categoryCorrection.findMany({ where: { organizationId } }),
+    ]);
+
+    return {
+      rules: rules.filter((rule) => rule.enabled).map((rule) => ({ categoryId: rule.categoryId, matches: ruleMatcher(rule) })),
+      corrections: new Map(corrections.map((correction) => [correction.itemName, correction.categoryId])),
+      model: trainNaiveBayes(corrections.map((correction) => ({ text: correction.itemName, label: correction.categoryId }))),
+    };
+  }
+
+  private async applyCategorizer(categorizer: Categorizer, items: Item[]) {
+    let changed = 0;
+
+    for (const item of items) {
+      if (item.categorySource === 'MANUAL') {
+        continue;
+      }
+
+      const category = this.categorize(categorizer, item.name);
+      if (
+        category.categoryId === item.categoryId &&
+        category.categorySource === item.categorySource &&
+        category.categoryConfidence === item.categoryConfidence
+      ) {
+        continue;
+      }
+
+      await this.prisma.item.update({ where: { id: item.id }, data: category });
+      changed++;
+    }
+
+    return changed;
+  }
+
+  private async assertNameAvailable(organizationId: string, name: string, categoryId?: string) {
+    const existing = await this.prisma.category.findUnique({
+      where: { organizationId_name: { organizationId, name } },
+    });
+    if (existing && existing.id !== categoryId) {
+      throw new Error(`A category named ${name} already exists`);
+    }
+  }
+
+  // The taxonomy has two levels: parents are top-level, and categories with subcategories
+  // cannot become one
+  private async assertValidParent(organizationId: string, parentId: string, categoryId?: string) {
+    const parent = await this.getCategory(organizationId, parentId);
+    if (!parent) {
+      throw new Error('Parent category not found');
+    }
+    if (parent.id === categoryId) {
+      throw new Error('A category cannot be its own parent');
+    }
+    if (parent.parentId) {
+      throw new Error(`${parent.name} is a subcategory and cannot have subcategories`);
+    }
+    if (categoryId && (await this.prisma.category.count({ where: { parentId: categoryId } })) > 0) {
+      throw new Error('A category with subcategories cannot become a subcategory');
+    }
+  }
+}
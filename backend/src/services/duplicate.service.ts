@@ -0,0 +1,325 @@
+import sharp from 'sharp';
+import { PrismaClient } from '@prisma/client';
+import { deleteUploadedFile, uploadedFilePath } from '../utils/fileUpload';
+import { ValidationService } from './validation.service';
+
+export type DuplicateMatch = 'IMAGE' | 'FIELDS' | 'IMAGE_AND_FIELDS';
+
+export interface DuplicateCheckResult {
+  duplicateOfId: string | null;
+  duplicateMatch: DuplicateMatch | null;
+}
+
+// Fields of a receipt that identify the purchase, whoever photographed it
+export interface FingerprintFields {
+  tin?: string | null;
+  fsNumber?: string | null;
+  purchaseDate?: Date | null;
+  totalAmount?: number | null;
+}
+
+// dHash compares 8x8 neighbouring pixels, 64 bits. Two photos of the same file differ by a few
+// bits after compression; different receipts differ by around half of them.
+const HASH_SIZE = 8;
+const IMAGE_HASH_THRESHOLD = 6;
+
+// Receipt fields copied from merged receipts when the kept receipt is missing them
+const MERGED_FIELDS = [
+  'storeName',
+  'purchaseDate',
+  'purchaseDateRaw',
+  'purchaseDateCalendar',
+  'totalAmount',
+  'tin',
+  'fsNumber',
+  'mrc',
+  'referenceNumber',
+  'cashier',
+  'paymentMethod',
+  'merchantId',
+] as const;
+
+// Normalized TIN, FS number, date and total, e.g. "0001234567|00012345|2025-12-01|1150.00".
+// Returns null unless there is a total plus an FS number, or a total plus TIN and date:
+// a total and a date alone are shared by too many unrelated receipts.
+export function buildFingerprint(fields: FingerprintFields): string | null {
+  const total = fields.totalAmount;
+  const date =
+    fields.purchaseDate && !isNaN(fields.purchaseDate.getTime()) ? fields.purchaseDate.toISOString().slice(0, 10) : '';
+  const tin = fields.tin?.replace(/\D/g, '') || '';
+  const fsNumber = fields.fsNumber?.replace(/\D/g, '').replace(/^0+(?=\d)/, '') || '';
+
+  if (!total || total <= 0 || (!fsNumber && !(tin && date))) {
+    return null;
+  }
+
+  return [tin, fsNumber, date, total.toFixed(2)].join('|');
+}
+
+// Number of differing bits between two hex hashes
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let bits = parseInt(a[i] || '0', 16) ^ parseInt(b[i] || '0', 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+export class DuplicateService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Perceptual hash of an image (difference hash): shrink to 9x8 gray pixels and record for each
+  // pixel whether it is brighter than its right neighbour. Survives resizing, recompression and
+  // small lighting changes. Returns null when the image cannot be read.
+  async computeImageHash(imagePath: string): Promise<string | null> {
+    try {
+      const pixels = await sharp(imagePath)
+        .rotate() // Respect EXIF orientation
+        .grayscale()
+        .resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+      let hash = '';
+      for (let row = 0; row < HASH_SIZE; row++) {
+        let byte = 0;
+        for (let col = 0; col < HASH_SIZE; col++) {
+          const left = pixels[row * (HASH_SIZE + 1) + col];
+          const right = pixels[row * (HASH_SIZE + 1) + col + 1];
+          byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hash += byte.toString(16).padStart(2, '0');
+      }
+      return hash;
+    } catch (error: any) {
+      console.error('[Duplicate] Could not hash image:', imagePath, error.message);
+      return null;
+    }
+  }
+
+  // Refresh the receipt's fingerprint and compare it with all other original receipts of its
+  // organization. The earliest receipt of a match is the original; later ones are flagged
+  // and linked to it.
+  async checkReceipt(receiptId: string): Promise<DuplicateCheckResult> {
+    const receipt = await this.prisma.receipt.findUnique({ where: { id: receiptId } });
+    if (!receipt) {
+      throw new Error('Receipt not found');
+    }
+
+    const fingerprint = buildFingerprint(receipt);
+
+    // Matches are recomputed from scratch, so an edit can also clear the flag
+    await this.prisma.receipt.update({
+      where: { id: receiptId },
+      data: { fingerprint, duplicateOfId: null, duplicateMatch: null },
+    });
+
+    if (!fingerprint && !receipt.imageHash) {
+      return { duplicateOfId: null, duplicateMatch: null };
+    }
+
+    // Receipts split from the same PDF share the upload and are never duplicates of each other
+    const notSameUpload = receipt.imageUrl ? { OR: [{ imageUrl: null }, { imageUrl: { not: receipt.imageUrl } }] } : {};
+
+    // Fingerprints are matched in the database; image hashes need a bit distance, so every
+    // hashed original is compared here (a few bytes per receipt)
+    const candidates = await this.prisma.receipt.findMany({
+      where: {
+        id: { not: receiptId },
+        organizationId: receipt.organizationId,
+        duplicateOfId: null,
+        AND: [
+          notSameUpload,
+          {
+            OR: [
+              ...(fingerprint ? [{ fingerprint }] : []),
+              ...(receipt.imageHash ? [{ imageHash: { not: null } }] : []),
+            ],
+          },
+        ],
+      },
+      select: { id: true, imageHash: true, fingerprint: true, duplicateDismissed: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const matches = candidates
+      .map((candidate) => ({ ...candidate, match: this.compare(receipt, fingerprint, candidate) }))
+      .filter((candidate): candidate is typeof candidate & { match: DuplicateMatch } => candidate.match !== null);
+
+    if (matches.length === 0) {
+      return { duplicateOfId: null, duplicateMatch: null };
+    }
+
+    const original = matches[0];
+    if (original.createdAt <= receipt.createdAt) {
+      if (receipt.duplicateDismissed) {
+        return { duplicateOfId: null, duplicateMatch: null };
+      }
+
+      console.log(`[Duplicate] Receipt ${receiptId} matches ${original.id} (${original.match})`);
+      await this.prisma.receipt.update({
+        where: { id: receiptId },
+        data: { duplicateOfId: original.id, duplicateMatch: original.match },
+      });
+      return { duplicateOfId: original.id, duplicateMatch: original.match };
+    }
+
+    // This receipt was uploaded first but processed later: the matches are its duplicates
+    for (const match of matches) {
+      if (match.duplicateDismissed) {
+        continue;
+      }
+
+      console.log(`[Duplicate] Receipt ${match.id} matches ${receiptId} (${match.match})`);
+      await this.prisma.receipt.updateMany({
+        where: { OR: [{ id: match.id }, { duplicateOfId: match.id }] },
+        data: { duplicateOfId: receiptId },
+      });
+      await this.prisma.receipt.update({
+        where: { id: match.id },
+        data: { duplicateMatch: match.match },
+      });
+    }
+
+    return { duplicateOfId: null, duplicateMatch: null };
+  }
+
+  // Originals with the receipts flagged as their duplicates, most recently flagged first
+  async getClusters(organizationId: string) {
+    const duplicates = await this.prisma.receipt.findMany({
+      where: { organizationId, duplicateOfId: { not: null } },
+      include: { items: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const originals = await this.prisma.receipt.findMany({
+      where: { id: { in: [...new Set(duplicates.map((receipt) => receipt.duplicateOfId!))] } },
+      include: { items: true },
+    });
+
+    return originals
+      .map((original) => ({
+        original,
+        duplicates: duplicates.filter((receipt) => receipt.duplicateOfId === original.id),
+      }))
+      .sort(
+        (a, b) =>
+          b.duplicates[b.duplicates.length - 1].createdAt.getTime() -
+          a.duplicates[a.duplicates.length - 1].createdAt.getTime()
+      );
+  }
+
+  // Resolve a cluster: keep one receipt, fill its missing fields (and items, if it has none)
+  // from the others, and delete the others together with their uploads. All receipts must
+  // belong to the organization.
+  async mergeReceipts(organizationId: string, keepId: string, mergeIds: string[]) {
+    const ids = [...new Set(mergeIds)].filter((id) => id !== keepId);
+    if (ids.length === 0) {
+      throw new Error('Select at least one receipt to merge');
+    }
+
+    const keep = await this.prisma.receipt.findFirst({ where: { id: keepId, organizationId }, include: { items: true } });
+    if (!keep) {
+      throw new Error('Receipt not found');
+    }
+
+    const merged = await this.prisma.receipt.findMany({
+      where: { id: { in: ids }, organizationId },
+      include: { items: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (merged.length !== ids.length) {
+      throw new Error('Receipt not found');
+    }
+
+    const updateData: any = {};
+    for (const field of MERGED_FIELDS) {
+      if (keep[field] === null) {
+        const source = merged.find((receipt) => receipt[field] !== null);
+        if (source) {
+          updateData[field] = source[field];
+        }
+      }
+    }
+
+    // Take over the line items of the first merged receipt that has any
+    const itemSource = keep.items.length === 0 ? merged.find((receipt) => receipt.items.length > 0) : undefined;
+
+    // All or nothing: a failure halfway must not leave items moved off receipts that still exist
+    await this.prisma.$transaction([
+      ...(itemSource
+        ? [
+            this.prisma.item.updateMany({
+              where: { receiptId: itemSource.id },
+              data: { receiptId: keepId },
+            }),
+          ]
+        : []),
+      // Duplicates of the merged receipts now belong to the kept one
+      this.prisma.receipt.updateMany({
+        where: { duplicateOfId: { in: ids }, id: { not: keepId } },
+        data: { duplicateOfId: keepId },
+      }),
+      this.prisma.receipt.update({
+        where: { id: keepId },
+        data: {
+          ...updateData,
+          duplicateOfId: null,
+          duplicateMatch: null,
+          duplicateDismissed: true, // Reviewed: this is the one receipt to keep
+        },
+      }),
+      this.prisma.receipt.deleteMany({ where: { id: { in: ids } } }),
+    ]);
+
+    // Delete uploads no other receipt uses, once the merge is committed
+    for (const imageUrl of new Set(merged.map((receipt) => receipt.imageUrl))) {
+      if (!imageUrl || (await this.prisma.receipt.count({ where: { imageUrl } })) > 0) {
+        continue;
+      }
+      try {
+        deleteUploadedFile(uploadedFilePath(imageUrl));
+      } catch (error) {
+        console.error('[Duplicate] Error deleting image file:', error);
+      }
+    }
+
+    console.log(`[Duplicate] Merged ${ids.length} receipts into ${keepId}`);
+
+    // Totals or items may have changed
+    await new ValidationService(this.prisma).validateReceipt(keepId);
+    await this.checkReceipt(keepId);
+
+    return this.prisma.receipt.findUnique({ where: { id: keepId }, include: { items: true } });
+  }
+
+  // A reviewer confirmed the receipt is not a duplicate; it will not be flagged again
+  async dismissDuplicate(receiptId: string) {
+    return this.prisma.receipt.update({
+      where: { id: receiptId },
+      data: { duplicateOfId: null, duplicateMatch: null, duplicateDismissed: true },
+      include: { items: true },
+    });
+  }
+
+  private compare(
+    receipt: { imageHash: string | null },
+    fingerprint: string | null,
+    candidate: { imageHash: string | null; fingerprint: string | null }
+  ): DuplicateMatch | null {
+    const sameImage =
+      !!receipt.imageHash &&
+      !!candidate.imageHash &&
+      hammingDistance(receipt.imageHash, candidate.imageHash) <= IMAGE_HASH_THRESHOLD;
+    const sameFields = !!fingerprint && fingerprint === candidate.fingerprint;
+
+    if (sameImage && sameFields) return 'IMAGE_AND_FIELDS';
+    if (sameImage) return 'IMAGE';
+    if (sameFields) return 'FIELDS';
+    return null;
+  }
+}
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BoundingBox, OcrEngine, OcrLine, OcrResult, OcrWord } from './ocr-engine';
+
+export interface HttpEngineOptions {
+  url?: string; // Endpoint receiving the image, e.g. http://paddleocr:8866/ocr
+  token?: string; // Sent as a bearer token, if the service requires one
+  timeoutMs?: number;
+}
+
+// A text box as returned by the service. PaddleOCR returns one box per text segment,
+// so "Bread" and "20.00" on the same receipt row come back as two boxes.
+interface HttpTextBox {
+  text: string;
+  confidence: number; // 0-1 or 0-100
+  box: BoundingBox;
+  words?: HttpTextBox[];
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// Whole pixels, like Tesseract's boxes
+function roundBox(x0: number, y0: number, x1: number, y1: number): BoundingBox {
+  return { x0: Math.round(x0), y0: Math.round(y0), x1: Math.round(x1), y1: Math.round(y1) };
+}
+
+// Accepts [x0, y0, x1, y1], {x0, y0, x1, y1} or a polygon of [x, y] points (PaddleOCR)
+function toBoundingBox(value: any): BoundingBox {
+  if (Array.isArray(value) && Array.isArray(value[0])) {
+    const xs = value.map((point: number[]) => point[0]);
+    const ys = value.map((point: number[]) => point[1]);
+    return roundBox(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys));
+  }
+  if (Array.isArray(value) && value.length === 4) {
+    return roundBox(value[0], value[1], value[2], value[3]);
+  }
+  if (value && typeof value.x0 === 'number') {
+    return roundBox(value.x0, value.y0, value.x1, value.y1);
+  }
+  throw new Error(`Unsupported bounding box: ${JSON.stringify(value)}`);
+}
+
+// Confidence as the service sent it; scaled by scaleConfidences once the whole response is read
+function toConfidence(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+// Scale a response's confidences to the 0-100 range Tesseract uses. The scale is decided for
+// the whole response, not per value: on a 0-100 scale a box at 1 is 1%, not 100%.
+function scaleConfidences(boxes: HttpTextBox[]): HttpTextBox[] {
+  const all = boxes.flatMap((box) => [box, ...(box.words || [])]);
+  const factor = all.some((box) => box.confidence > 1) ? 1 : 100;
+  const scale = (box: HttpTextBox): HttpTextBox => ({
+    ...box,
+    confidence: Math.round(box.confidence * factor * 100) / 100,
+    words: box.words?.map(scale),
+  });
+  return boxes.map(scale);
+}
+
+// Read one text box: {text, confidence, box|bbox, words?}, or PaddleOCR's [box, [text, score]]
+function toTextBox(entry: any): HttpTextBox {
+  if (Array.isArray(entry)) {
+    return { box: toBoundingBox(entry[0]), text: String(entry[1][0]), confidence: toConfidence(entry[1][1]) };
+  }
+  return {
+    text: String(entry.text ?? ''),
+    confidence: toConfidence(entry.confidence ?? entry.score),
+    box: toBoundingBox(entry.box ?? entry.bbox),
+    words: Array.isArray(entry.words) ? entry.words.map(toTextBox) : undefined,
+  };
+}
+
+// Split a box into words, sharing its width out by character position
+function splitWords(box: HttpTextBox): OcrWord[] {
+  if (box.words && box.words.length > 0) {
+    return box.words.map((word) => ({ text: word.text, confidence: word.confidence, bbox: word.box }));
+  }
+
+  const charWidth = (box.box.x1 - box.box.x0) / Math.max(box.text.length, 1);
+  return Array.from(box.text.matchAll(/\S+/g)).map((match) => ({
+    text: match[0],
+    confidence: box.confidence,
+    bbox: roundBox(
+      box.box.x0 + (match.index || 0) * charWidth,
+      box.box.y0,
+      box.box.x0 + ((match.index || 0) + match[0].length) * charWidth,
+      box.box.y1
+    ),
+  }));
+}
+
+// Merge boxes on the same row into receipt lines, keeping visible column gaps as two
+// spaces like Tesseract's output, which the item parser splits on
+function groupIntoLines(boxes: HttpTextBox[]): OcrLine[] {
+  const centerY = (box: HttpTextBox) => (box.box.y0 + box.box.y1) / 2;
+  const height = (box: HttpTextBox) => Math.max(box.box.y1 - box.box.y0, 1);
+
+  const rows: HttpTextBox[][] = [];
+  for (const box of [...boxes].filter((box) => box.text.trim()).sort((a, b) => centerY(a) - centerY(b))) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(centerY(row[0]) - centerY(box)) <= Math.min(height(row[0]), height(box)) * 0.5) {
+      row.push(box);
+    } else {
+      rows.push([box]);
+    }
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.box.x0 - b.box.x0);
+
+    let text = '';
+    row.forEach((box, index) => {
+      if (index > 0) {
+        const previous = row[index - 1];
+        const charWidth = (previous.box.x1 - previous.box.x0) / Math.max(previous.text.length, 1);
+        text += box.box.x0 - previous.box.x1 > charWidth * 1.5 ? '  ' : ' ';
+      }
+      text += box.text.trim();
+    });
+
+    const words = row.flatMap(splitWords);
+    return {
+      text,
+      confidence: Math.round((row.reduce((sum, box) => sum + box.confidence, 0) / row.length) * 100) / 100,
+      bbox: {
+        x0: Math.min(...row.map((box) => box.box.x0)),
+        y0: Math.min(...row.map((box) => box.box.y0)),
+        x1: Math.max(...row.map((box) => box.box.x1)),
+        y1: Math.max(...row.map((box) => box.box.y1)),
+      },
+      words,
+    };
+  });
+}
+
+// Adapter for a self-hosted OCR service (e.g. a PaddleOCR container). The image is POSTed
+// as multipart field "image"; the service answers with text boxes:
+//   { "version": "PP-OCRv4", "lines": [{ "text": "TOTAL", "confidence": 0.98, "box": [[x, y], ...] }] }
+export class HttpEngine implements OcrEngine {
+  readonly name = 'http' as const;
+  version: string;
+  private url: string;
+  private token?: string;
+  private timeoutMs: number;
+
+  constructor(options: HttpEngineOptions = {}) {
+    const url = options.url || process.env.OCR_HTTP_URL;
+    if (!url) {
+      throw new Error('OCR_HTTP_URL must be set to use the http OCR engine');
+    }
+
+    this.url = url;
+    this.token = options.token || process.env.OCR_HTTP_TOKEN || undefined;
+    this.timeoutMs = options.timeoutMs || parseInt(process.env.OCR_HTTP_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+    this.version = 'http'; // Replaced by the version the service reports
+  }
+
+  async recognize(imagePath: string): Promise<OcrResult> {
+    const form = new FormData();
+    const type = MIME_TYPES[path.extname(imagePath).toLowerCase()] || 'application/octet-stream';
+    form.append('image', new Blob([fs.readFileSync(imagePath)], { type }), path.basename(imagePath));
+
+    let body: any;
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        body: form,
+        headers: this.token ? { Authorization: `Bearer ${this.token}` } : undefined,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${await response.text()}`);
+      }
+      body = await response.json();
+    } catch (error: any) {
+      throw new Error(`OCR service at ${this.url} failed: ${error.message || error}`);
+    }
+
+    if (body?.version) {
+      this.version = `http ${body.version}`;
+    }
+
+    const entries = Array.isArray(body) ? body : body?.lines;
+    if (!Array.isArray(entries)) {
+      throw new Error(`OCR service at ${this.url} returned no lines`);
+    }
+
+    const lines = groupIntoLines(scaleConfidences(entries.map(toTextBox)));
+    const words = lines.flatMap((line) => line.words);
+
+    return {
+      text: lines.map((line) => line.text).join('\n'),
+      confidence:
+        lines.length > 0 ? Math.round((lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length) * 100) / 100 : 0,
+      words,
+      lines,
+    };
+  }
+
+  async terminate() {
+    // Stateless: nothing to release
+  }
+}
@@ -0,0 +1,61 @@
+// Engine-neutral OCR result model. The receipt parser only reads this shape, so any
+// engine (Tesseract, a PaddleOCR container, ...) can feed it.
+
+// A type rather than an interface so it can be stored as Prisma JSON
+export type BoundingBox = {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+};
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-100
+  bbox: BoundingBox; // Pixels from the top-left corner of the image
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0-100
+  bbox: BoundingBox;
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  text: string; // Lines joined with newlines, top to bottom
+  confidence: number; // Mean confidence of the page, 0-100
+  words: OcrWord[];
+  lines: OcrLine[];
+}
+
+export type OcrEngineName = 'tesseract' | 'http';
+
+export const OCR_ENGINE_NAMES: OcrEngineName[] = ['tesseract', 'http'];
+
+export interface OcrEngine {
+  readonly name: OcrEngineName;
+  readonly version: string; // Engine or model version, recorded with each receipt
+  recognize(imagePath: string): Promise<OcrResult>;
+  terminate(): Promise<void>;
+}
+
+// Engines that can be used here: http only once OCR_HTTP_URL points at a service
+export function availableOcrEngineNames(): OcrEngineName[] {
+  return OCR_ENGINE_NAMES.filter((name) => name !== 'http' || !!process.env.OCR_HTTP_URL);
+}
+
+// Parse an engine name from an environment variable or upload form field
+export function parseOcrEngineName(value: unknown): OcrEngineName | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const available = availableOcrEngineNames();
+  if (available.includes(value as OcrEngineName)) {
+    return value as OcrEngineName;
+  }
+  if (OCR_ENGINE_NAMES.includes(value as OcrEngineName)) {
+    throw new Error(`OCR engine ${value} is not configured: expected one of ${available.join(', ')}`);
+  }
+  throw new Error(`Invalid OCR engine: expected one of ${available.join(', ')}`);
+}
@@ -0,0 +1,119 @@
+import { createWorker, Worker } from 'tesseract.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OcrEngine, OcrLine, OcrResult, OcrWord } from './ocr-engine';
+
+const TESSERACT_VERSION: string = require('tesseract.js/package.json').version;
+
+export interface TesseractEngineOptions {
+  languages?: string; // Tesseract language codes joined with '+', e.g. 'amh+eng'
+  langPath?: string; // Local directory with <lang>.traineddata(.gz) files, for offline use
+}
+
+export class TesseractEngine implements OcrEngine {
+  readonly name = 'tesseract' as const;
+  readonly version: string;
+  private worker: Worker | null = null;
+  private initPromise: Promise<Worker> | null = null;
+  private languages: string;
+  private langPath?: string;
+
+  constructor(options: TesseractEngineOptions = {}) {
+    this.languages = options.languages || process.env.OCR_LANGUAGES || 'eng';
+    this.langPath = options.langPath || process.env.OCR_LANG_PATH || undefined;
+    this.version = `tesseract.js ${TESSERACT_VERSION} (${this.languages})`;
+  }
+
+  // Worker options for loading traineddata from a local directory instead of the CDN.
+  // Both gzipped and plain .traineddata files are supported.
+  private getWorkerOptions(): Record<string, any> {
+    if (!this.langPath) {
+      return {};
+    }
+
+    const langPath = path.resolve(this.langPath);
+    const languageCodes = this.languages.split('+').filter((code) => code.length > 0);
+    const missing = languageCodes.filter((code) =>
+      !fs.existsSync(path.join(langPath, `${code}.traineddata`)) &&
+      !fs.existsSync(path.join(langPath, `${code}.traineddata.gz`))
+    );
+    if (missing.length > 0) {
+      throw new Error(`Missing traineddata for ${missing.join(', ')} in ${langPath}`);
+    }
+
+    const gzip = languageCodes.every((code) => fs.existsSync(path.join(langPath, `${code}.traineddata.gz`)));
+
+    return {
+      langPath,
+      gzip,
+      cacheMethod: 'none', // Files are already local, no need to copy them into a cache
+    };
+  }
+
+  // Start the worker once; concurrent callers wait for the same initialization
+  private async initialize(): Promise<Worker> {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        try {
+          console.log(`[OCR] Initializing Tesseract worker for languages: ${this.languages}${this.langPath ? ` (from ${this.langPath})` : ''}`);
+          this.worker = await createWorker(this.languages, undefined, this.getWorkerOptions());
+          return this.worker;
+        } catch (error) {
+          throw new Error(`Failed to initialize OCR worker: ${error}`);
+        } finally {
+          this.initPromise = null;
+        }
+      })();
+    }
+
+    return this.initPromise;
+  }
+
+  async recognize(imagePath: string): Promise<OcrResult> {
+    const worker = await this.initialize();
+
+    try {
+      const { data } = await worker.recognize(imagePath);
+
+      const toWord = (word: any): OcrWord => ({
+        text: word.text,
+        confidence: word.confidence,
+        bbox: { x0: word.bbox.x0, y0: word.bbox.y0, x1: word.bbox.x1, y1: word.bbox.y1 },
+      });
+
+      const lines: OcrLine[] = (data.lines || []).map((line: any) => ({
+        text: line.text.replace(/\n$/, ''),
+        confidence: line.confidence,
+        bbox: { x0: line.bbox.x0, y0: line.bbox.y0, x1: line.bbox.x1, y1: line.bbox.y1 },
+        words: (line.words || []).map(toWord),
+      }));
+
+      return {
+        text: data.text,
+        confidence: data.confidence,
+        words: (data.words || []).map(toWord),
+        lines,
+      };
+    } catch (error) {
+      // If worker is in bad state, reset it
+      await this.terminate();
+      throw new Error(`OCR data extraction failed: ${error}`);
+    }
+  }
+
+  async terminate() {
+    if (this.worker) {
+      try {
+        await this.worker.terminate();
+      } catch (error) {
+        console.error('Error terminating OCR worker:', error);
+      } finally {
+        this.worker = null;
+      }
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+import {
+  ReceiptFilter,
+  ReceiptService,
+  ReceiptSort,
+  ReceiptWithDetails,
+  parseReceiptListQuery,
+} from './receipt.service';
+import { XLSX_MAX_ROWS, XlsxCell, writeXlsx } from '../utils/xlsx';
+
+// File types exports are written as
+export const EXPORT_FORMATS = {
+  CSV: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  XLSX: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  NDJSON: { extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8' },
+} as const;
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+// One row per receipt, or one row per item with the receipt's columns repeated
+export const EXPORT_LAYOUTS = ['RECEIPTS', 'ITEMS'] as const;
+export type ExportLayout = (typeof EXPORT_LAYOUTS)[number];
+
+// Exports of up to this many rows are written straight into the response; larger ones are
+// left to a background job
+export const EXPORT_SYNC_MAX_ROWS = parseInt(process.env.EXPORT_SYNC_MAX_ROWS || '5000', 10);
+
+// Receipts are read this many at a time
+const EXPORT_BATCH_SIZE = 200;
+
+// Files of background exports, shared by the worker that writes them and the API that serves
+// them; by default next to the uploads, which are on a shared volume already
+export const EXPORT_DIR =
+  process.env.EXPORT_DIR || path.join(process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'), 'exports');
+
+// Export files and jobs are removed after this long
+export const EXPORT_TTL_HOURS = parseInt(process.env.EXPORT_TTL_HOURS || '24', 10);
+
+export interface ExportOptions {
+  format: ExportFormat;
+  layout: ExportLayout;
+  filter?: ReceiptFilter | null;
+  sort?: ReceiptSort[] | null;
+}
+
+type ExportValue = string | number | null;
+
+interface ExportColumn<T> {
+  name: string;
+  value: (row: T) => ExportValue;
+}
+
+interface ItemRow {
+  receipt: ReceiptWithDetails;
+  item: ReceiptWithDetails['items'][number];
+}
+
+const date = (value: Date | null) => (value ? value.toISOString().slice(0, 10) : null);
+const dateTime = (value: Date | null) => (value ? value.toISOString() : null);
+
+const RECEIPT_COLUMNS: ExportColumn<ReceiptWithDetails>[] = [
+  { name: 'receiptId', value: (receipt) => receipt.id },
+  { name: 'storeName', value: (receipt) => receipt.storeName },
+  { name: 'merchant', value: (receipt) => receipt.merchant?.name ?? null },
+  { name: 'tin', value: (receipt) => receipt.tin },
+  { name: 'fsNumber', value: (receipt) => receipt.fsNumber },
+  { name: 'mrc', value: (receipt) => receipt.mrc },
+  { name: 'referenceNumber', value: (receipt) => receipt.referenceNumber },
+  { name: 'cashier', value: (receipt) => receipt.cashier },
+  { name: 'paymentMethod', value: (receipt) => receipt.paymentMethod },
+  { name: 'purchaseDate', value: (receipt) => date(receipt.purchaseDate) },
+  { name: 'totalAmount', value: (receipt) => receipt.totalAmount },
+  { name: 'currency', value: (receipt) => receipt.currency },
+  { name: 'status', value: (receipt) => receipt.status },
+  { name: 'confidence', value: (receipt) => receipt.confidence },
+  { name: 'itemCount', value: (receipt) => receipt.items.length },
+  { name: 'createdAt', value: (receipt) => dateTime(receipt.createdAt) },
+];
+
+// Receipt columns worth repeating on every item row
+const ITEM_RECEIPT_COLUMNS = ['receiptId', 'storeName', 'merchant', 'tin', 'fsNumber', 'purchaseDate', 'currency', 'status'];
+
+const ITEM_COLUMNS: ExportColumn<ItemRow>[] = [
+  ...RECEIPT_COLUMNS.filter((column) => ITEM_RECEIPT_COLUMNS.includes(column.name)).map((column) => ({
+    name: column.name,
+    value: (row: ItemRow) => column.value(row.receipt),
+  })),
+  { name: 'itemId', value: (row) => row.item.id },
+  { name: 'itemName', value: (row) => row.item.name },
+  { name: 'quantity', value: (row) => row.item.quantity },
+  { name: 'unit', value: (row) => row.item.unit },
+  { name: 'price', value: (row) => row.item.price },
+  { name: 'amount', value: (row) => row.item.amount },
+  { name: 'category', value: (row) => row.item.category?.name ?? null },
+  { name: 'categorySource', value: (row) => row.item.categorySource },
+];
+
+// Bad export arguments; answered with 400 / BAD_USER_INPUT
+export class ExportQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportQueryError';
+  }
+}
+
+export function parseExportFormat(value?: string | null): ExportFormat {
+  const format = (value || 'CSV').toUpperCase();
+  if (!(format in EXPORT_FORMATS)) {
+    throw new ExportQueryError(`Unknown export format: ${value}; expected one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+  return format as ExportFormat;
+}
+
+export function parseExportLayout(value?: string | null): ExportLayout {
+  const layout = (value || 'RECEIPTS').toUpperCase();
+  if (!(EXPORT_LAYOUTS as readonly string[]).includes(layout)) {
+    throw new ExportQueryError(`Unknown export layout: ${value}; expected one of ${EXPORT_LAYOUTS.join(', ')}`);
+  }
+  return layout as ExportLayout;
+}
+
+// Export options of a REST query string: the receipts list filter and sort, plus
+//   ?format=xlsx&layout=items
+export function parseExportQuery(query: Record<string, unknown>): ExportOptions {
+  const { filter, sort } = parseReceiptListQuery(query);
+  return {
+    format: parseExportFormat(typeof query.format === 'string' ? query.format : null),
+    layout: parseExportLayout(typeof query.layout === 'string' ? query.layout : null),
+    filter,
+    sort,
+  };
+}
+
+// receipts-2026-01-31.csv, receipt-items-2026-01-31.xlsx
+export function exportFileName(options: ExportOptions, at = new Date()) {
+  const name = options.layout === 'ITEMS' ? 'receipt-items' : 'receipts';
+  return `${name}-${at.toISOString().slice(0, 10)}.${EXPORT_FORMATS[options.format].extension}`;
+}
+
+export function exportFilePath(jobId: string, format: ExportFormat) {
+  return path.join(EXPORT_DIR, `${jobId}.${EXPORT_FORMATS[format].extension}`);
+}
+
+// Deletes export files older than EXPORT_TTL_HOURS
+export function removeExpiredExports() {
+  if (!fs.existsSync(EXPORT_DIR)) {
+    return;
+  }
+  const expiredBefore = Date.now() - EXPORT_TTL_HOURS * 3600 * 1000;
+  for (const name of fs.readdirSync(EXPORT_DIR)) {
+    const file = path.join(EXPORT_DIR, name);
+    try {
+      if (fs.statSync(file).mtimeMs < expiredBefore) {
+        fs.unlinkSync(file);
+      }
+    } catch (error) {
+      console.error(`[Export] Failed to remove expired export ${name}:`, error);
+    }
+  }
+}
+
+// Spreadsheets run cells starting with these as formulas; OCR text must not
+function csvCell(value: ExportValue) {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Writes, waiting for the stream to drain when its buffer is full
+async function write(output: Writable, chunk: string | Buffer) {
+  if (!output.write(chunk)) {
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        output.off('error', onError);
+        resolve();
+      };
+      const onError = (error: Error) => {
+        output.off('drain', onDrain);
+        reject(error);
+      };
+      output.once('drain', onDrain);
+      output.once('error', onError);
+    });
+  }
+}
+
+// Receipts and items of a receipts filter as CSV, XLSX or NDJSON. The same columns are
+// written in every format.
+export class ExportService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Rows an export will have: matching receipts, or the items of matching receipts
+  async countRows(scope: Prisma.ReceiptWhereInput, options: ExportOptions) {
+    const where = { AND: [scope, new ReceiptService(this.prisma).buildWhere(options.filter)] };
+    return options.layout === 'ITEMS'
+      ? this.prisma.item.count({ where: { receipt: where } })
+      : this.prisma.receipt.count({ where });
+  }
+
+  // Writes the export to output and ends it. onProgress gets the number of rows written so
+  // far. Returns the number of rows.
+  async writeExport(
+    scope: Prisma.ReceiptWhereInput,
+    options: ExportOptions,
+    output: Writable,
+    onProgress?: (rows: number) => Promise<void>
+  ): Promise<number> {
+    const columns: ExportColumn<any>[] = options.layout === 'ITEMS' ? ITEM_COLUMNS : RECEIPT_COLUMNS;
+    const names = columns.map((column) => column.name);
+    const xlsxRows: XlsxCell[][] = [];
+    let rowCount = 0;
+
+    if (options.format === 'CSV') {
+      // The byte order mark makes spreadsheets read the file as UTF-8 (Amharic store names)
+      await write(output, '\uFEFF' + names.map(csvCell).join(',') + '\r\n');
+    }
+
+    await new ReceiptService(this.prisma).forEachReceiptBatch(scope, options.filter, options.sort, EXPORT_BATCH_SIZE, async (receipts) => {
+      const rows: any[] =
+        options.layout === 'ITEMS' ? receipts.flatMap((receipt) => receipt.items.map((item) => ({ receipt, item }))) : receipts;
+      if (rows.length === 0) {
+        return;
+      }
+
+      const values = rows.map((row) => columns.map((column) => column.value(row)));
+      rowCount += rows.length;
+
+      if (options.format === 'XLSX') {
+        if (rowCount >= XLSX_MAX_ROWS) {
+          throw new ExportQueryError(`XLSX exports hold at most ${XLSX_MAX_ROWS - 1} rows; use CSV or NDJSON`);
+        }
+        xlsxRows.push(...values);
+      } else if (options.format === 'CSV') {
+        await write(output, values.map((row) => row.map(csvCell).join(',') + '\r\n').join(''));
+      } else {
+        const lines = values.map((row) => JSON.stringify(Object.fromEntries(names.map((name, index) => [name, row[index]]))));
+        await write(output, lines.join('\n') + '\n');
+      }
+
+      if (onProgress) {
+        await onProgress(rowCount);
+      }
+    });
+
+    if (options.format === 'XLSX') {
+      await write(output, writeXlsx(options.layout === 'ITEMS' ? 'Items' : 'Receipts', names, xlsxRows));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      output.once('error', reject);
+      output.end(resolve);
+    });
+    return rowCount;
+  }
+}
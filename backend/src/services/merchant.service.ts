@@ -0,0 +1,277 @@
+import { PrismaClient } from '@prisma/client';
+
+export interface MerchantInput {
+  tin?: string | null;
+  name?: string;
+  aliases?: string[];
+  address?: string | null;
+  vatNumber?: string | null;
+}
+
+// Store names at least this similar (1 = identical after normalization) are the same shop
+const FUZZY_NAME_THRESHOLD = 0.85;
+
+// Shorter names are only matched exactly; "ABC" and "ABD" are not the same shop
+const MIN_FUZZY_NAME_LENGTH = 5;
+
+// OCR confuses these digits with letters in store names
+const OCR_LETTER_FIXES: Record<string, string> = { '0': 'O', '1': 'I', '5': 'S', '8': 'B' };
+
+// Uppercase letters and digits only, with OCR digit/letter confusions undone:
+// "Sh0a Super-Market PLC." -> "SHOASUPERMARKETPLC"
+export function normalizeMerchantName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]/gu, '')
+    .replace(/[0158]/g, (digit) => OCR_LETTER_FIXES[digit]);
+}
+
+export function normalizeTin(tin: string | null | undefined): string | null {
+  const digits = tin?.replace(/\D/g, '') || '';
+  return digits.length > 0 ? digits : null;
+}
+
+// Similarity of two normalized names from their edit distance, 0-1
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+// Merchants belong to an organization: two subsidiaries buying from the same shop each
+// have their own record of it.
+export class MerchantService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Link a receipt to its merchant in the receipt's organization: by TIN, creating the
+  // merchant on first sight, or by a fuzzy store name match when the receipt has no TIN.
+  // Store names that differ from the merchant's are recorded as aliases.
+  async matchReceipt(receiptId: string) {
+    const receipt = await this.prisma.receipt.findUnique({ where: { id: receiptId } });
+    if (!receipt) {
+      throw new Error('Receipt not found');
+    }
+
+    const tin = normalizeTin(receipt.tin);
+    const storeName = receipt.storeName?.trim() || null;
+
+    const { organizationId } = receipt;
+    let merchant = tin
+      ? await this.prisma.merchant.findUnique({ where: { organizationId_tin: { organizationId, tin } } })
+      : null;
+
+    if (!merchant && tin) {
+      merchant = await this.prisma.merchant.create({
+        data: {
+          organizationId,
+          tin,
+          name: storeName || `TIN ${tin}`,
+          aliases: [],
+        },
+      });
+      console.log(`[Merchant] Created merchant ${merchant.id} for TIN ${tin}`);
+    } else if (!merchant && storeName) {
+      merchant = await this.findByName(organizationId, storeName);
+      if (merchant) {
+        console.log(`[Merchant] Matched "${storeName}" to ${merchant.name} by name`);
+      }
+    }
+
+    if (!merchant) {
+      await this.prisma.receipt.update({ where: { id: receiptId }, data: { merchantId: null } });
+      return null;
+    }
+
+    if (storeName && !this.knowsName(merchant, storeName)) {
+      merchant = await this.prisma.merchant.update({
+        where: { id: merchant.id },
+        data: { aliases: { push: storeName } },
+      });
+    }
+
+    await this.prisma.receipt.update({ where: { id: receiptId }, data: { merchantId: merchant.id } });
+    return merchant;
+  }
+
+  // Most similar merchant by canonical name or alias, if similar enough
+  async findByName(organizationId: string, storeName: string) {
+    const normalized = normalizeMerchantName(storeName);
+    if (!normalized) {
+      return null;
+    }
+
+    const merchants = await this.prisma.merchant.findMany({ where: { organizationId } });
+
+    let best: { merchant: (typeof merchants)[number]; similarity: number } | null = null;
+    for (const merchant of merchants) {
+      for (const name of [merchant.name, ...merchant.aliases]) {
+        const candidate = normalizeMerchantName(name);
+        const similarity =
+          normalized.length < MIN_FUZZY_NAME_LENGTH ? (candidate === normalized ? 1 : 0) : nameSimilarity(normalized, candidate);
+        if (similarity >= FUZZY_NAME_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { merchant, similarity };
+        }
+      }
+    }
+
+    return best?.merchant ?? null;
+  }
+
+  async getMerchant(organizationId: string, id: string) {
+    return this.prisma.merchant.findFirst({ where: { id, organizationId } });
+  }
+
+  async listMerchants(organizationId: string, search?: string) {
+    return this.prisma.merchant.findMany({
+      where: {
+        organizationId,
+        ...(search
+          ? {
+              OR: [
+                { name: { contains: search, mode: 'insensitive' } },
+                { aliases: { has: search } },
+                { tin: { contains: search.replace(/\D/g, '') || search } },
+              ],
+            }
+          : {}),
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async createMerchant(organizationId: string, input: MerchantInput) {
+    if (!input.name?.trim()) {
+      throw new Error('Merchant name is required');
+    }
+
+    const tin = normalizeTin(input.tin);
+    await this.assertTinAvailable(organizationId, tin);
+
+    return this.prisma.merchant.create({
+      data: {
+        organizationId,
+        tin,
+        name: input.name.trim(),
+        aliases: input.aliases ?? [],
+        address: input.address || null,
+        vatNumber: input.vatNumber || null,
+      },
+    });
+  }
+
+  async updateMerchant(organizationId: string, id: string, input: MerchantInput) {
+    const merchant = await this.getMerchant(organizationId, id);
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    const data: any = {};
+
+    if (input.tin !== undefined) {
+      data.tin = normalizeTin(input.tin);
+      await this.assertTinAvailable(organizationId, data.tin, id);
+    }
+
+    if (input.name !== undefined) {
+      if (!input.name?.trim()) {
+        throw new Error('Merchant name is required');
+      }
+      data.name = input.name.trim();
+    }
+
+    if (input.aliases !== undefined) data.aliases = input.aliases ?? [];
+    if (input.address !== undefined) data.address = input.address || null;
+    if (input.vatNumber !== undefined) data.vatNumber = input.vatNumber || null;
+
+    return this.prisma.merchant.update({ where: { id }, data });
+  }
+
+  // Receipts of a deleted merchant are unlinked, not deleted
+  async deleteMerchant(organizationId: string, id: string) {
+    const merchant = await this.getMerchant(organizationId, id);
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    await this.prisma.merchant.delete({ where: { id } });
+    return true;
+  }
+
+  // Fold merchants into one: receipts move over, names become aliases, and missing TIN,
+  // address and VAT number are taken from the merged merchants
+  async mergeMerchants(organizationId: string, keepId: string, mergeIds: string[]) {
+    const ids = [...new Set(mergeIds)].filter((id) => id !== keepId);
+    if (ids.length === 0) {
+      throw new Error('Select at least one merchant to merge');
+    }
+
+    const keep = await this.getMerchant(organizationId, keepId);
+    const merged = await this.prisma.merchant.findMany({
+      where: { id: { in: ids }, organizationId },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!keep || merged.length !== ids.length) {
+      throw new Error('Merchant not found');
+    }
+
+    const aliases = [...keep.aliases];
+    for (const name of merged.flatMap((merchant) => [merchant.name, ...merchant.aliases])) {
+      if (!this.knowsName({ name: keep.name, aliases }, name)) {
+        aliases.push(name);
+      }
+    }
+
+    // All or nothing: receipts must not end up moved to a merchant whose merge then failed
+    const [, , merchant] = await this.prisma.$transaction([
+      this.prisma.receipt.updateMany({
+        where: { merchantId: { in: ids } },
+        data: { merchantId: keepId },
+      }),
+      // Free the TINs before one of them moves to the kept merchant
+      this.prisma.merchant.deleteMany({ where: { id: { in: ids } } }),
+      this.prisma.merchant.update({
+        where: { id: keepId },
+        data: {
+          aliases,
+          tin: keep.tin ?? merged.find((merchant) => merchant.tin)?.tin ?? null,
+          address: keep.address ?? merged.find((merchant) => merchant.address)?.address ?? null,
+          vatNumber: keep.vatNumber ?? merged.find((merchant) => merchant.vatNumber)?.vatNumber ?? null,
+        },
+      }),
+    ]);
+
+    console.log(`[Merchant] Merged ${ids.length} merchants into ${keep.name}`);
+
+    return merchant;
+  }
+
+  private knowsName(merchant: { name: string; aliases: string[] }, name: string): boolean {
+    const normalized = normalizeMerchantName(name);
+    return [merchant.name, ...merchant.aliases].some((known) => normalizeMerchantName(known) === normalized);
+  }
+
+  private async assertTinAvailable(organizationId: string, tin: string | null, merchantId?: string) {
+    if (!tin) {
+      return;
+    }
+
+    const existing = await this.prisma.merchant.findUnique({ where: { organizationId_tin: { organizationId, tin } } });
+    if (existing && existing.id !== merchantId) {
+      throw new Error(`Merchant ${existing.name} already has TIN ${tin}`);
+    }
+  }
+}
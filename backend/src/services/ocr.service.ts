@@ -1,107 +1,343 @@
-import { createWorker } from 'tesseract.js';
-import * as fs from 'fs';
-import * as path from 'path';
+import { CalendarSystem, ethiopianToGregorian, looksLikeEthiopianDate } from '../utils/ethiopianCalendar';
+import {
+  PreprocessOptions,
+  PreprocessResult,
+  PreprocessService,
+  parsePreprocessOptions,
+  resolvePreprocessOptions,
+} from './preprocess.service';
+import { BoundingBox, OcrEngine, OcrEngineName, OcrLine, OcrWord, parseOcrEngineName } from './engines/ocr-engine';
+import { TesseractEngine, TesseractEngineOptions } from './engines/tesseract.engine';
+import { HttpEngine } from './engines/http.engine';
+import { ReceiptTemplateRecord, applyTemplate, matchTemplate } from './template.service';
+
+export { BoundingBox };
+
+export interface OCRServiceOptions {
+  engine?: OcrEngineName; // Default engine, overridable per job; OCR_ENGINE otherwise
+  languages?: string; // Tesseract languages, see TesseractEngineOptions
+  langPath?: string;
+  preprocessing?: PreprocessOptions | false; // Default preprocessing steps, overridable per job
+}
+
+// Below this mean recognition confidence a preprocessed image may be upside down
+const UPSIDE_DOWN_CONFIDENCE = 60;
+
+// Characters stripped from store and item names. Letters and combining marks of any
+// script are kept so Ge'ez (Ethiopic) names survive alongside Latin ones.
+const NAME_NOISE_PATTERN = /[^\p{L}\p{M}\p{N}\s&'.-]/gu;
+
+// Units of measure printed after an item quantity, mapped to their canonical form
+const UNIT_ALIASES: Record<string, string> = {
+  kg: 'kg',
+  kgs: 'kg',
+  g: 'g',
+  gm: 'g',
+  gr: 'g',
+  l: 'L',
+  lt: 'L',
+  ltr: 'L',
+  litre: 'L',
+  liter: 'L',
+  ml: 'ml',
+  pc: 'pcs',
+  pcs: 'pcs',
+  ea: 'pcs',
+  each: 'pcs',
+  pkt: 'pkt',
+  pack: 'pkt',
+};
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length).join('|');
+
+// Quantity column, optionally with a unit: "2", "1.500", "0.75kg", "3 pcs"
+const QUANTITY_COLUMN_PATTERN = new RegExp(`^(\\d{1,4}(?:\\.\\d{1,3})?)\\s*(${UNIT_PATTERN})?$`, 'i');
+
+// Describes how a single extracted value was found on the receipt. Stored as-is in the
+// extraction JSON columns, so it must stay a plain, JSON-serialisable type alias.
+export type FieldProvenance = {
+  strategy: string; // Which extraction strategy matched (e.g. 'tin-line', 'date-label')
+  confidence?: number; // Average Tesseract word confidence (0-100) of the source text
+  sourceLine?: string; // The OCR text line the value was taken from
+  bbox?: BoundingBox; // Bounding box of the source text on the image
+};
+
+export type SummaryLineType =
+  | 'VAT'
+  | 'TURNOVER_TAX'
+  | 'EXCISE_TAX'
+  | 'OTHER_TAX'
+  | 'SERVICE_CHARGE'
+  | 'DISCOUNT'
+  | 'ROUNDING';
+
+// Tax, charge and adjustment lines printed between the items and the grand total
+export interface ReceiptSummaryData {
+  subtotal?: number;
+  taxTotal?: number; // Sum of all tax lines (VAT, TOT, excise, other)
+  discountTotal?: number; // Sum of discounts, as a positive number
+  rounding?: number;
+  grandTotal?: number;
+  lines: Array<{
+    type: SummaryLineType;
+    label: string;
+    rate?: number; // Percentage, e.g. 15 for VAT 15%
+    amount: number; // Discounts are negative
+  }>;
+}
 
 export interface ExtractedData {
   storeName?: string;
-  purchaseDate?: Date;
+  purchaseDate?: Date; // Always Gregorian
+  purchaseDateRaw?: string; // Date exactly as printed on the receipt
+  purchaseDateCalendar?: CalendarSystem; // Calendar the printed date was written in
   totalAmount?: number;
+  tin?: string; // Seller TIN
+  fsNumber?: string; // Fiscal receipt number printed by the fiscal printer (FS No.)
+  mrc?: string; // Machine registration code of the fiscal printer
+  referenceNumber?: string; // Invoice or reference number of the shop's own system
+  cashier?: string; // Cashier or operator name
+  paymentMethod?: PaymentMethod;
   items: Array<{
     name: string;
-    quantity?: number;
+    quantity?: number; // May be fractional for weighed goods
+    unit?: string; // Canonical unit of measure: kg, g, L, ml, pcs, pkt
+    price?: number; // Unit price
+    amount?: number; // Line amount as printed (usually quantity * price)
+    provenance?: FieldProvenance;
   }>;
+  // Provenance of the receipt-level fields, keyed by field name
+  provenance: {
+    storeName?: FieldProvenance;
+    purchaseDate?: FieldProvenance;
+    totalAmount?: FieldProvenance;
+    tin?: FieldProvenance;
+    fsNumber?: FieldProvenance;
+    mrc?: FieldProvenance;
+    referenceNumber?: FieldProvenance;
+    cashier?: FieldProvenance;
+    paymentMethod?: FieldProvenance;
+  };
+  summary?: ReceiptSummaryData;
+  confidence?: number; // Lowest confidence of all extracted fields (least-confident first)
+  preprocessing?: PreprocessResult; // What was done to the image before recognition
+  textSource?: TextSource;
+  ocrEngine?: OcrEngineName; // Engine that recognized the text, unless it all came from a PDF text layer
+  templateId?: string; // Merchant layout template that overrode the generic heuristics
+}
+
+export type PaymentMethod = 'CASH' | 'CARD' | 'MOBILE_MONEY' | 'BANK_TRANSFER' | 'CHEQUE' | 'CREDIT' | 'OTHER';
+
+// Keywords of each payment method as printed on receipts. Checked in order, so "CREDIT CARD" is a card.
+const PAYMENT_METHOD_KEYWORDS: Array<{ method: PaymentMethod; pattern: RegExp }> = [
+  { method: 'MOBILE_MONEY', pattern: /TELE\s*BIRR|CBE\s*BIRR|M-?BIRR|M-?PESA|AMOLE|HELLO\s*CASH|MOBILE/i },
+  { method: 'CARD', pattern: /CARD|VISA|MASTER|POS\b|DEBIT/i },
+  { method: 'BANK_TRANSFER', pattern: /TRANSFER|BANK/i },
+  { method: 'CHEQUE', pattern: /CHEQUE|CHECK/i },
+  { method: 'CREDIT', pattern: /CREDIT/i },
+  { method: 'CASH', pattern: /CASH/i },
+];
+
+// Where the text of a receipt came from: Tesseract, or the text layer of a digital PDF
+export type TextSource = 'OCR' | 'PDF_TEXT';
+
+// Text of one image or PDF page before parsing, with engine-neutral word and line data
+export interface RecognizedText {
+  text: string;
+  words: OcrWord[];
+  lines: OcrLine[];
+  source: TextSource;
+  confidence?: number; // Mean recognition confidence of the page, 0-100; unset for PDF text layers
+  engine?: OcrEngineName; // Unset for PDF text layers
+  engineVersion?: string;
+  preprocessing?: PreprocessResult;
 }
 
 export class OCRService {
-  private worker: any = null;
-  private isInitializing: boolean = false;
-  private initPromise: Promise<void> | null = null;
+  private engines = new Map<OcrEngineName, OcrEngine>();
+  private defaultEngine: OcrEngineName;
+  private tesseractOptions: TesseractEngineOptions;
+  private preprocessing?: PreprocessOptions | false;
+  private preprocessService = new PreprocessService();
 
-  async initialize(): Promise<void> {
-    // If already initialized, return
-    if (this.worker) {
-      return;
-    }
+  constructor(options: OCRServiceOptions = {}) {
+    this.defaultEngine = options.engine || parseOcrEngineName(process.env.OCR_ENGINE) || 'tesseract';
+    this.tesseractOptions = { languages: options.languages, langPath: options.langPath };
+    this.preprocessing = options.preprocessing ?? parsePreprocessOptions(process.env.OCR_PREPROCESSING);
+  }
 
-    // If currently initializing, wait for that to complete
-    if (this.isInitializing && this.initPromise) {
-      return this.initPromise;
+  // Engines are created on first use, so the HTTP engine is only configured when needed
+  getEngine(name: OcrEngineName = this.defaultEngine): OcrEngine {
+    let engine = this.engines.get(name);
+    if (!engine) {
+      engine = name === 'http' ? new HttpEngine() : new TesseractEngine(this.tesseractOptions);
+      this.engines.set(name, engine);
     }
+    return engine;
+  }
 
-    // Start initialization
-    this.isInitializing = true;
-    this.initPromise = (async () => {
-      try {
-        this.worker = await createWorker('eng');
-      } catch (error) {
-        this.isInitializing = false;
-        this.initPromise = null;
-        throw new Error(`Failed to initialize OCR worker: ${error}`);
-      } finally {
-        this.isInitializing = false;
-      }
-    })();
-
-    return this.initPromise;
+  async extractText(imagePath: string, engineName?: OcrEngineName): Promise<string> {
+    const { text } = await this.getEngine(engineName).recognize(imagePath);
+    return text;
   }
 
-  async extractText(imagePath: string): Promise<string> {
-    await this.initialize();
-    
-    if (!this.worker) {
-      throw new Error('OCR worker not initialized');
+  // Run the preprocessing pipeline. Job options override the service defaults;
+  // `false` at either level skips it. Returns null if skipped or if it fails.
+  private async preprocess(imagePath: string, jobOptions?: PreprocessOptions | false): Promise<PreprocessResult | null> {
+    if (jobOptions === false || (jobOptions === undefined && this.preprocessing === false)) {
+      return null;
+    }
+
+    const options = resolvePreprocessOptions({ ...(this.preprocessing || {}), ...(jobOptions || {}) });
+    if (!options) {
+      return null;
     }
 
     try {
-      const { data: { text } } = await this.worker.recognize(imagePath);
-      return text;
+      return await this.preprocessService.process(imagePath, options);
     } catch (error) {
-      // If worker is in bad state, reset it
-      if (this.worker) {
-        try {
-          await this.worker.terminate();
-        } catch (e) {
-          // Ignore termination errors
-        }
-        this.worker = null;
+      // A bad preprocessing step should not lose the receipt; recognize the original instead
+      console.error('[OCR] Preprocessing failed, using original image:', error);
+      return null;
+    }
+  }
+
+  // Recognize an image without parsing it: text plus the engine's word and line data
+  async recognize(
+    imagePath: string,
+    preprocessing?: PreprocessOptions | false,
+    engineName?: OcrEngineName
+  ): Promise<RecognizedText> {
+    const engine = this.getEngine(engineName);
+    const preprocessed = await this.preprocess(imagePath, preprocessing);
+
+    let result = await engine.recognize(preprocessed?.outputPath || imagePath);
+
+    // Orientation detection only tells sideways from upright, not which way up.
+    // If the text barely reads, try the image turned around and keep the better result.
+    if (preprocessed?.options.autoRotate && result.confidence < UPSIDE_DOWN_CONFIDENCE) {
+      await this.preprocessService.rotate(preprocessed.outputPath, 180);
+      const rotated = await engine.recognize(preprocessed.outputPath);
+
+      if (rotated.confidence > result.confidence) {
+        console.log(`[OCR] Image was upside down (confidence ${result.confidence} -> ${rotated.confidence})`);
+        result = rotated;
+        preprocessed.rotation = (preprocessed.rotation + 180) % 360;
+        preprocessed.steps.push('rotate-180');
+      } else {
+        await this.preprocessService.rotate(preprocessed.outputPath, 180);
       }
-      throw new Error(`OCR text extraction failed: ${error}`);
     }
+
+    return {
+      text: result.text,
+      words: result.words,
+      lines: result.lines,
+      source: 'OCR',
+      confidence: result.confidence,
+      engine: engine.name,
+      engineVersion: engine.version,
+      preprocessing: preprocessed || undefined,
+    };
   }
 
-  async extractData(imagePath: string): Promise<ExtractedData> {
-    await this.initialize();
-    
-    if (!this.worker) {
-      throw new Error('OCR worker not initialized');
+  async extractData(
+    imagePath: string,
+    preprocessing?: PreprocessOptions | false,
+    engineName?: OcrEngineName,
+    templates: ReceiptTemplateRecord[] = []
+  ): Promise<ExtractedData> {
+    return this.parse([await this.recognize(imagePath, preprocessing, engineName)], templates);
+  }
+
+  // Parse one or more recognized pages as a single receipt. Pages are read top to bottom
+  // in order, so a multi-page invoice keeps its header on page 1 and totals on the last.
+  // A matching merchant template overrides what the generic heuristics found.
+  parse(pages: RecognizedText[], templates: ReceiptTemplateRecord[] = []): ExtractedData {
+    const text = pages.map((page) => page.text).join('\n');
+
+    // Use word-level data to better identify store name (bold text at top)
+    // and line-level data to record where each field was found. Only the first page's
+    // words are used: Y coordinates start over on every page, and the store name heads
+    // the first one.
+    const extracted = this.parseReceiptText(
+      text,
+      pages[0]?.words ?? [],
+      pages.flatMap((page) => page.lines)
+    );
+
+    if (templates.length > 0) {
+      this.applyTemplates(text, templates, extracted, pages.flatMap((page) => page.lines));
     }
 
-    try {
-      const { data } = await this.worker.recognize(imagePath);
-      const text = data.text;
-      console.log('text', text);
-      
-      // Use word-level data to better identify store name (bold text at top)
-      return this.parseReceiptText(text, data.words);
-    } catch (error) {
-      // If worker is in bad state, reset it
-      if (this.worker) {
-        try {
-          await this.worker.terminate();
-        } catch (e) {
-          // Ignore termination errors
-        }
-        this.worker = null;
-      }
-      throw new Error(`OCR data extraction failed: ${error}`);
+    extracted.textSource = pages.every((page) => page.source === 'PDF_TEXT') ? 'PDF_TEXT' : 'OCR';
+    extracted.ocrEngine = pages.find((page) => page.engine)?.engine;
+    const preprocessed = pages.find((page) => page.preprocessing)?.preprocessing;
+    if (preprocessed) {
+      extracted.preprocessing = preprocessed;
+    }
+    return extracted;
+  }
+
+  // Build provenance from a set of OCR words: average word confidence and the
+  // bounding box enclosing all of them
+  private provenanceFromWords(strategy: string, sourceLine: string, words: OcrWord[]): FieldProvenance {
+    const provenance: FieldProvenance = { strategy, sourceLine };
+    const scoredWords = words.filter((word: any) => typeof word.confidence === 'number');
+
+    if (scoredWords.length > 0) {
+      const sum = scoredWords.reduce((total: number, word: any) => total + word.confidence, 0);
+      provenance.confidence = Math.round((sum / scoredWords.length) * 100) / 100;
+    }
+
+    const boxes = words.map((word: any) => word.bbox).filter((bbox: any) => bbox && bbox.x0 !== undefined);
+    if (boxes.length > 0) {
+      provenance.bbox = {
+        x0: Math.min(...boxes.map((bbox: any) => bbox.x0)),
+        y0: Math.min(...boxes.map((bbox: any) => bbox.y0)),
+        x1: Math.max(...boxes.map((bbox: any) => bbox.x1)),
+        y1: Math.max(...boxes.map((bbox: any) => bbox.y1)),
+      };
+    }
+
+    return provenance;
+  }
+
+  // Find the Tesseract line a parsed text line came from and derive its provenance.
+  // Falls back to the line-level confidence/bbox if the line has no word data.
+  private provenanceFromLine(strategy: string, sourceLine: string, ocrLines?: OcrLine[]): FieldProvenance {
+    const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+    const target = normalize(sourceLine);
+
+    const candidates = Array.isArray(ocrLines) ? ocrLines : [];
+    const ocrLine =
+      candidates.find((line: any) => normalize(line.text || '') === target) ||
+      candidates.find((line: any) => {
+        const lineText = normalize(line.text || '');
+        return lineText.length > 0 && (lineText.includes(target) || target.includes(lineText));
+      });
+
+    if (!ocrLine) {
+      return { strategy, sourceLine };
     }
+
+    if (Array.isArray(ocrLine.words) && ocrLine.words.length > 0) {
+      return this.provenanceFromWords(strategy, sourceLine, ocrLine.words);
+    }
+
+    return {
+      strategy,
+      sourceLine,
+      confidence: typeof ocrLine.confidence === 'number' ? ocrLine.confidence : undefined,
+      bbox: ocrLine.bbox,
+    };
   }
 
-  private parseReceiptText(text: string, words?: any[]): ExtractedData {
+  private parseReceiptText(text: string, words?: OcrWord[], ocrLines?: OcrLine[]): ExtractedData {
     const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    
+
     const extracted: ExtractedData = {
       items: [],
+      provenance: {},
     };
 
     // Extract store name - prioritize line after TIN number
@@ -112,6 +348,7 @@ export class OCRService {
       /TIN\s+NUMBER[.:]?\s*:?\s*\d+/i,
       /TAX\s+ID[.:]?\s*:?\s*\d+/i,
       /TAX\s+IDENTIFICATION\s+NUMBER[.:]?\s*:?\s*\d+/i,
+      /የግብር\s*ከፋይ\s*(?:መለያ\s*)?ቁጥር\s*:?\s*\d+/, // Amharic: taxpayer identification number
     ];
 
     // First, try to find TIN number and get store name from next line
@@ -130,7 +367,8 @@ export class OCRService {
               !nextLine.match(/powered\s+by|thank\s+you|visit\s+us|website|www\.|http/i) &&
               !nextLine.match(/^\d+$/)
             ) {
-              extracted.storeName = nextLine.replace(/[^\w\s&'.-]/g, '').trim();
+              extracted.storeName = nextLine.replace(NAME_NOISE_PATTERN, '').trim();
+              extracted.provenance.storeName = this.provenanceFromLine('tin-line', nextLine, ocrLines);
               console.log('[OCR] Store Name extracted (TIN-based):', extracted.storeName);
               tinFound = true;
               break;
@@ -143,27 +381,12 @@ export class OCRService {
 
     // If TIN-based extraction didn't work, try word-level analysis for bold text at top
     if (!extracted.storeName && words && Array.isArray(words) && words.length > 0) {
-      // Helper functions to extract coordinates from different bbox structures
-      const getY = (word: any) => {
-        if (word.bbox?.y0 !== undefined) return word.bbox.y0;
-        if (word.bbox?.top !== undefined) return word.bbox.top;
-        if (word.bbox?.[1] !== undefined) return word.bbox[1];
-        return 0;
-      };
-      const getX = (word: any) => {
-        if (word.bbox?.x0 !== undefined) return word.bbox.x0;
-        if (word.bbox?.left !== undefined) return word.bbox.left;
-        if (word.bbox?.[0] !== undefined) return word.bbox[0];
-        return 0;
-      };
-      
+      const getY = (word: OcrWord) => word.bbox.y0;
+      const getX = (word: OcrWord) => word.bbox.x0;
+
       // Get words from the top portion of the receipt (first 20% of Y coordinates)
       const sortedWords = [...words]
-        .filter((word: any) => {
-          // Handle different possible data structures
-          const wordText = word.text || word.symbols?.[0]?.text || '';
-          return wordText && wordText.trim().length > 0;
-        })
+        .filter((word) => word.text && word.text.trim().length > 0)
         .sort((a: any, b: any) => {
           // Sort by Y coordinate (top to bottom), then by X (left to right)
           const aY = getY(a);
@@ -186,12 +409,14 @@ export class OCRService {
 
       // Group top words into lines
       const topLines: string[] = [];
+      const topLineWords: any[][] = [];
       let currentLine: string[] = [];
+      let currentLineWords: any[] = [];
       let lastY = -1;
 
       for (const word of topWords.slice(0, 20)) { // Check first 20 top words
         const wordY = getY(word);
-        const wordText = (word.text || word.symbols?.[0]?.text || '').trim();
+        const wordText = (word.text || '').trim();
         
         if (wordText.length === 0) continue;
 
@@ -199,16 +424,20 @@ export class OCRService {
         if (lastY >= 0 && Math.abs(wordY - lastY) > 15) {
           if (currentLine.length > 0) {
             topLines.push(currentLine.join(' '));
+            topLineWords.push(currentLineWords);
             currentLine = [];
+            currentLineWords = [];
           }
         }
         
         currentLine.push(wordText);
+        currentLineWords.push(word);
         lastY = wordY;
       }
       
       if (currentLine.length > 0) {
         topLines.push(currentLine.join(' '));
+        topLineWords.push(currentLineWords);
       }
 
       // Check for TIN in word-level data and get next line
@@ -224,7 +453,8 @@ export class OCRService {
                 !nextLine.match(/powered\s+by|thank\s+you|visit\s+us|website|www\.|http/i) &&
                 !nextLine.match(/^\d+$/)
               ) {
-                extracted.storeName = nextLine.replace(/[^\w\s&'.-]/g, '').trim();
+                extracted.storeName = nextLine.replace(NAME_NOISE_PATTERN, '').trim();
+                extracted.provenance.storeName = this.provenanceFromWords('tin-word-level', nextLine, topLineWords[i + 1] || []);
                 console.log('[OCR] Store Name extracted (word-level TIN-based):', extracted.storeName);
                 tinFound = true;
                 break;
@@ -258,7 +488,7 @@ export class OCRService {
 
           // Check if this line has words with high confidence (indicating bold/prominent text)
           const lineWords = topWords.filter((word: any) => {
-            const wordText = (word.text || word.symbols?.[0]?.text || '').trim();
+            const wordText = (word.text || '').trim();
             return line.includes(wordText);
           });
           const avgConfidence = lineWords.length > 0
@@ -267,7 +497,8 @@ export class OCRService {
 
           // Prioritize lines with higher confidence or reasonable length
           if (cleanLine.length >= 3 && cleanLine.length <= 60) {
-            extracted.storeName = cleanLine.replace(/[^\w\s&'.-]/g, '').trim();
+            extracted.storeName = cleanLine.replace(NAME_NOISE_PATTERN, '').trim();
+            extracted.provenance.storeName = this.provenanceFromWords('top-bold-words', cleanLine, lineWords);
             console.log('[OCR] Store Name extracted (word-level):', extracted.storeName, 'confidence:', avgConfidence.toFixed(2));
             // If we found a high-confidence line, use it; otherwise continue searching
             if (avgConfidence > 80 || topLines.indexOf(line) < 2) {
@@ -283,7 +514,8 @@ export class OCRService {
       const storeNamePattern = /(STORE|MARKET|RESTAURANT|SHOP|SUPERMARKET|GROCERY)/i;
       for (const line of lines.slice(0, 5)) {
         if (storeNamePattern.test(line) || (line.length > 5 && line.length < 50)) {
-          extracted.storeName = line.replace(/[^\w\s&'.-]/g, '').trim();
+          extracted.storeName = line.replace(NAME_NOISE_PATTERN, '').trim();
+          extracted.provenance.storeName = this.provenanceFromLine('header-line', line, ocrLines);
           console.log('[OCR] Store Name extracted (fallback):', extracted.storeName);
           break;
         }
@@ -301,24 +533,29 @@ export class OCRService {
     console.log('[OCR] Starting date extraction...');
     const datePatterns = [
       {
-        pattern: /DATE\s*:?\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})(?:\s+\d{1,2}\s*:\s*\d{1,2})?/i,
+        pattern: /(?:DATE|ቀን)\s*:?\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})(?:\s+\d{1,2}\s*:\s*\d{1,2})?/i,
         name: 'DATE: DD/MM/YYYY or DD-MM-YYYY (with optional time)',
+        strategy: 'date-label',
       },
       {
         pattern: /(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})(?:\s+\d{1,2}\s*:\s*\d{1,2})?/,
         name: 'DD/MM/YYYY or DD-MM-YYYY (with optional time)',
+        strategy: 'day-month-year',
       },
       {
         pattern: /(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})/,
         name: 'YYYY/MM/DD or YYYY-MM-DD',
+        strategy: 'year-month-day',
       },
       {
         pattern: /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[\s,]+(\d{1,2})[\s,]+(\d{2,4})/i,
         name: 'Month DD YYYY',
+        strategy: 'month-name-day-year',
       },
       {
         pattern: /(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[\s,]+(\d{2,4})/i,
         name: 'DD Month YYYY',
+        strategy: 'day-month-name-year',
       },
     ];
 
@@ -327,7 +564,7 @@ export class OCRService {
       console.log(`[OCR] Checking line ${lineIndex + 1} for date:`, line);
       
       for (let patternIndex = 0; patternIndex < datePatterns.length; patternIndex++) {
-        const { pattern, name } = datePatterns[patternIndex];
+        const { pattern, name, strategy } = datePatterns[patternIndex];
         const match = line.match(pattern);
         
         if (match) {
@@ -359,10 +596,11 @@ export class OCRService {
             
             // Try to parse the date
             let parsedDate: Date;
+            let calendar: CalendarSystem = 'GREGORIAN';
             
             // Handle different date formats
-            if (dateString.includes('/')) {
-              const parts = dateString.split('/');
+            if (dateString.includes('/') || /^\d{1,2}-\d{1,2}-\d{2,4}$/.test(dateString)) {
+              const parts = dateString.split(/[\/\-]/);
               if (parts.length === 3) {
                 let day = parts[0];
                 let month = parts[1];
@@ -377,9 +615,20 @@ export class OCRService {
                 
                 // Try DD/MM/YYYY format (most common for receipts)
                 if (day.length <= 2 && month.length <= 2) {
-                  const isoDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-                  parsedDate = new Date(isoDate);
-                  console.log('[OCR] Parsing as DD/MM/YYYY:', isoDate, '| Original:', dateString);
+                  const dayNum = parseInt(day);
+                  const monthNum = parseInt(month);
+                  const yearNum = parseInt(year);
+
+                  // Ethiopian calendar dates (13 months, year ~7-8 behind) are converted to Gregorian
+                  if (looksLikeEthiopianDate(dayNum, monthNum, yearNum, line)) {
+                    parsedDate = ethiopianToGregorian(yearNum, monthNum, dayNum);
+                    calendar = 'ETHIOPIAN';
+                    console.log('[OCR] Parsing as Ethiopian calendar DD/MM/YYYY:', dateString, '->', parsedDate.toISOString());
+                  } else {
+                    const isoDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+                    parsedDate = new Date(isoDate);
+                    console.log('[OCR] Parsing as DD/MM/YYYY:', isoDate, '| Original:', dateString);
+                  }
                 } else {
                   // YYYY/MM/DD
                   parsedDate = new Date(dateString.replace(/\//g, '-'));
@@ -405,6 +654,9 @@ export class OCRService {
               
               if (dateYear >= 2000 && dateYear <= currentYear + 1) {
                 extracted.purchaseDate = parsedDate;
+                extracted.purchaseDateRaw = dateString;
+                extracted.purchaseDateCalendar = calendar;
+                extracted.provenance.purchaseDate = this.provenanceFromLine(strategy, line, ocrLines);
                 console.log('[OCR] ✅ Date successfully extracted:', extracted.purchaseDate.toISOString(), '| Original:', dateString);
                 break;
               } else {
@@ -438,6 +690,7 @@ export class OCRService {
       /AMOUNT[:\s]*\$?(\d+\.?\d*)/i,
       /SUM[:\s]*\$?(\d+\.?\d*)/i,
       /TOTAL[:\s]*(\d+\.?\d*)/i,
+      /(?:ጠቅላላ|ድምር)[:\s]*(?:ብር)?\s*(\d+\.?\d*)/, // Amharic: total / sum (optionally followed by "birr")
     ];
 
     // Create a reversed copy to avoid mutating the original array
@@ -447,6 +700,7 @@ export class OCRService {
         const match = line.match(pattern);
         if (match && match[1]) {
           extracted.totalAmount = parseFloat(match[1]);
+          extracted.provenance.totalAmount = this.provenanceFromLine('total-keyword-reversed', line, ocrLines);
           console.log('[OCR] Total Amount extracted (pattern match):', extracted.totalAmount, 'from line:', line);
           break;
         }
@@ -457,6 +711,7 @@ export class OCRService {
         const amount = parseFloat(numberMatch[1]);
         if (amount > 0 && amount < 100000) {
           extracted.totalAmount = amount;
+          extracted.provenance.totalAmount = this.provenanceFromLine('standalone-amount-reversed', line, ocrLines);
           console.log('[OCR] Total Amount extracted (standalone number):', extracted.totalAmount, 'from line:', line);
         }
       }
@@ -509,12 +764,12 @@ export class OCRService {
         // Note: Don't stop on just "AMOUNT" as it might be part of item data
         // Stop on lines that start with TOTAL, SUBTOTAL, TAX, etc.
         if (
-          line.match(/^(TOTAL|SUBTOTAL|TAX|GRAND\s+TOTAL|SUM|CASH|ITEM#)/i) ||
+          line.match(/^(TOTAL|SUBTOTAL|TAX|GRAND\s+TOTAL|SUM|CASH|ITEM#|VAT|SERVICE\s+CHARGE|ROUNDING)/i) ||
           line.match(/^\s*[-=_]+\s*$/) || // Separator lines
           line.match(/powered\s+by/i) || // Powered by sections
           line.match(/thank\s+you/i) || // Thank you messages (usually at end)
           line.match(/visit\s+us/i) || // Visit us messages (usually at end)
-          (line.match(/SUBTOTAL|TXBL|TAX\d+|CASH|ITEM#/i) && !line.match(/^\w+\s+\d/)) // Summary lines that aren't items
+          (line.match(/SUBTOTAL|TXBL|TAX\d+|CASH|ITEM#/i) && !line.match(/^[\p{L}\p{N}_]+\s+\d/u)) // Summary lines that aren't items
         ) {
           break;
         }
@@ -524,6 +779,11 @@ export class OCRService {
           continue;
         }
 
+        // Discounts can be printed under an item; they belong to the summary, not the item list
+        if (line.match(/^(DISCOUNT|DISC\.?)\b/i)) {
+          continue;
+        }
+
         // Aggressively filter out non-item lines (addresses, phone numbers, metadata, etc.)
         const lowerLine = line.toLowerCase();
         if (
@@ -541,7 +801,7 @@ export class OCRService {
           lowerLine.match(/^ref\s*:|^operator\s*:|^waiter\s*:|^table\s*:/i) ||
           lowerLine.match(/ref:\s*[a-z]+\-\d+/i) ||
           // Skip FS No, ERCA, etc.
-          lowerLine.match(/^fs\s*no|^erca|^cash\s+invoice/i) ||
+          lowerLine.match(/^fs\s*no|^erca|^mrc|^cashier|^cash\s+invoice/i) ||
           // Skip lines that are mostly numbers or special characters
           line.match(/^[=\-_\s]+$/) ||
           // Skip lines that look like separators
@@ -556,25 +816,44 @@ export class OCRService {
         let itemName = '';
         let quantity: number | undefined;
         let price: number | undefined;
+        let amount: number | undefined;
+        let unit: string | undefined;
+        let itemStrategy = 'item-line-scan';
         
         // Strategy 1: Try regex pattern matching first (works even with single spaces)
-        // Pattern: ItemName Quantity Price (e.g., "NOLIN COFFEE 2 19.76")
-        const itemPatternWithQty = /^(.+?)\s+(\d{1,3})\s+(\d+\.\d{2}|\d+\.\d+|\d+)/;
+        // Pattern: ItemName Quantity [Unit] [x] Price [Amount]
+        // (e.g., "NOLIN COFFEE 2 19.76", "TEFF 1.500 kg 60.00 90.00", "WATER 2 x 15.00 *30.00")
+        const itemPatternWithQty = new RegExp(
+          `^(.+?)\\s+(\\d{1,4}(?:\\.\\d{1,3})?)\\s*(${UNIT_PATTERN})?\\s*(?:[x@]\\s*)?\\s+\\*?(\\d+\\.\\d{2}|\\d+\\.\\d+|\\d+)(?:\\s+\\*?(\\d+\\.\\d{2}|\\d+\\.\\d+))?`,
+          'i'
+        );
         let match = line.match(itemPatternWithQty);
         
         if (match) {
           const extractedName = match[1].trim();
-          const extractedQty = parseInt(match[2]);
-          const extractedPrice = parseFloat(match[3]);
+          const extractedQty = parseFloat(match[2]);
+          const extractedUnit = match[3] ? UNIT_ALIASES[match[3].toLowerCase()] : undefined;
+          const extractedPrice = parseFloat(match[4]);
+          const extractedAmount = match[5] ? parseFloat(match[5]) : undefined;
+
+          // "12.50" without a unit is more likely a price than a quantity, unless qty * price = amount
+          const qtyDecimals = match[2].split('.')[1]?.length || 0;
+          const plausibleQty =
+            qtyDecimals !== 2 ||
+            extractedUnit !== undefined ||
+            (extractedAmount !== undefined && Math.abs(extractedQty * extractedPrice - extractedAmount) <= 0.05);
           
           // Validate extracted values
-          if (extractedName.length >= 3 && 
-              extractedQty >= 1 && extractedQty <= 999 && 
+          if (extractedName.length >= 3 && plausibleQty &&
+              extractedQty > 0 && extractedQty <= 9999 && 
               extractedPrice > 0 && extractedPrice < 1000000) {
             itemName = extractedName;
             quantity = extractedQty;
+            unit = extractedUnit;
             price = extractedPrice;
-            console.log('[OCR] Parsed via regex (with qty):', itemName, '| Qty:', quantity, '| Price:', price);
+            amount = extractedAmount;
+            itemStrategy = 'item-regex';
+            console.log('[OCR] Parsed via regex (with qty):', itemName, '| Qty:', quantity, unit || '', '| Price:', price, '| Amount:', amount ?? 'N/A');
           }
         }
         
@@ -583,6 +862,7 @@ export class OCRService {
           const parts = line.split(/\s{2,}|\t+/).filter(p => p.trim().length > 0);
           
           if (parts.length >= 2) {
+            itemStrategy = 'item-columns';
             // Find price/amount (last numeric value with decimal, prioritize decimals)
             let priceIndex = -1;
             let priceValue: number | undefined;
@@ -600,15 +880,26 @@ export class OCRService {
               }
             }
             
+            // "Qty Price Amount" columns: the last decimal is the line amount, the one before it the unit price
+            if (priceIndex > 2 && priceValue !== undefined && price === priceValue && amount === undefined) {
+              const unitPriceMatch = parts[priceIndex - 1].match(/^\*?(\d+\.\d{2})$/);
+              if (unitPriceMatch && QUANTITY_COLUMN_PATTERN.test(parts[priceIndex - 2])) {
+                amount = priceValue;
+                price = parseFloat(unitPriceMatch[1]);
+                priceIndex = priceIndex - 1;
+              }
+            }
+            
             // Find quantity - it's usually the column before price
             if (priceIndex > 0 && !quantity) {
               // Check the column immediately before price
               const qtyBeforePrice = parts[priceIndex - 1];
-              const qtyMatch = qtyBeforePrice.match(/^(\d{1,3})$/);
+              const qtyMatch = qtyBeforePrice.match(QUANTITY_COLUMN_PATTERN);
               if (qtyMatch) {
-                const qtyValue = parseInt(qtyMatch[1]);
-                if (qtyValue >= 1 && qtyValue <= 999) {
+                const qtyValue = parseFloat(qtyMatch[1]);
+                if (qtyValue > 0 && qtyValue <= 9999) {
                   quantity = qtyValue;
+                  unit = qtyMatch[2] ? UNIT_ALIASES[qtyMatch[2].toLowerCase()] : undefined;
                 }
               }
             }
@@ -616,11 +907,12 @@ export class OCRService {
             // If quantity not found yet, search for it in other columns (before price)
             if (!quantity && priceIndex > 1) {
               for (let i = priceIndex - 1; i >= 1; i--) {
-                const qtyMatch = parts[i].match(/^(\d{1,3})$/);
+                const qtyMatch = parts[i].match(QUANTITY_COLUMN_PATTERN);
                 if (qtyMatch) {
-                  const qtyValue = parseInt(qtyMatch[1]);
-                  if (qtyValue >= 1 && qtyValue <= 999 && (!price || qtyValue !== price)) {
+                  const qtyValue = parseFloat(qtyMatch[1]);
+                  if (qtyValue > 0 && qtyValue <= 9999 && (!price || qtyValue !== price)) {
                     quantity = qtyValue;
+                    unit = qtyMatch[2] ? UNIT_ALIASES[qtyMatch[2].toLowerCase()] : undefined;
                     break;
                   }
                 }
@@ -632,8 +924,8 @@ export class OCRService {
               let qtyColIndex = -1;
               if (quantity && priceIndex > 0) {
                 for (let i = 1; i < priceIndex; i++) {
-                  const qtyMatch = parts[i].match(/^(\d{1,3})$/);
-                  if (qtyMatch && parseInt(qtyMatch[1]) === quantity) {
+                  const qtyMatch = parts[i].match(QUANTITY_COLUMN_PATTERN);
+                  if (qtyMatch && parseFloat(qtyMatch[1]) === quantity) {
                     qtyColIndex = i;
                     break;
                   }
@@ -705,7 +997,7 @@ export class OCRService {
         }
         
         // Final validation: Ensure quantity is reasonable if found
-        if (quantity && (quantity < 1 || quantity > 999)) {
+        if (quantity && (quantity <= 0 || quantity > 9999)) {
           console.log('[OCR] Invalid quantity ignored:', quantity, 'for item:', itemName);
           quantity = undefined; // Invalid quantity, ignore it
         }
@@ -718,7 +1010,7 @@ export class OCRService {
 
         // Log extracted values before validation
         if (itemName && itemName.length >= 3) {
-          console.log('[OCR] Item extracted - Name:', itemName, '| Quantity:', quantity || 'N/A', '| Price:', price || 'N/A');
+          console.log('[OCR] Item extracted - Name:', itemName, '| Quantity:', quantity || 'N/A', unit || '', '| Price:', price || 'N/A', '| Amount:', amount ?? 'N/A');
         }
 
         // CRITICAL: Only add items that have a price/amount (real items have prices)
@@ -729,15 +1021,19 @@ export class OCRService {
           if (
             !cleanItemName.match(/description|qty|oty|price|total|amount|sum|tax|subtotal/i) &&
             !cleanItemName.match(/powered\s+by|thank\s+you|visit\s+us|website|www\.|http/i) &&
-            !cleanItemName.match(/tin|tel|phone|date|ref|operator|waiter|table|fs\s*no|erca/i) &&
+            !cleanItemName.match(/tin|tel|phone|date|ref|operator|waiter|table|fs\s*no|erca|mrc|cashier/i) &&
             !cleanItemName.match(/h\.no|address|street|subcity|woreda/i) &&
             !cleanItemName.match(/^\d+$/) && // Not just a number
             !cleanItemName.match(/^[=\-_\s]+$/) // Not just separators
           ) {
-            const finalItemName = itemName.replace(/[^\w\s&'.-]/g, ' ').trim();
+            const finalItemName = itemName.replace(NAME_NOISE_PATTERN, ' ').trim();
             extracted.items.push({
               name: finalItemName,
               quantity,
+              unit,
+              price,
+              amount,
+              provenance: this.provenanceFromLine(itemStrategy, line, ocrLines),
             });
             console.log('[OCR] Item added - Name:', finalItemName, '| Quantity:', quantity || 'N/A');
           } else {
@@ -761,7 +1057,7 @@ export class OCRService {
         if (
           line.match(/TOTAL|AMOUNT|SUM|DATE|STORE|TAX|SUB|DESCRIPTION|QTY|OTY|PRICE/i) ||
           line.match(/powered\s+by|thank\s+you|visit\s+us|website|www\.|http/i) ||
-          lowerLine.match(/tin|tel|phone|ref|operator|waiter|table|fs\s*no|erca/i) ||
+          lowerLine.match(/tin|tel|phone|ref|operator|waiter|table|fs\s*no|erca|mrc|cashier/i) ||
           lowerLine.match(/h\.no|address|street|subcity|woreda|city\s+mall/i) ||
           lowerLine.match(/^date\s*:?\s*\d|^\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/) ||
           line.match(/^[=\-_\s]+$/) ||
@@ -786,13 +1082,15 @@ export class OCRService {
             name.length < 80 &&
             price && price > 0 &&
             !cleanName.match(/powered\s+by|thank\s+you|visit\s+us|website|www\.|http/i) &&
-            !cleanName.match(/tin|tel|phone|date|ref|operator|waiter|table|fs\s*no|erca/i) &&
+            !cleanName.match(/tin|tel|phone|date|ref|operator|waiter|table|fs\s*no|erca|mrc|cashier/i) &&
             !cleanName.match(/h\.no|address|street|subcity|woreda/i) &&
             !cleanName.match(/^\d+$/)
           ) {
             extracted.items.push({
               name,
               quantity,
+              price,
+              provenance: this.provenanceFromLine('item-no-header', line, ocrLines),
             });
             console.log('[OCR] Fallback item added - Name:', name, '| Quantity:', quantity || 'N/A');
           } else {
@@ -802,34 +1100,263 @@ export class OCRService {
       }
     }
 
+    // Extract the fiscal identifiers auditors check a receipt against: seller TIN, FS number,
+    // MRC, reference number, cashier and payment method
+    this.parseIdentifiers(lines, extracted, ocrLines);
+
+    // Extract subtotal, taxes, service charge, discounts and rounding
+    extracted.summary = this.parseSummary(lines);
+
+    // A TOTAL line in the summary block beats a guessed standalone amount (which is often the CASH line)
+    const grandTotal = extracted.summary?.grandTotal;
+    if (
+      grandTotal !== undefined &&
+      grandTotal > 0 &&
+      (!extracted.totalAmount || extracted.provenance.totalAmount?.strategy === 'standalone-amount-reversed')
+    ) {
+      extracted.totalAmount = grandTotal;
+      const totalLine = [...lines].reverse().find((line) => /^(GRAND\s+)?TOTAL\b/i.test(line));
+      extracted.provenance.totalAmount = this.provenanceFromLine('summary-total-line', totalLine || '', ocrLines);
+      console.log('[OCR] Total Amount taken from summary block:', grandTotal);
+    }
+
+    this.updateConfidence(extracted);
+
     // Final summary log
     console.log('[OCR] ===== Extraction Summary =====');
     console.log('[OCR] Store Name:', extracted.storeName || 'Not found');
     console.log('[OCR] Purchase Date:', extracted.purchaseDate || 'Not found');
     console.log('[OCR] Total Amount:', extracted.totalAmount || 'Not found');
+    console.log('[OCR] TIN:', extracted.tin || 'Not found', '| FS No:', extracted.fsNumber || 'Not found', '| MRC:', extracted.mrc || 'Not found');
+    console.log('[OCR] Ref:', extracted.referenceNumber || 'Not found', '| Cashier:', extracted.cashier || 'Not found', '| Payment:', extracted.paymentMethod || 'Not found');
     console.log('[OCR] Items Count:', extracted.items.length);
+    console.log('[OCR] Confidence:', extracted.confidence ?? 'N/A');
     extracted.items.forEach((item, index) => {
-      console.log(`[OCR] Item ${index + 1}:`, item.name, '| Quantity:', item.quantity || 'N/A');
+      console.log(`[OCR] Item ${index + 1}:`, item.name, '| Quantity:', item.quantity || 'N/A', item.unit || '', '| Price:', item.price ?? 'N/A', '| Amount:', item.amount ?? 'N/A');
     });
     console.log('[OCR] ===============================');
 
     return extracted;
   }
 
-  async terminate() {
-    if (this.worker) {
-      try {
-        await this.worker.terminate();
-      } catch (error) {
-        console.error('Error terminating OCR worker:', error);
-      } finally {
-        this.worker = null;
-        this.isInitializing = false;
-        this.initPromise = null;
+  // Overall confidence is the weakest field, so reviewers can work least-confident receipts first
+  private updateConfidence(extracted: ExtractedData) {
+    const confidences = [
+      extracted.provenance.storeName?.confidence,
+      extracted.provenance.purchaseDate?.confidence,
+      extracted.provenance.totalAmount?.confidence,
+      ...extracted.items.map((item) => item.provenance?.confidence),
+    ].filter((confidence): confidence is number => typeof confidence === 'number');
+    extracted.confidence = confidences.length > 0 ? Math.min(...confidences) : undefined;
+  }
+
+  // Override fields and items with what the merchant's template reads. Fields the template
+  // does not declare, or does not find on this receipt, keep the generic result; items are
+  // only replaced when the template found at least one.
+  private applyTemplates(text: string, templates: ReceiptTemplateRecord[], extracted: ExtractedData, ocrLines?: OcrLine[]) {
+    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    const match = matchTemplate(templates, lines, extracted.tin);
+    if (!match) {
+      return;
+    }
+
+    const { template } = match;
+    const result = applyTemplate(template.definition, lines);
+    const strategy = `template:${template.name}`;
+    console.log(`[OCR] Applying template "${template.name}" (matched by ${match.matchedBy})`);
+
+    for (const found of result.fields) {
+      if (found.field === 'purchaseDate') {
+        extracted.purchaseDate = found.value as Date;
+        extracted.purchaseDateRaw = found.raw;
+        extracted.purchaseDateCalendar = found.purchaseDateCalendar;
+      } else {
+        (extracted as any)[found.field] = found.value;
       }
+      // Fixed values were not read from the image
+      extracted.provenance[found.field] = found.sourceLine
+        ? this.provenanceFromLine(strategy, found.sourceLine, ocrLines)
+        : { strategy };
+    }
+
+    if (result.items.length > 0) {
+      extracted.items = result.items.map(({ sourceLine, ...item }) => ({
+        ...item,
+        provenance: this.provenanceFromLine(strategy, sourceLine, ocrLines),
+      }));
+    }
+
+    if (result.missingFields.length > 0) {
+      console.log(`[OCR] Template "${template.name}" did not find: ${result.missingFields.join(', ')}`);
+    }
+
+    extracted.templateId = template.id;
+    this.updateConfidence(extracted);
   }
+
+  // Find the fiscal identifiers of an Ethiopian fiscal printer receipt:
+  //   TIN: 0001234567        seller TIN (the buyer's TIN, printed on some invoices, is skipped)
+  //   FS No. 00001234        fiscal receipt number
+  //   Ref: CS-12345          invoice/reference number of the shop's system
+  //   Cashier: Abebe         cashier or operator
+  //   CASH *200.00           payment method, in the block after the total
+  //   MRC: ABC1234567        machine registration code, usually at the bottom
+  private parseIdentifiers(lines: string[], extracted: ExtractedData, ocrLines?: OcrLine[]) {
+    for (const line of lines) {
+      if (!extracted.tin && !/BUYER|CUSTOMER|CLIENT/i.test(line)) {
+        const tinMatch = line.match(/\bTIN\s*(?:NO|NUMBER)?[.:#\-\s]*(\d{9,13})\b/i);
+        if (tinMatch) {
+          extracted.tin = tinMatch[1];
+          extracted.provenance.tin = this.provenanceFromLine('tin-line', line, ocrLines);
+          console.log('[OCR] TIN extracted:', extracted.tin);
+        }
+      }
+
+      if (!extracted.fsNumber) {
+        const fsMatch = line.match(/\bFS\s*(?:NO|NUMBER|#)?[.:#\-\s]*(\d{3,12})\b/i);
+        if (fsMatch) {
+          extracted.fsNumber = fsMatch[1];
+          extracted.provenance.fsNumber = this.provenanceFromLine('fs-number-line', line, ocrLines);
+          console.log('[OCR] FS No extracted:', extracted.fsNumber);
+        }
+      }
+
+      if (!extracted.mrc) {
+        const mrcMatch = line.match(/\bMRC\s*(?:NO|NUMBER|#)?[.:#\-\s]*([A-Z]{2,4}\s?\d{6,10})\b/i);
+        if (mrcMatch) {
+          extracted.mrc = mrcMatch[1].replace(/\s/g, '').toUpperCase();
+          extracted.provenance.mrc = this.provenanceFromLine('mrc-line', line, ocrLines);
+          console.log('[OCR] MRC extracted:', extracted.mrc);
+        }
+      }
+
+      // "CASH INVOICE" is a heading, so the number must contain a digit
+      if (!extracted.referenceNumber) {
+        const refMatch = line.match(/\b(?:REF(?:ERENCE)?|INVOICE|INV|RECEIPT)\s*(?:NO|NUMBER|#)?[.:#\-\s]+([A-Z0-9][A-Z0-9\-\/]{2,24})\b/i);
+        if (refMatch && /\d/.test(refMatch[1]) && !/^FS\b/i.test(line)) {
+          extracted.referenceNumber = refMatch[1].toUpperCase();
+          extracted.provenance.referenceNumber = this.provenanceFromLine('reference-line', line, ocrLines);
+          console.log('[OCR] Reference No extracted:', extracted.referenceNumber);
+        }
+      }
+
+      if (!extracted.cashier) {
+        const cashierMatch = line.match(/\b(?:CASHIER|OPERATOR|SERVED\s+BY|SALES\s*PERSON)\s*(?:NAME)?\s*[:\-]\s*(.+)$/i);
+        // Stop at a column gap, e.g. "Cashier: Abebe    Time 14:30"
+        const cashier = cashierMatch?.[1].split(/\s{2,}/)[0].trim();
+        if (cashier && /\p{L}/u.test(cashier)) {
+          extracted.cashier = cashier;
+          extracted.provenance.cashier = this.provenanceFromLine('cashier-line', line, ocrLines);
+          console.log('[OCR] Cashier extracted:', extracted.cashier);
+        }
+      }
+    }
+
+    // Payment method: an explicit "Payment: ..." line, or a tender line with an amount
+    // ("CASH *200.00", "TELEBIRR 115.00"). Read bottom-up, where the tender block is.
+    for (const line of [...lines].reverse()) {
+      const explicit = line.match(/^(?:PAYMENT\s*(?:METHOD|TYPE|MODE)?|PAID\s+BY|PAY\s*MODE|TENDER)\s*[:\-]?\s*(.+)$/i);
+      const tender = /^[A-Z\s-]{3,20}[*:]?\s*\*?\d[\d,]*\.\d{2}$/i.test(line) && !/TOTAL|TAX|CHANGE|BALANCE|DUE/i.test(line);
+      if (!explicit && !tender) {
+        continue;
+      }
+
+      const text = explicit ? explicit[1] : line;
+      const method = PAYMENT_METHOD_KEYWORDS.find((keyword) => keyword.pattern.test(text))?.method;
+      if (method || explicit) {
+        extracted.paymentMethod = method || 'OTHER';
+        extracted.provenance.paymentMethod = this.provenanceFromLine('payment-line', line, ocrLines);
+        console.log('[OCR] Payment method extracted:', extracted.paymentMethod);
+        break;
+      }
+    }
   }
-}
 
+  // Parse the summary block of a receipt. Ethiopian fiscal receipts print it as e.g.
+  //   TXBL1      *100.00
+  //   TAX1 15.00% *15.00
+  //   TOTAL      *115.00
+  // Returns undefined if no summary lines were found.
+  private parseSummary(lines: string[]): ReceiptSummaryData | undefined {
+    const summary: ReceiptSummaryData = { lines: [] };
+
+    // Order matters: the first matching rule wins for a line
+    const lineRules: Array<{ type: SummaryLineType | 'SUBTOTAL' | 'GRAND_TOTAL'; pattern: RegExp }> = [
+      { type: 'SUBTOTAL', pattern: /^(SUB\s*-?\s*TOTAL|TXBL\d*|TAXABLE(\s+AMOUNT)?|NET\s+AMOUNT)\b/i },
+      { type: 'TURNOVER_TAX', pattern: /^(TOT\b|TURN\s*OVER\s+TAX)/i },
+      { type: 'VAT', pattern: /^(VAT|TAX\d*|ተ\.?እ\.?ታ)\b/i },
+      { type: 'EXCISE_TAX', pattern: /^EXCISE/i },
+      { type: 'SERVICE_CHARGE', pattern: /^(SERVICE(\s+CHARGE)?|S\.?\s?C\.?\s*\d)/i },
+      { type: 'DISCOUNT', pattern: /^(DISCOUNT|DISC\.?)\b/i },
+      { type: 'ROUNDING', pattern: /^(ROUNDING|ROUND(ED)?(\s+OFF)?)\b/i },
+      { type: 'GRAND_TOTAL', pattern: /^(GRAND\s+)?TOTAL\b/i },
+    ];
+
+    for (const line of lines) {
+      const rule = lineRules.find(({ pattern }) => pattern.test(line));
+      if (!rule) continue;
+
+      // Amount is the last number on the line (fiscal printers prefix amounts with '*')
+      const amounts = line.match(/-?\*?-?\d[\d,]*\.\d{1,2}/g);
+      if (!amounts) continue;
+      const rawAmount = amounts[amounts.length - 1];
+      let amount = parseFloat(rawAmount.replace(/[*,]/g, ''));
+      if (isNaN(amount)) continue;
+
+      const rateMatch = line.match(/(\d+(?:\.\d+)?)\s*%/);
+      const rate = rateMatch ? parseFloat(rateMatch[1]) : undefined;
+      // A percentage printed on the line is not the amount
+      if (rateMatch && amounts.length === 1 && rawAmount.replace(/[*,-]/g, '') === rateMatch[1]) continue;
+
+      const label = line.replace(/\s{2,}/g, ' ').trim();
+
+      switch (rule.type) {
+        case 'SUBTOTAL':
+          // Keep the first subtotal; TXBL lines for several tax groups are added up
+          summary.subtotal = /^TXBL/i.test(line) ? (summary.subtotal || 0) + amount : summary.subtotal ?? amount;
+          break;
+        case 'GRAND_TOTAL':
+          // The last TOTAL line is the grand total
+          summary.grandTotal = amount;
+          break;
+        case 'DISCOUNT':
+          amount = -Math.abs(amount);
+          summary.lines.push({ type: rule.type, label, rate, amount });
+          break;
+        default:
+          summary.lines.push({ type: rule.type, label, rate, amount });
+      }
+
+      console.log('[OCR] Summary line:', rule.type, '| Amount:', amount, '| Rate:', rate ?? 'N/A', '| Line:', line);
+    }
+
+    if (summary.lines.length === 0 && summary.subtotal === undefined && summary.grandTotal === undefined) {
+      return undefined;
+    }
+
+    const taxTypes: SummaryLineType[] = ['VAT', 'TURNOVER_TAX', 'EXCISE_TAX', 'OTHER_TAX'];
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const taxLines = summary.lines.filter((line) => taxTypes.includes(line.type));
+    const discountLines = summary.lines.filter((line) => line.type === 'DISCOUNT');
+    const roundingLines = summary.lines.filter((line) => line.type === 'ROUNDING');
 
+    if (taxLines.length > 0) {
+      summary.taxTotal = round(taxLines.reduce((sum, line) => sum + line.amount, 0));
+    }
+    if (discountLines.length > 0) {
+      summary.discountTotal = round(Math.abs(discountLines.reduce((sum, line) => sum + line.amount, 0)));
+    }
+    if (roundingLines.length > 0) {
+      summary.rounding = round(roundingLines.reduce((sum, line) => sum + line.amount, 0));
+    }
+
+    return summary;
+  }
 
+  async terminate() {
+    for (const engine of this.engines.values()) {
+      await engine.terminate();
+    }
+    this.engines.clear();
+  }
+}
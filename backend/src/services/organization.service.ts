@@ -0,0 +1,98 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuthService, UserInput } from './auth.service';
+import { CategoryService } from './category.service';
+
+export interface OrganizationInput {
+  name?: string;
+  slug?: string;
+  ocrLanguages?: string | null;
+  currency?: string;
+}
+
+// Tesseract language codes joined with '+', e.g. 'amh+eng'
+const OCR_LANGUAGES_PATTERN = /^[a-z_]+(\+[a-z_]+)*$/;
+
+function validateOrganizationInput(input: OrganizationInput) {
+  if (input.slug != null && !/^[a-z0-9][a-z0-9-]*$/.test(input.slug)) {
+    throw new Error('Slug may only contain lowercase letters, digits and dashes');
+  }
+  if (input.ocrLanguages && !OCR_LANGUAGES_PATTERN.test(input.ocrLanguages)) {
+    throw new Error(`Invalid OCR languages: ${input.ocrLanguages}; expected codes joined with +, e.g. amh+eng`);
+  }
+  if (input.currency != null && !/^[A-Z]{3}$/.test(input.currency)) {
+    throw new Error(`Invalid currency: ${input.currency}; expected an ISO 4217 code such as ETB`);
+  }
+}
+
+export class OrganizationService {
+  constructor(private prisma: PrismaClient) {}
+
+  async listOrganizations() {
+    return this.prisma.organization.findMany({ orderBy: { name: 'asc' } });
+  }
+
+  async getOrganization(id: string) {
+    return this.prisma.organization.findUnique({ where: { id } });
+  }
+
+  // A new tenant together with its first admin, who manages everything else in it
+  async createOrganization(input: OrganizationInput, admin: UserInput) {
+    if (!input.name?.trim() || !input.slug) {
+      throw new Error('Organization name and slug are required');
+    }
+    validateOrganizationInput(input);
+
+    if (await this.prisma.organization.findUnique({ where: { slug: input.slug } })) {
+      throw new Error(`An organization with slug ${input.slug} already exists`);
+    }
+
+    const organization = await this.prisma.organization.create({
+      data: {
+        name: input.name.trim(),
+        slug: input.slug,
+        ocrLanguages: input.ocrLanguages || null,
+        currency: input.currency ?? 'ETB',
+      },
+    });
+
+    try {
+      await new AuthService(this.prisma).createUser({ ...admin, organizationId: organization.id, role: 'ADMIN' });
+    } catch (error) {
+      // No tenant without someone to manage it
+      await this.prisma.organization.delete({ where: { id: organization.id } });
+      throw error;
+    }
+    await new CategoryService(this.prisma).createDefaultCategories(organization.id);
+
+    console.log(`[Organization] Created organization ${organization.slug}`);
+    return organization;
+  }
+
+  // Settings apply to uploads from now on; existing receipts keep their currency
+  async updateOrganization(id: string, input: OrganizationInput) {
+    const organization = await this.prisma.organization.findUnique({ where: { id } });
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+    validateOrganizationInput(input);
+
+    const data: Prisma.OrganizationUpdateInput = {};
+
+    if (input.name !== undefined && input.name !== null) {
+      if (!input.name.trim()) {
+        throw new Error('Organization name is required');
+      }
+      data.name = input.name.trim();
+    }
+    if (input.slug !== undefined && input.slug !== null && input.slug !== organization.slug) {
+      if (await this.prisma.organization.findUnique({ where: { slug: input.slug } })) {
+        throw new Error(`An organization with slug ${input.slug} already exists`);
+      }
+      data.slug = input.slug;
+    }
+    if (input.ocrLanguages !== undefined) data.ocrLanguages = input.ocrLanguages || null;
+    if (input.currency !== undefined && input.currency !== null) data.currency = input.currency;
+
+    return this.prisma.organization.update({ where: { id }, data });
+  }
+}
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import { createCanvas, DOMMatrix, Path2D } from '@napi-rs/canvas';
+import { RecognizedText } from './ocr.service';
+
+// pdf.js needs DOMMatrix and Path2D on the global object in Node. Provide them from
+// @napi-rs/canvas before it loads, so it does not try the optional native `canvas` package.
+if (!(globalThis as any).DOMMatrix) {
+  (globalThis as any).DOMMatrix = DOMMatrix;
+}
+if (!(globalThis as any).Path2D) {
+  (globalThis as any).Path2D = Path2D;
+}
+const pdfjs: typeof import('pdfjs-dist/legacy/build/pdf') = require('pdfjs-dist/legacy/build/pdf.js');
+
+// How a multi-page PDF becomes receipts: one receipt for the whole document, or one per page
+export type PdfMode = 'document' | 'pages';
+
+export interface PdfPage {
+  pageNumber: number; // 1-based
+  text?: RecognizedText; // Set when the page has a usable text layer
+  imagePath?: string; // Rendered page image, set when the page needs OCR
+}
+
+// Pages with less embedded text than this are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Render scanned pages at the resolution Tesseract works best with
+const RASTER_DPI = 300;
+
+// Guard against huge uploads tying up the worker
+const MAX_PDF_PAGES = 50;
+
+// Directory with the standard PDF fonts shipped with pdf.js, for rendering unembedded fonts
+const STANDARD_FONT_DATA_URL = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+// Canvas factory so pdf.js draws onto @napi-rs/canvas instead of node-canvas
+const canvasFactory = {
+  create(width: number, height: number) {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset(entry: any, width: number, height: number) {
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  },
+  destroy(entry: any) {
+    entry.canvas.width = 0;
+    entry.canvas.height = 0;
+    entry.canvas = null;
+    entry.context = null;
+  },
+};
+
+export function isPdf(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(5);
+    fs.readSync(fd, header, 0, 5, 0);
+    return header.toString('latin1') === '%PDF-';
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function parsePdfMode(value: unknown): PdfMode | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (value === 'document' || value === 'pages') {
+    return value;
+  }
+  throw new Error('Invalid pdfMode: expected "document" or "pages"');
+}
+
+// Path of a rendered page: uploads/123.pdf -> uploads/123.page-2.png
+export function pdfPageImagePath(pdfPath: string, pageNumber: number): string {
+  const parsed = path.parse(pdfPath);
+  return path.join(parsed.dir, `${parsed.name}.page-${pageNumber}.png`);
+}
+
+export class PdfService {
+  // Read every page of a PDF: the text layer where there is one, a rendered image otherwise
+  async extractPages(pdfPath: string): Promise<PdfPage[]> {
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(fs.readFileSync(pdfPath)),
+      isEvalSupported: false,
+      standardFontDataUrl: STANDARD_FONT_DATA_URL,
+      canvasFactory,
+      verbosity: 0,
+    } as any).promise;
+
+    try {
+      if (document.numPages > MAX_PDF_PAGES) {
+        throw new Error(`PDF has ${document.numPages} pages; at most ${MAX_PDF_PAGES} are supported`);
+      }
+
+      const pages: PdfPage[] = [];
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const text = await this.readTextLayer(page);
+
+        if (text.text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+          console.log(`[PDF] Page ${pageNumber}: using embedded text layer`);
+          pages.push({ pageNumber, text });
+        } else {
+          console.log(`[PDF] Page ${pageNumber}: no text layer, rendering for OCR`);
+          pages.push({ pageNumber, imagePath: await this.renderPage(page, pdfPath, pageNumber) });
+        }
+
+        page.cleanup();
+      }
+
+      return pages;
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  // Rebuild text lines from positioned text items, in the engine-neutral word/line shape
+  // OCR engines return, so the receipt parser can use it unchanged. Bounding boxes are in PDF points from the
+  // top-left corner; confidence is 100 since the text is exact.
+  private async readTextLayer(page: any): Promise<RecognizedText> {
+    const pageHeight = page.getViewport({ scale: 1 }).height;
+    const content = await page.getTextContent();
+
+    const items = content.items
+      .filter((item: any) => typeof item.str === 'string' && item.str.trim().length > 0)
+      .map((item: any) => {
+        const height = item.height || Math.abs(item.transform[3]) || 10;
+        const x = item.transform[4];
+        const baseline = pageHeight - item.transform[5];
+        return { str: item.str as string, x0: x, x1: x + item.width, y0: baseline - height, y1: baseline, height };
+      })
+      .sort((a: any, b: any) => a.y1 - b.y1 || a.x0 - b.x0);
+
+    // Group items sharing a baseline into lines
+    const groups: Array<typeof items> = [];
+    for (const item of items) {
+      const current = groups[groups.length - 1];
+      if (current && Math.abs(current[0].y1 - item.y1) <= item.height * 0.5) {
+        current.push(item);
+      } else {
+        groups.push([item]);
+      }
+    }
+
+    const lines = groups.map((group) => {
+      group.sort((a: any, b: any) => a.x0 - b.x0);
+
+      // Keep visible column gaps as two or more spaces, which the item parser splits on
+      let text = '';
+      group.forEach((item: any, index: number) => {
+        if (index > 0) {
+          const previous = group[index - 1];
+          const charWidth = (previous.x1 - previous.x0) / Math.max(previous.str.length, 1);
+          const gap = item.x0 - previous.x1;
+          if (gap > charWidth * 1.5) text += '  ';
+          else if (gap > charWidth * 0.2) text += ' ';
+        }
+        text += item.str;
+      });
+
+      const words = group.flatMap((item: any) => {
+        const charWidth = (item.x1 - item.x0) / Math.max(item.str.length, 1);
+        return Array.from(item.str.matchAll(/\S+/g) as Iterable<RegExpMatchArray>).map((match) => ({
+          text: match[0],
+          confidence: 100,
+          bbox: {
+            x0: item.x0 + (match.index || 0) * charWidth,
+            y0: item.y0,
+            x1: item.x0 + ((match.index || 0) + match[0].length) * charWidth,
+            y1: item.y1,
+          },
+        }));
+      });
+
+      return {
+        text,
+        confidence: 100,
+        words,
+        bbox: {
+          x0: Math.min(...group.map((item: any) => item.x0)),
+          y0: Math.min(...group.map((item: any) => item.y0)),
+          x1: Math.max(...group.map((item: any) => item.x1)),
+          y1: Math.max(...group.map((item: any) => item.y1)),
+        },
+      };
+    });
+
+    return {
+      text: lines.map((line) => line.text).join('\n'),
+      words: lines.flatMap((line) => line.words),
+      lines,
+      source: 'PDF_TEXT',
+    };
+  }
+
+  // Render a page to PNG next to the PDF
+  private async renderPage(page: any, pdfPath: string, pageNumber: number): Promise<string> {
+    const viewport = page.getViewport({ scale: RASTER_DPI / 72 });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = canvas.getContext('2d');
+
+    // Scans can have transparent areas; OCR wants white paper
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({ canvasContext: context, viewport, canvasFactory }).promise;
+
+    const outputPath = pdfPageImagePath(pdfPath, pageNumber);
+    fs.writeFileSync(outputPath, await canvas.encode('png'));
+    return outputPath;
+  }
+}
@@ -0,0 +1,428 @@
+import sharp from 'sharp';
+import path from 'path';
+
+// Steps of the preprocessing pipeline. Each can be switched off per job.
+export type PreprocessOptions = {
+  grayscale?: boolean;
+  threshold?: boolean; // Adaptive (local mean) binarization
+  deskew?: boolean;
+  autoRotate?: boolean; // EXIF orientation and 90/180-degree photos
+  crop?: boolean; // Crop to the receipt boundary
+  upscale?: boolean; // Enlarge narrow images so characters are tall enough for Tesseract
+};
+
+export const DEFAULT_PREPROCESS_OPTIONS: Required<PreprocessOptions> = {
+  grayscale: true,
+  threshold: true,
+  deskew: true,
+  autoRotate: true,
+  crop: true,
+  upscale: true,
+};
+
+// Everything but outputPath is saved on the receipt as JSON, hence type aliases here
+export type PreprocessResult = {
+  outputPath: string; // Processed image, stored next to the original
+  options: Required<PreprocessOptions>; // Steps that were enabled for this image
+  steps: string[]; // Steps actually applied, in order
+  rotation: number; // Quarter turns applied to make the image upright (0, 90, 180, 270)
+  skewAngle: number; // Degrees of deskew correction
+  crop?: { left: number; top: number; width: number; height: number };
+  scale: number; // Upscaling factor, 1 if not upscaled
+  width: number;
+  height: number;
+};
+
+// Analysis (crop, orientation, skew) runs on a downscaled copy; results are scaled back up
+const ANALYSIS_WIDTH = 800;
+
+// Thermal receipts are ~80mm wide; this width gives Tesseract roughly 300 DPI
+const TARGET_WIDTH = 1200;
+const OUTPUT_DPI = 300;
+const MAX_UPSCALE = 3;
+
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+
+interface GrayImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Merge per-job options over the defaults. Accepts `false` to disable preprocessing entirely.
+export function resolvePreprocessOptions(options?: PreprocessOptions | false | null): Required<PreprocessOptions> | null {
+  if (options === false) {
+    return null;
+  }
+  return { ...DEFAULT_PREPROCESS_OPTIONS, ...(options || {}) };
+}
+
+// Parse preprocessing options from an upload form field.
+// Accepts "false"/"none" to disable, or a JSON object such as {"threshold": false}.
+export function parsePreprocessOptions(value: unknown): PreprocessOptions | false | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'object') {
+    return value as PreprocessOptions;
+  }
+
+  const text = String(value).trim();
+  if (/^(false|none|off)$/i.test(text)) {
+    return false;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid preprocessing options: expected JSON, e.g. {"deskew": false}');
+  }
+
+  if (parsed === false) {
+    return false;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Invalid preprocessing options: expected a JSON object');
+  }
+
+  const options: PreprocessOptions = {};
+  for (const key of Object.keys(DEFAULT_PREPROCESS_OPTIONS) as Array<keyof PreprocessOptions>) {
+    if (parsed[key] !== undefined) {
+      options[key] = Boolean(parsed[key]);
+    }
+  }
+  return options;
+}
+
+// Path of the processed copy of an image: uploads/123.jpg -> uploads/123.processed.png
+export function processedImagePath(imagePath: string): string {
+  const parsed = path.parse(imagePath);
+  return path.join(parsed.dir, `${parsed.name}.processed.png`);
+}
+
+// Otsu's method: the threshold that best separates dark (ink) and light (paper) pixels
+function otsuThreshold(data: Buffer): number {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i++) {
+    histogram[data[i]]++;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) {
+    sum += i * histogram[i];
+  }
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestThreshold = 128;
+  let bestVariance = 0;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = data.length - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = t;
+    }
+  }
+
+  return bestThreshold;
+}
+
+// Longest run of indexes whose ratio is above the limit
+function longestSpan(ratios: number[], limit: number): [number, number] | null {
+  let best: [number, number] | null = null;
+  let start = -1;
+
+  for (let i = 0; i <= ratios.length; i++) {
+    if (i < ratios.length && ratios[i] > limit) {
+      if (start === -1) start = i;
+    } else if (start !== -1) {
+      if (!best || i - 1 - start > best[1] - best[0]) {
+        best = [start, i - 1];
+      }
+      start = -1;
+    }
+  }
+
+  return best;
+}
+
+export class PreprocessService {
+  // Run the enabled steps on an image and write the result next to the original
+  async process(imagePath: string, options: Required<PreprocessOptions>): Promise<PreprocessResult> {
+    const steps: string[] = [];
+    let rotation = 0;
+    let skewAngle = 0;
+    let crop: PreprocessResult['crop'];
+    let scale = 1;
+
+    // Keep the working image as PNG between steps so no quality is lost
+    let image = await sharp(imagePath).png().toBuffer();
+
+    if (options.autoRotate) {
+      // Apply the EXIF orientation set by the phone camera
+      const metadata = await sharp(imagePath).metadata();
+      if (metadata.orientation && metadata.orientation > 1) {
+        image = await sharp(imagePath).rotate().png().toBuffer();
+        steps.push('exif-orientation');
+      }
+    }
+
+    if (options.grayscale || options.threshold) {
+      image = await sharp(image).grayscale().png().toBuffer();
+      steps.push('grayscale');
+    }
+
+    if (options.crop) {
+      const bounds = await this.findReceiptBounds(image);
+      if (bounds) {
+        image = await sharp(image).extract(bounds).png().toBuffer();
+        crop = bounds;
+        steps.push('crop');
+      }
+    }
+
+    if (options.deskew) {
+      const angle = await this.detectSkew(image);
+      if (Math.abs(angle) >= SKEW_STEP_DEGREES) {
+        image = await sharp(image)
+          .rotate(-angle, { background: { r: 255, g: 255, b: 255, alpha: 1 } })
+          .png()
+          .toBuffer();
+        skewAngle = angle;
+        steps.push('deskew');
+      }
+    }
+
+    if (options.autoRotate && (await this.isSideways(image))) {
+      // Text lines run vertically. Turn a quarter; an upside-down result is caught by the OCR
+      // service, which retries at 180 degrees when recognition confidence is low.
+      // Checked after deskewing, since a tilt blurs the gaps between lines.
+      image = await sharp(image).rotate(90).png().toBuffer();
+      rotation = 90;
+      steps.push('rotate-90');
+    }
+
+    if (options.upscale) {
+      const { width } = await sharp(image).metadata();
+      if (width && width < TARGET_WIDTH) {
+        scale = Math.min(TARGET_WIDTH / width, MAX_UPSCALE);
+        image = await sharp(image)
+          .resize({ width: Math.round(width * scale), kernel: 'lanczos3' })
+          .png()
+          .toBuffer();
+        steps.push('upscale');
+      }
+    }
+
+    if (options.threshold) {
+      image = await this.adaptiveThreshold(image);
+      steps.push('threshold');
+    }
+
+    const outputPath = processedImagePath(imagePath);
+    // Tesseract reads the DPI from the file and guesses badly without it
+    const info = await sharp(image).withMetadata({ density: OUTPUT_DPI }).toFile(outputPath);
+
+    console.log(`[Preprocess] ${path.basename(imagePath)}: ${steps.join(', ') || 'no changes'}`);
+
+    return {
+      outputPath,
+      options,
+      steps,
+      rotation,
+      skewAngle,
+      crop,
+      scale,
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  // Turn an already processed image by a multiple of 90 degrees, in place
+  async rotate(imagePath: string, degrees: number): Promise<void> {
+    const image = await sharp(imagePath).rotate(degrees).png().toBuffer();
+    await sharp(image).withMetadata({ density: OUTPUT_DPI }).toFile(imagePath);
+  }
+
+  private async toGray(image: Buffer, width: number = ANALYSIS_WIDTH): Promise<GrayImage> {
+    const { data, info } = await sharp(image)
+      .grayscale()
+      .resize({ width, withoutEnlargement: true })
+      .toColourspace('b-w')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  }
+
+  // Receipts are lighter than the table they are photographed on. Find the largest bright
+  // block: first the rows, then the columns within those rows, then the rows again.
+  private async findReceiptBounds(image: Buffer): Promise<PreprocessResult['crop'] | null> {
+    const { width: fullWidth, height: fullHeight } = await sharp(image).metadata();
+    if (!fullWidth || !fullHeight) {
+      return null;
+    }
+
+    const gray = await this.toGray(image);
+    const threshold = otsuThreshold(gray.data);
+    const isBright = (x: number, y: number) => gray.data[y * gray.width + x] > threshold;
+
+    const rowRatios = (x0: number, x1: number) => {
+      const ratios: number[] = [];
+      for (let y = 0; y < gray.height; y++) {
+        let bright = 0;
+        for (let x = x0; x <= x1; x++) if (isBright(x, y)) bright++;
+        ratios.push(bright / (x1 - x0 + 1));
+      }
+      return ratios;
+    };
+    const columnRatios = (y0: number, y1: number) => {
+      const ratios: number[] = [];
+      for (let x = 0; x < gray.width; x++) {
+        let bright = 0;
+        for (let y = y0; y <= y1; y++) if (isBright(x, y)) bright++;
+        ratios.push(bright / (y1 - y0 + 1));
+      }
+      return ratios;
+    };
+
+    let rows = longestSpan(rowRatios(0, gray.width - 1), 0.5);
+    if (!rows) return null;
+    const columns = longestSpan(columnRatios(rows[0], rows[1]), 0.5);
+    if (!columns) return null;
+    rows = longestSpan(rowRatios(columns[0], columns[1]), 0.5);
+    if (!rows) return null;
+
+    const cropWidth = columns[1] - columns[0] + 1;
+    const cropHeight = rows[1] - rows[0] + 1;
+
+    // Nothing to crop, or the "receipt" is too small to be trusted
+    if (cropWidth * cropHeight > 0.95 * gray.width * gray.height) return null;
+    if (cropWidth < 0.2 * gray.width || cropHeight < 0.2 * gray.height) return null;
+
+    const ratio = fullWidth / gray.width;
+    const left = Math.max(0, Math.floor(columns[0] * ratio));
+    const top = Math.max(0, Math.floor(rows[0] * ratio));
+    return {
+      left,
+      top,
+      width: Math.min(fullWidth - left, Math.ceil(cropWidth * ratio)),
+      height: Math.min(fullHeight - top, Math.ceil(cropHeight * ratio)),
+    };
+  }
+
+  // Dark pixels (ink) of the analysis image as coordinates
+  private darkPixels(gray: GrayImage): Array<[number, number]> {
+    const threshold = otsuThreshold(gray.data);
+    const pixels: Array<[number, number]> = [];
+    for (let y = 0; y < gray.height; y++) {
+      for (let x = 0; x < gray.width; x++) {
+        if (gray.data[y * gray.width + x] <= threshold) {
+          pixels.push([x, y]);
+        }
+      }
+    }
+    return pixels;
+  }
+
+  // Horizontal text leaves empty rows between lines but few empty columns. If the columns
+  // have clearly more gaps than the rows, the text runs vertically and the photo is sideways.
+  private async isSideways(image: Buffer): Promise<boolean> {
+    const gray = await this.toGray(image);
+
+    // Ignore the outer margin, where background left over from cropping tends to sit
+    const marginX = Math.floor(gray.width * 0.05);
+    const marginY = Math.floor(gray.height * 0.05);
+    const pixels = this.darkPixels(gray).filter(
+      ([x, y]) => x >= marginX && x < gray.width - marginX && y >= marginY && y < gray.height - marginY
+    );
+    if (pixels.length === 0) {
+      return false;
+    }
+
+    const rows = new Array(gray.height).fill(0);
+    const columns = new Array(gray.width).fill(0);
+    for (const [x, y] of pixels) {
+      rows[y]++;
+      columns[x]++;
+    }
+
+    // Share of near-empty bins between the first and last inked bin
+    const gapShare = (profile: number[]) => {
+      const peak = Math.max(...profile);
+      const first = profile.findIndex((count) => count > 0);
+      const last = profile.length - 1 - [...profile].reverse().findIndex((count) => count > 0);
+      const extent = profile.slice(first, last + 1);
+      return extent.filter((count) => count <= peak * 0.05).length / extent.length;
+    };
+
+    return gapShare(columns) > 1.5 * gapShare(rows);
+  }
+
+  // Projection-profile deskew: the angle at which text lines project onto the fewest,
+  // sharpest rows. Positive angles mean lines slope down to the right.
+  private async detectSkew(image: Buffer): Promise<number> {
+    const gray = await this.toGray(image);
+    const pixels = this.darkPixels(gray);
+    if (pixels.length === 0) {
+      return 0;
+    }
+
+    const height = gray.height + gray.width; // Room for rotated rows on either side
+    let bestAngle = 0;
+    let bestScore = -1;
+
+    for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+      const radians = (angle * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const profile = new Array(height * 2).fill(0);
+
+      for (const [x, y] of pixels) {
+        profile[Math.round(y * cos - x * sin) + height]++;
+      }
+
+      let score = 0;
+      for (let i = 1; i < profile.length; i++) {
+        score += (profile[i] - profile[i - 1]) ** 2;
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+
+    return bestAngle;
+  }
+
+  // Local mean thresholding: a pixel is ink if it is clearly darker than its neighbourhood.
+  // Handles shadows and uneven lighting that a single global threshold cannot.
+  private async adaptiveThreshold(image: Buffer): Promise<Buffer> {
+    const { data, info } = await sharp(image).toColourspace('b-w').raw().toBuffer({ resolveWithObject: true });
+    const raw = { raw: { width: info.width, height: info.height, channels: info.channels } };
+
+    // Neighbourhood of roughly 1/20 of the image width
+    const sigma = Math.max(2, info.width / 40);
+    const blurred = await sharp(data, raw).blur(sigma).raw().toBuffer();
+
+    // Ink must be at least 15% darker than its surroundings
+    const output = Buffer.alloc(data.length);
+    for (let i = 0; i < data.length; i++) {
+      output[i] = data[i] < blurred[i] * 0.85 ? 0 : 255;
+    }
+
+    return sharp(output, raw).png().toBuffer();
+  }
+}
@@ -0,0 +1,445 @@
+import { PaymentMethod, Prisma, PrismaClient, ReceiptStatus } from '@prisma/client';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Sort fields callers may choose, and the receipt columns behind them
+export const RECEIPT_SORT_FIELDS = {
+  PURCHASE_DATE: 'purchaseDate',
+  CREATED_AT: 'createdAt',
+  UPDATED_AT: 'updatedAt',
+  TOTAL_AMOUNT: 'totalAmount',
+  STORE_NAME: 'storeName',
+  CONFIDENCE: 'confidence',
+} as const;
+export type ReceiptSortField = keyof typeof RECEIPT_SORT_FIELDS;
+export type SortDirection = 'ASC' | 'DESC';
+
+type SortColumn = (typeof RECEIPT_SORT_FIELDS)[ReceiptSortField] | 'id';
+
+// Cursors carry dates as strings; these are turned back into dates
+const DATE_COLUMNS: SortColumn[] = ['purchaseDate', 'createdAt', 'updatedAt'];
+const REQUIRED_COLUMNS: SortColumn[] = ['createdAt', 'updatedAt', 'id'];
+
+export interface ReceiptFilter {
+  storeName?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  hasPurchaseDate?: boolean | null; // Receipts with (true) or without (false) a purchase date
+  minTotal?: number | null;
+  maxTotal?: number | null;
+  itemName?: string | null; // Any item whose name contains it
+  categoryId?: string | null; // Any item in the category or one of its subcategories
+  status?: ReceiptStatus | null;
+  merchantId?: string | null;
+  ownerId?: string | null; // Uploaded by
+  tin?: string | null;
+  fsNumber?: string | null;
+  mrc?: string | null;
+  referenceNumber?: string | null;
+  cashier?: string | null;
+  paymentMethod?: PaymentMethod | null;
+}
+
+export interface ReceiptSort {
+  field: ReceiptSortField;
+  direction?: SortDirection | null;
+}
+
+export interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+// One column of an ordering. nulls is left out for columns that are never null.
+interface SortKey {
+  column: SortColumn;
+  direction: 'asc' | 'desc';
+  nulls?: 'first' | 'last';
+}
+
+// What forEachReceiptBatch loads with each receipt
+const RECEIPT_DETAILS = {
+  merchant: true,
+  items: { include: { category: true }, orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.ReceiptInclude;
+
+export type ReceiptWithDetails = Prisma.ReceiptGetPayload<{ include: typeof RECEIPT_DETAILS }>;
+
+// Bad filter, sort or pagination arguments; answered with 400 / BAD_USER_INPUT
+export class ReceiptQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReceiptQueryError';
+  }
+}
+
+// The receipts query's original orderings, kept as they were
+const LEGACY_ORDERINGS: Record<string, SortKey[]> = {
+  PURCHASE_DATE_DESC: [
+    { column: 'purchaseDate', direction: 'desc', nulls: 'first' }, // Most recent purchase date first
+    { column: 'createdAt', direction: 'desc' }, // Fallback to creation date if purchaseDate is null
+  ],
+  CONFIDENCE_ASC: [
+    { column: 'confidence', direction: 'asc', nulls: 'first' }, // Least-confident (or unscored) receipts first
+    { column: 'createdAt', direction: 'asc' }, // Oldest first within the same confidence
+  ],
+};
+
+export function parseFilterDate(value: string, name: string) {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ReceiptQueryError(`Invalid ${name}: ${value}`);
+  }
+  return date;
+}
+
+// Keys of the chosen sort fields, ending with the id so every receipt has its own place in
+// the order, which cursors rely on. Receipts without a value come last.
+function sortKeys(sort?: ReceiptSort[] | null, orderBy?: string | null): SortKey[] {
+  let keys: SortKey[];
+  if (sort && sort.length > 0) {
+    keys = sort.map((entry) => {
+      const column = RECEIPT_SORT_FIELDS[entry.field];
+      if (!column) {
+        throw new ReceiptQueryError(
+          `Unknown sort field: ${entry.field}; expected one of ${Object.keys(RECEIPT_SORT_FIELDS).join(', ')}`
+        );
+      }
+      const direction = entry.direction === 'ASC' ? 'asc' : 'desc';
+      return REQUIRED_COLUMNS.includes(column) ? { column, direction } : { column, direction, nulls: 'last' };
+    });
+  } else {
+    keys = LEGACY_ORDERINGS[orderBy || 'PURCHASE_DATE_DESC'];
+    if (!keys) {
+      throw new ReceiptQueryError(`Unknown ordering: ${orderBy}`);
+    }
+  }
+  return [...keys, { column: 'id', direction: 'asc' }];
+}
+
+function toOrderBy(keys: SortKey[]): Prisma.ReceiptOrderByWithRelationInput[] {
+  return keys.map((key) => ({
+    [key.column]: key.nulls ? { sort: key.direction, nulls: key.nulls } : key.direction,
+  }));
+}
+
+// The same order backwards, for paging with last/before
+function reverseKeys(keys: SortKey[]): SortKey[] {
+  return keys.map((key) => ({
+    column: key.column,
+    direction: key.direction === 'asc' ? 'desc' : 'asc',
+    nulls: key.nulls && (key.nulls === 'first' ? 'last' : 'first'),
+  }));
+}
+
+function encodeCursor(keys: SortKey[], receipt: any) {
+  const values = keys.map((key) => (receipt[key.column] instanceof Date ? receipt[key.column].toISOString() : receipt[key.column]));
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(keys: SortKey[], cursor: string): any[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new ReceiptQueryError('Invalid cursor');
+  }
+  // A cursor is only valid for the sort it was made with
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    throw new ReceiptQueryError('Invalid cursor for this sort');
+  }
+  return values.map((value, index) =>
+    value !== null && DATE_COLUMNS.includes(keys[index].column) ? parseFilterDate(String(value), 'cursor') : value
+  );
+}
+
+// Receipts after the cursor's in the order of the keys: for some key, all keys before it
+// are equal to the cursor's and it comes after the cursor's value
+function afterCursor(keys: SortKey[], values: any[]): Prisma.ReceiptWhereInput {
+  const conditions: Prisma.ReceiptWhereInput[] = [];
+
+  keys.forEach((key, index) => {
+    const value = values[index];
+    let after: Prisma.ReceiptWhereInput | null;
+    if (value === null) {
+      // Only values come after null when nulls are first, nothing when they are last
+      after = key.nulls === 'first' ? { [key.column]: { not: null } } : null;
+    } else {
+      const beyond = { [key.column]: { [key.direction === 'asc' ? 'gt' : 'lt']: value } };
+      after = key.nulls === 'last' ? { OR: [beyond, { [key.column]: null }] } : beyond;
+    }
+
+    if (after) {
+      const equal = keys.slice(0, index).map((previous, i) => ({ [previous.column]: values[i] }));
+      conditions.push({ AND: [...equal, after] });
+    }
+  });
+
+  return { OR: conditions };
+}
+
+function parseNumber(value: unknown, name: string) {
+  const number = Number(value);
+  if (value === '' || isNaN(number)) {
+    throw new ReceiptQueryError(`Invalid ${name}: expected a number`);
+  }
+  return number;
+}
+
+// Filter, sort and page of a REST query string, with the names of the GraphQL arguments:
+//   ?status=NEEDS_REVIEW&minTotal=100&sort=TOTAL_AMOUNT:ASC,CREATED_AT&first=50&after=<cursor>
+// The sort direction defaults to DESC.
+export function parseReceiptListQuery(query: Record<string, unknown>) {
+  const text = (name: string) => (typeof query[name] === 'string' && query[name] !== '' ? (query[name] as string) : undefined);
+  const number = (name: string) => (text(name) === undefined ? undefined : parseNumber(text(name), name));
+
+  const filter: ReceiptFilter = {};
+  const textFields = [
+    'storeName', 'startDate', 'endDate', 'itemName', 'categoryId', 'merchantId', 'ownerId',
+    'tin', 'fsNumber', 'mrc', 'referenceNumber', 'cashier',
+  ] as const;
+  for (const name of textFields) {
+    filter[name] = text(name);
+  }
+  filter.minTotal = number('minTotal');
+  filter.maxTotal = number('maxTotal');
+
+  const hasPurchaseDate = text('hasPurchaseDate');
+  if (hasPurchaseDate !== undefined) {
+    if (hasPurchaseDate !== 'true' && hasPurchaseDate !== 'false') {
+      throw new ReceiptQueryError('Invalid hasPurchaseDate: expected true or false');
+    }
+    filter.hasPurchaseDate = hasPurchaseDate === 'true';
+  }
+
+  const status = text('status')?.toUpperCase();
+  if (status !== undefined) {
+    if (!(Object.values(ReceiptStatus) as string[]).includes(status)) {
+      throw new ReceiptQueryError(`Invalid status: expected one of ${Object.values(ReceiptStatus).join(', ')}`);
+    }
+    filter.status = status as ReceiptStatus;
+  }
+
+  const paymentMethod = text('paymentMethod')?.toUpperCase();
+  if (paymentMethod !== undefined) {
+    if (!(Object.values(PaymentMethod) as string[]).includes(paymentMethod)) {
+      throw new ReceiptQueryError(`Invalid paymentMethod: expected one of ${Object.values(PaymentMethod).join(', ')}`);
+    }
+    filter.paymentMethod = paymentMethod as PaymentMethod;
+  }
+
+  const sort = (text('sort') || '')
+    .split(',')
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const [field, direction = 'DESC'] = entry.trim().toUpperCase().split(':');
+      if (direction !== 'ASC' && direction !== 'DESC') {
+        throw new ReceiptQueryError(`Invalid sort direction: ${direction}; expected ASC or DESC`);
+      }
+      return { field: field as ReceiptSortField, direction: direction as SortDirection };
+    });
+
+  const page: PageArgs = {
+    first: number('first'),
+    after: text('after'),
+    last: number('last'),
+    before: text('before'),
+  };
+
+  return { filter, sort, page };
+}
+
+export class ReceiptService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Conditions for a filter; combine with the caller's receiptScope
+  buildWhere(filter?: ReceiptFilter | null): Prisma.ReceiptWhereInput {
+    const where: any = {};
+    if (!filter) {
+      return where;
+    }
+
+    if (filter.storeName) {
+      where.storeName = {
+        contains: filter.storeName,
+        mode: 'insensitive',
+      };
+    }
+
+    if (filter.hasPurchaseDate === false) {
+      if (filter.startDate || filter.endDate) {
+        throw new ReceiptQueryError('A date range cannot be combined with hasPurchaseDate: false');
+      }
+      where.purchaseDate = null;
+    } else if (filter.startDate || filter.endDate || filter.hasPurchaseDate) {
+      where.purchaseDate = { not: null };
+      if (filter.startDate) {
+        where.purchaseDate.gte = parseFilterDate(filter.startDate, 'start date');
+      }
+      if (filter.endDate) {
+        where.purchaseDate.lte = parseFilterDate(filter.endDate, 'end date');
+      }
+    }
+
+    if (filter.minTotal != null || filter.maxTotal != null) {
+      where.totalAmount = {};
+      if (filter.minTotal != null) {
+        where.totalAmount.gte = filter.minTotal;
+      }
+      if (filter.maxTotal != null) {
+        where.totalAmount.lte = filter.maxTotal;
+      }
+    }
+
+    // Item name and category must match on the same item
+    const itemConditions: Prisma.ItemWhereInput[] = [];
+    if (filter.itemName) {
+      itemConditions.push({ name: { contains: filter.itemName, mode: 'insensitive' } });
+    }
+    if (filter.categoryId) {
+      itemConditions.push({ OR: [{ categoryId: filter.categoryId }, { category: { parentId: filter.categoryId } }] });
+    }
+    if (itemConditions.length > 0) {
+      where.items = { some: { AND: itemConditions } };
+    }
+
+    if (filter.status) {
+      where.status = filter.status;
+    }
+
+    if (filter.merchantId) {
+      where.merchantId = filter.merchantId;
+    }
+
+    if (filter.ownerId) {
+      where.ownerId = filter.ownerId;
+    }
+
+    // Fiscal identifiers are looked up exactly, as auditors copy them from the paper receipt
+    for (const field of ['tin', 'fsNumber', 'mrc', 'referenceNumber'] as const) {
+      if (filter[field]) {
+        where[field] = { equals: filter[field]!.trim(), mode: 'insensitive' };
+      }
+    }
+
+    if (filter.cashier) {
+      where.cashier = {
+        contains: filter.cashier,
+        mode: 'insensitive',
+      };
+    }
+
+    if (filter.paymentMethod) {
+      where.paymentMethod = filter.paymentMethod;
+    }
+
+    return where;
+  }
+
+  // All matching receipts, for callers that need no paging
+  async listReceipts(
+    scope: Prisma.ReceiptWhereInput,
+    filter?: ReceiptFilter | null,
+    sort?: ReceiptSort[] | null,
+    orderBy?: string | null
+  ) {
+    return this.prisma.receipt.findMany({
+      where: { AND: [scope, this.buildWhere(filter)] },
+      include: { items: true },
+      orderBy: toOrderBy(sortKeys(sort, orderBy)),
+    });
+  }
+
+  // One page of matching receipts as a Relay connection. Pages forward with first/after and
+  // backward with last/before; cursors stay valid while receipts are added or removed.
+  async findReceiptPage(
+    scope: Prisma.ReceiptWhereInput,
+    filter: ReceiptFilter | null | undefined,
+    sort: ReceiptSort[] | null | undefined,
+    page: PageArgs
+  ) {
+    const backward = page.last != null || page.before != null;
+    if (backward && (page.first != null || page.after != null)) {
+      throw new ReceiptQueryError('Use first/after or last/before, not both');
+    }
+
+    const size = (backward ? page.last : page.first) ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+      throw new ReceiptQueryError(`Page size must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const keys = sortKeys(sort);
+    const where = { AND: [scope, this.buildWhere(filter)] };
+    const cursor = backward ? page.before : page.after;
+
+    // Backward pages are read in reverse order from the cursor, then turned around
+    const queryKeys = backward ? reverseKeys(keys) : keys;
+    const pageWhere = cursor ? { AND: [where, afterCursor(queryKeys, decodeCursor(keys, cursor))] } : where;
+
+    const [rows, totalCount] = await Promise.all([
+      this.prisma.receipt.findMany({
+        where: pageWhere,
+        include: { items: true },
+        orderBy: toOrderBy(queryKeys),
+        take: size + 1, // One more tells whether there is another page
+      }),
+      this.prisma.receipt.count({ where }),
+    ]);
+
+    const hasMore = rows.length > size;
+    const receipts = rows.slice(0, size);
+    if (backward) {
+      receipts.reverse();
+    }
+
+    const edges = receipts.map((receipt) => ({ cursor: encodeCursor(keys, receipt), node: receipt }));
+
+    return {
+      edges,
+      pageInfo: {
+        // Paging one way, there is a page the other way whenever paging started at a cursor
+        hasNextPage: backward ? Boolean(cursor) : hasMore,
+        hasPreviousPage: backward ? hasMore : Boolean(cursor),
+        startCursor: edges[0]?.cursor ?? null,
+        endCursor: edges[edges.length - 1]?.cursor ?? null,
+      },
+      totalCount,
+    };
+  }
+
+  // Every matching receipt in sort order, handed over a batch at a time with its merchant
+  // and its items and their categories, so large result sets are never loaded at once
+  async forEachReceiptBatch(
+    scope: Prisma.ReceiptWhereInput,
+    filter: ReceiptFilter | null | undefined,
+    sort: ReceiptSort[] | null | undefined,
+    batchSize: number,
+    handle: (receipts: ReceiptWithDetails[]) => Promise<void>
+  ) {
+    const keys = sortKeys(sort);
+    const where = { AND: [scope, this.buildWhere(filter)] };
+    let cursor: any[] | null = null;
+
+    for (;;) {
+      const receipts: ReceiptWithDetails[] = await this.prisma.receipt.findMany({
+        where: cursor ? { AND: [where, afterCursor(keys, cursor)] } : where,
+        include: RECEIPT_DETAILS,
+        orderBy: toOrderBy(keys),
+        take: batchSize,
+      });
+      if (receipts.length === 0) {
+        break;
+      }
+
+      await handle(receipts);
+      if (receipts.length < batchSize) {
+        break;
+      }
+      const last: any = receipts[receipts.length - 1];
+      cursor = keys.map((key) => last[key.column]);
+    }
+  }
+}
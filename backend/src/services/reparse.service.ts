@@ -0,0 +1,221 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { OCRService, RecognizedText } from './ocr.service';
+import { ValidationService } from './validation.service';
+import { DuplicateService } from './duplicate.service';
+import { MerchantService } from './merchant.service';
+import { CategoryService, carryOverManualCategory } from './category.service';
+import { ReceiptTemplateRecord, TemplateService } from './template.service';
+import { buildExtractedFields, buildItemsCreate, buildSummaryCreate } from '../utils/receiptData';
+
+// Receipts a reviewer signed off on; re-parsing them needs force
+export const REVIEWED_STATUSES = ['VERIFIED', 'REJECTED'];
+
+// Failures listed in a bulk job result; the rest are only counted
+const MAX_REPORTED_ERRORS = 20;
+
+// Which receipts to re-parse; all receipts with stored OCR output when empty
+export interface ReparseFilter {
+  organizationId?: string; // Set from the caller, so a bulk run stays within their organization
+  receiptIds?: string[];
+  status?: string;
+  merchantId?: string;
+  templateId?: string;
+  createdAfter?: string; // ISO date
+  createdBefore?: string;
+}
+
+export interface ReparseJobResult {
+  total: number;
+  reparsed: number;
+  skipped: number; // Reviewed, hand-edited or still processing, without force
+  failed: number;
+  errors: Array<{ receiptId: string; error: string }>; // First failures, for troubleshooting
+}
+
+export interface ReparseOptions {
+  force?: boolean; // Also overwrite reviewed and hand-edited receipts
+  templates?: ReceiptTemplateRecord[]; // Preloaded active templates, for bulk runs
+}
+
+export class ReparseService {
+  private ocrService: OCRService;
+
+  constructor(private prisma: PrismaClient, ocrService?: OCRService) {
+    // Parsing needs no OCR engine, so a fresh service is cheap
+    this.ocrService = ocrService || new OCRService();
+  }
+
+  // Store what the OCR engines returned for a receipt, replacing any previous output
+  async saveOcrOutput(receiptId: string, pages: RecognizedText[]) {
+    // The preprocessing report is kept on the receipt itself
+    const storedPages = pages.map(({ preprocessing, ...page }) => page);
+    const ocrPages = pages.filter((page) => page.source === 'OCR');
+    const engineVersions = [...new Set(ocrPages.map((page) => page.engineVersion).filter(Boolean))];
+    const confidences = ocrPages
+      .map((page) => page.confidence)
+      .filter((confidence): confidence is number => typeof confidence === 'number');
+
+    const data = {
+      text: pages.map((page) => page.text).join('\n'),
+      pages: storedPages as any,
+      engine: ocrPages[0]?.engine ?? null,
+      engineVersion: engineVersions.length > 0 ? engineVersions.join(', ') : null,
+      confidence:
+        confidences.length > 0
+          ? Math.round((confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length) * 100) / 100
+          : null,
+    };
+
+    return this.prisma.ocrOutput.upsert({
+      where: { receiptId },
+      create: { receiptId, ...data },
+      update: data,
+    });
+  }
+
+  // Run the current parser and templates over a receipt's stored OCR output and replace
+  // its extracted fields, items and summary. Validation, merchant matching and duplicate
+  // detection run again afterwards, as after an upload.
+  async reparseReceipt(receiptId: string, options: ReparseOptions = {}) {
+    const receipt = await this.prisma.receipt.findUnique({
+      where: { id: receiptId },
+      include: { ocrOutput: true },
+    });
+
+    if (!receipt) {
+      throw new Error('Receipt not found');
+    }
+    if (!receipt.ocrOutput) {
+      throw new Error('Receipt has no stored OCR output; upload it again to re-run recognition');
+    }
+    if (receipt.status === 'PROCESSING') {
+      throw new Error('Receipt is still being processed');
+    }
+    if (!options.force && (receipt.humanEdited || REVIEWED_STATUSES.includes(receipt.status))) {
+      throw new Error('Receipt was reviewed or edited by hand; re-parse with force to overwrite it');
+    }
+
+    const templates = options.templates ?? (await new TemplateService(this.prisma).getActiveTemplates(receipt.organizationId));
+    const pages = receipt.ocrOutput.pages as unknown as RecognizedText[];
+    const extractedData = this.ocrService.parse(pages, templates);
+
+    const previousItems = await this.prisma.item.findMany({
+      where: { receiptId, categorySource: 'MANUAL' },
+    });
+
+    await this.prisma.receiptSummary.deleteMany({
+      where: { receiptId },
+    });
+
+    await this.prisma.receipt.update({
+      where: { id: receiptId },
+      data: {
+        ...buildExtractedFields(extractedData),
+        // Fresh parser output needs a fresh review
+        status: 'NEEDS_REVIEW',
+        statusReason: null,
+        reviewedBy: null,
+        reviewerId: null,
+        reviewedAt: null,
+        humanEdited: false,
+        editedAt: null,
+        summary: buildSummaryCreate(extractedData.summary),
+        items: {
+          deleteMany: {},
+          create: buildItemsCreate(extractedData, receipt.organizationId).map((item) => ({
+            ...item,
+            ...carryOverManualCategory(previousItems, item.name),
+          })),
+        },
+      },
+    });
+
+    await new ValidationService(this.prisma).validateReceipt(receiptId);
+    await new MerchantService(this.prisma).matchReceipt(receiptId);
+    await new CategoryService(this.prisma).categorizeReceipt(receiptId);
+    await new DuplicateService(this.prisma).checkReceipt(receiptId);
+
+    console.log(`[Reparse] Re-parsed receipt ${receiptId}`);
+
+    return this.prisma.receipt.findUnique({
+      where: { id: receiptId },
+      include: { items: true },
+    });
+  }
+
+  // Receipts with stored OCR output matching a bulk re-parse filter
+  async findReceiptIds(filter: ReparseFilter = {}): Promise<string[]> {
+    const where: Prisma.ReceiptWhereInput = {
+      ocrOutput: { isNot: null },
+    };
+
+    if (filter.organizationId) where.organizationId = filter.organizationId;
+    if (filter.receiptIds && filter.receiptIds.length > 0) where.id = { in: filter.receiptIds };
+    if (filter.status) where.status = filter.status as any;
+    if (filter.merchantId) where.merchantId = filter.merchantId;
+    if (filter.templateId) where.templateId = filter.templateId;
+    if (filter.createdAfter || filter.createdBefore) {
+      where.createdAt = {
+        ...(filter.createdAfter ? { gte: new Date(filter.createdAfter) } : {}),
+        ...(filter.createdBefore ? { lte: new Date(filter.createdBefore) } : {}),
+      };
+    }
+
+    const receipts = await this.prisma.receipt.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return receipts.map((receipt) => receipt.id);
+  }
+
+  // Re-parse many receipts one after another. Reviewed and hand-edited receipts are
+  // skipped unless forced; failures are counted and do not stop the run. onProgress gets
+  // the id of each receipt that was re-parsed.
+  async reparseReceipts(
+    filter: ReparseFilter = {},
+    force: boolean = false,
+    onProgress?: (done: number, total: number, reparsedId?: string) => Promise<void>
+  ): Promise<ReparseJobResult> {
+    const receiptIds = await this.findReceiptIds(filter);
+    // Without an organization, each receipt is read with its own organization's templates
+    const templates = filter.organizationId
+      ? await new TemplateService(this.prisma).getActiveTemplates(filter.organizationId)
+      : undefined;
+    const result: ReparseJobResult = { total: receiptIds.length, reparsed: 0, skipped: 0, failed: 0, errors: [] };
+
+    for (const [index, receiptId] of receiptIds.entries()) {
+      let reparsed = false;
+      const receipt = await this.prisma.receipt.findUnique({
+        where: { id: receiptId },
+        select: { status: true, humanEdited: true },
+      });
+
+      if (!receipt || receipt.status === 'PROCESSING' || (!force && (receipt.humanEdited || REVIEWED_STATUSES.includes(receipt.status)))) {
+        result.skipped++;
+      } else {
+        try {
+          await this.reparseReceipt(receiptId, { force, templates });
+          result.reparsed++;
+          reparsed = true;
+        } catch (error: any) {
+          console.error(`[Reparse] Error re-parsing receipt ${receiptId}:`, error);
+          result.failed++;
+          if (result.errors.length < MAX_REPORTED_ERRORS) {
+            result.errors.push({ receiptId, error: error.message || String(error) });
+          }
+        }
+      }
+
+      if (onProgress) {
+        await onProgress(index + 1, receiptIds.length, reparsed ? receiptId : undefined);
+      }
+    }
+
+    console.log(
+      `[Reparse] Done: ${result.reparsed} re-parsed, ${result.skipped} skipped, ${result.failed} failed of ${result.total}`
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,124 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuthUser, receiptScopeSql } from './auth.service';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Parts of a receipt's search document, as reported in highlights
+export type SearchField = 'STORE_NAME' | 'ITEMS' | 'TEXT';
+
+export interface SearchHighlight {
+  field: SearchField;
+  snippet: string; // HTML: the text is escaped and matches are wrapped in <mark>
+}
+
+export interface SearchOptions {
+  limit?: number | null;
+  offset?: number | null;
+}
+
+// ts_headline marks matches with these; they cannot come from OCR text and are turned into
+// <mark> after the snippet is escaped
+const START_MARK = '\u0002';
+const STOP_MARK = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${START_MARK}, StopSel=${STOP_MARK}, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Bad search arguments; answered with 400 / BAD_USER_INPUT
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+interface SearchRow {
+  id: string;
+  rank: number;
+  storeName: string | null;
+  items: string | null;
+  text: string | null;
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toSnippet(headline: string) {
+  return escapeHtml(headline).split(START_MARK).join('<mark>').split(STOP_MARK).join('</mark>');
+}
+
+// Full-text search over the store name, item names and stored OCR text of receipts, using
+// the "searchVector" column the database keeps current (see the receipt_search migration)
+export class SearchService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Receipts matching a web-search style query ("teff injera", "\"abebe kebede\"", "coffee
+  // -tea", "bread or teff"), best match first, with the matching parts highlighted
+  async searchReceipts(user: AuthUser, query: string, options: SearchOptions = {}) {
+    const text = (query || '').trim();
+    if (!text) {
+      throw new SearchQueryError('Search query is required');
+    }
+
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const offset = options.offset ?? 0;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      throw new SearchQueryError(`Limit must be between 1 and ${MAX_SEARCH_LIMIT}`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new SearchQueryError('Offset must not be negative');
+    }
+
+    const scope = receiptScopeSql(user);
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRaw<SearchRow[]>(Prisma.sql`
+        WITH search AS (SELECT websearch_to_tsquery('simple', ${text}) AS query),
+        matches AS (
+          SELECT "id", "storeName", "createdAt", ts_rank("searchVector", search.query) AS rank
+          FROM "Receipt", search
+          WHERE ${scope} AND "searchVector" @@ search.query
+          ORDER BY rank DESC, "createdAt" DESC, "id"
+          LIMIT ${limit} OFFSET ${offset}
+        )
+        SELECT
+          m."id",
+          m.rank,
+          CASE WHEN to_tsvector('simple', coalesce(m."storeName", '')) @@ search.query
+            THEN ts_headline('simple', m."storeName", search.query, ${HEADLINE_OPTIONS}) END AS "storeName",
+          (SELECT ts_headline('simple', string_agg(i."name", ' · ' ORDER BY i."createdAt"), search.query, ${HEADLINE_OPTIONS})
+            FROM "Item" i
+            WHERE i."receiptId" = m."id" AND to_tsvector('simple', i."name") @@ search.query) AS "items",
+          (SELECT ts_headline('simple', o."text", search.query, ${HEADLINE_OPTIONS})
+            FROM "OcrOutput" o
+            WHERE o."receiptId" = m."id" AND to_tsvector('simple', o."text") @@ search.query) AS "text"
+        FROM matches m, search
+        ORDER BY m.rank DESC, m."createdAt" DESC, m."id"
+      `),
+      this.prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`
+        SELECT count(*) AS count
+        FROM "Receipt"
+        WHERE ${scope} AND "searchVector" @@ websearch_to_tsquery('simple', ${text})
+      `),
+    ]);
+
+    const receipts = await this.prisma.receipt.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: { items: true },
+    });
+    const receiptsById = new Map(receipts.map((receipt) => [receipt.id, receipt]));
+
+    const results = rows
+      .filter((row) => receiptsById.has(row.id)) // Deleted in between
+      .map((row) => {
+        const highlights: SearchHighlight[] = [];
+        if (row.storeName) highlights.push({ field: 'STORE_NAME', snippet: toSnippet(row.storeName) });
+        if (row.items) highlights.push({ field: 'ITEMS', snippet: toSnippet(row.items) });
+        if (row.text) highlights.push({ field: 'TEXT', snippet: toSnippet(row.text) });
+
+        return { receipt: receiptsById.get(row.id)!, rank: Number(row.rank), highlights };
+      });
+
+    return { results, totalCount: Number(counts[0]?.count ?? 0) };
+  }
+}
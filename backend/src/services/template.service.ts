@@ -0,0 +1,585 @@
+import yaml from 'js-yaml';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  CalendarSystem,
+  ethiopianToGregorian,
+  isValidEthiopianDate,
+  looksLikeEthiopianDate,
+} from '../utils/ethiopianCalendar';
+import { normalizeTin } from './merchant.service';
+
+// Receipt-level fields a template can extract
+export const TEMPLATE_FIELDS = [
+  'storeName',
+  'purchaseDate',
+  'totalAmount',
+  'tin',
+  'fsNumber',
+  'mrc',
+  'referenceNumber',
+  'cashier',
+  'paymentMethod',
+] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+const PAYMENT_METHODS = ['CASH', 'CARD', 'MOBILE_MONEY', 'BANK_TRANSFER', 'CHEQUE', 'CREDIT', 'OTHER'];
+
+// Top lines searched for the header pattern, unless the template says otherwise
+const DEFAULT_HEADER_LINES = 10;
+
+// Accepted values of the occurrence, format and calendar settings
+const OCCURRENCES = ['first', 'last'] as const;
+const DATE_FORMATS = ['DMY', 'MDY', 'YMD'] as const;
+const CALENDARS = ['GREGORIAN', 'ETHIOPIAN'] as const;
+
+// The rules below are type aliases rather than interfaces so that a parsed definition
+// can go straight into the template's JSON column.
+
+// A line that marks where a region starts or ends
+export type TemplateAnchor = {
+  pattern: string;
+  occurrence?: 'first' | 'last';
+};
+
+// Lines between two anchors; without anchors a region runs to the start or end of the receipt
+export type TemplateRegion = {
+  after?: string; // Anchor name; the region starts on the next line
+  before?: string; // Anchor name; the region ends on the line before
+};
+
+export type TemplateFieldRule = {
+  pattern?: string; // First capture group (or the group named "value") is the value
+  value?: string; // Fixed value, e.g. the canonical store name; with a pattern, used once the pattern matches
+  region?: string;
+  occurrence?: 'first' | 'last';
+  format?: 'DMY' | 'MDY' | 'YMD'; // purchaseDate only, DMY by default
+  calendar?: CalendarSystem; // purchaseDate only, detected by default
+};
+
+export type TemplateItemRule = {
+  region?: string;
+  pattern: string; // Named groups: name (required), quantity, unit, price, amount
+  skip?: string; // Lines to ignore inside the region, e.g. column headers
+};
+
+export type TemplateDefinition = {
+  name: string;
+  match: {
+    tin?: string; // Seller TIN
+    header?: string; // Pattern matched against the top lines of the receipt
+    headerLines?: number;
+  };
+  anchors?: Record<string, TemplateAnchor>;
+  regions?: Record<string, TemplateRegion>;
+  fields?: Partial<Record<TemplateField, TemplateFieldRule>>;
+  items?: TemplateItemRule;
+};
+
+// A stored template, as far as matching and applying it is concerned
+export interface ReceiptTemplateRecord {
+  id: string;
+  name: string;
+  definition: TemplateDefinition;
+}
+
+export interface TemplateFieldResult {
+  field: TemplateField;
+  value: string | number | Date;
+  raw: string; // Text the value was read from
+  sourceLine: string;
+  purchaseDateCalendar?: CalendarSystem;
+}
+
+export interface TemplateItemResult {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  price?: number;
+  amount?: number;
+  sourceLine: string;
+}
+
+export interface TemplateResult {
+  fields: TemplateFieldResult[];
+  items: TemplateItemResult[];
+  missingFields: TemplateField[]; // Declared by the template but not found
+}
+
+// Patterns are matched line by line, case-insensitively
+function compile(pattern: string, where: string): RegExp {
+  try {
+    return new RegExp(pattern, 'iu');
+  } catch (error: any) {
+    throw new Error(`Invalid template: ${where} pattern ${JSON.stringify(pattern)}: ${error.message}`);
+  }
+}
+
+// "1,234.50", "*245.00" or "245,00" as printed on receipts
+function parseAmount(value: string): number | undefined {
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  if (/,\d{2}$/.test(cleaned) && !cleaned.includes('.')) {
+    cleaned = cleaned.replace(',', '.');
+  }
+  const amount = parseFloat(cleaned.replace(/,/g, ''));
+  return isNaN(amount) ? undefined : amount;
+}
+
+// A date read with a template, or undefined when OCR noise made it impossible (31 Tir,
+// 31/02) or it lies outside the generic parser's range of 2000 to next year
+function parseTemplateDate(
+  raw: string,
+  rule: TemplateFieldRule,
+  line: string
+): { date: Date; calendar: CalendarSystem } | undefined {
+  const parts = raw.match(/\d+/g);
+  if (!parts || parts.length < 3) {
+    return undefined;
+  }
+
+  const format = rule.format || 'DMY';
+  const [first, second, third] = parts.map((part) => parseInt(part, 10));
+  let [day, month, year] = format === 'YMD' ? [third, second, first] : format === 'MDY' ? [second, first, third] : [first, second, third];
+  if (year < 100) {
+    year += year < 50 ? 2000 : 1900;
+  }
+  if (month < 1 || month > 13 || day < 1 || day > 31) {
+    return undefined;
+  }
+
+  const calendar = rule.calendar || (looksLikeEthiopianDate(day, month, year, line) ? 'ETHIOPIAN' : 'GREGORIAN');
+  let date: Date;
+  if (calendar === 'ETHIOPIAN') {
+    if (!isValidEthiopianDate(year, month, day)) {
+      return undefined;
+    }
+    date = ethiopianToGregorian(year, month, day);
+  } else {
+    date = new Date(Date.UTC(year, month - 1, day));
+    // Date.UTC rolls 31/02 over into March
+    if (month > 12 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return undefined;
+    }
+  }
+
+  const currentYear = new Date().getFullYear();
+  if (isNaN(date.getTime()) || date.getUTCFullYear() < 2000 || date.getUTCFullYear() > currentYear + 1) {
+    return undefined;
+  }
+  return { date, calendar };
+}
+
+// A field's value as stored on the receipt, or undefined when the text is not a valid value
+// for the field: amounts and dates are parsed, payment methods and TINs normalized
+function fieldValue(
+  field: TemplateField,
+  raw: string,
+  rule: TemplateFieldRule,
+  line: string
+): Omit<TemplateFieldResult, 'field' | 'raw' | 'sourceLine'> | undefined {
+  if (field === 'totalAmount') {
+    const amount = parseAmount(raw);
+    return amount === undefined ? undefined : { value: amount };
+  }
+  if (field === 'purchaseDate') {
+    const parsed = parseTemplateDate(raw, rule, line);
+    return parsed && { value: parsed.date, purchaseDateCalendar: parsed.calendar };
+  }
+  if (field === 'paymentMethod') {
+    const method = raw.toUpperCase().replace(/[\s-]+/g, '_');
+    return PAYMENT_METHODS.includes(method) ? { value: method } : undefined;
+  }
+  if (field === 'tin') {
+    const tin = normalizeTin(raw);
+    return tin ? { value: tin } : undefined;
+  }
+  return { value: raw };
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// An optional setting that has to be a string when it is given
+function optionalString(value: unknown, where: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid template: ${where} must be a string`);
+  }
+  return value;
+}
+
+// An optional setting limited to a few values
+function optionalChoice<T extends string>(value: unknown, choices: readonly T[], where: string): T | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid template: ${where} must be one of ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+// Parse and check a template written as JSON or YAML
+export function parseTemplateSource(source: string): TemplateDefinition {
+  let parsed: unknown;
+  try {
+    parsed = source.trim().startsWith('{') ? JSON.parse(source) : yaml.load(source);
+  } catch (error: any) {
+    throw new Error(`Invalid template: ${error.message}`);
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error('Invalid template: expected an object');
+  }
+  if (typeof parsed.name !== 'string' || !parsed.name.trim()) {
+    throw new Error('Invalid template: name is required');
+  }
+  const match = isObject(parsed.match) ? parsed.match : {};
+  if (!match.tin && !match.header) {
+    throw new Error('Invalid template: match needs a tin or a header pattern');
+  }
+
+  const definition: TemplateDefinition = { name: parsed.name, match: {} };
+  if (match.tin !== undefined) {
+    definition.match.tin = normalizeTin(String(match.tin)) ?? undefined;
+    if (!definition.match.tin) {
+      throw new Error('Invalid template: match.tin must contain digits');
+    }
+  }
+  if (match.header !== undefined) {
+    definition.match.header = String(match.header);
+    compile(definition.match.header, 'match.header');
+  }
+  if (match.headerLines !== undefined) {
+    const headerLines = match.headerLines;
+    if (typeof headerLines !== 'number' || !Number.isInteger(headerLines) || headerLines < 1) {
+      throw new Error('Invalid template: match.headerLines must be a positive whole number');
+    }
+    definition.match.headerLines = headerLines;
+  }
+
+  // Anchors and field rules may be written as a bare pattern string
+  const anchors: Record<string, TemplateAnchor> = {};
+  for (const [name, value] of Object.entries(isObject(parsed.anchors) ? parsed.anchors : {})) {
+    const anchor: RawObject = typeof value === 'string' ? { pattern: value } : isObject(value) ? value : {};
+    const pattern = anchor.pattern;
+    if (typeof pattern !== 'string') {
+      throw new Error(`Invalid template: anchor ${name} needs a pattern`);
+    }
+    compile(pattern, `anchor ${name}`);
+    anchors[name] = { pattern, occurrence: optionalChoice(anchor.occurrence, OCCURRENCES, `anchor ${name} occurrence`) };
+  }
+  definition.anchors = anchors;
+
+  const regions: Record<string, TemplateRegion> = {};
+  for (const [name, value] of Object.entries(isObject(parsed.regions) ? parsed.regions : {})) {
+    const bounds = isObject(value) ? value : {};
+    const region: TemplateRegion = {
+      after: optionalString(bounds.after, `region ${name} after`),
+      before: optionalString(bounds.before, `region ${name} before`),
+    };
+    for (const anchor of [region.after, region.before]) {
+      if (anchor !== undefined && !anchors[anchor]) {
+        throw new Error(`Invalid template: region ${name} refers to unknown anchor ${anchor}`);
+      }
+    }
+    regions[name] = region;
+  }
+  definition.regions = regions;
+
+  const checkRegion = (region: string | undefined, where: string) => {
+    if (region !== undefined && !regions[region]) {
+      throw new Error(`Invalid template: ${where} refers to unknown region ${region}`);
+    }
+  };
+
+  const fields: Partial<Record<TemplateField, TemplateFieldRule>> = {};
+  for (const [name, value] of Object.entries(isObject(parsed.fields) ? parsed.fields : {})) {
+    if (!TEMPLATE_FIELDS.includes(name as TemplateField)) {
+      throw new Error(`Invalid template: unknown field ${name}, expected one of ${TEMPLATE_FIELDS.join(', ')}`);
+    }
+    const field = name as TemplateField;
+    const options: RawObject = typeof value === 'string' ? { pattern: value } : isObject(value) ? value : {};
+    const rule: TemplateFieldRule = {
+      pattern: optionalString(options.pattern, `field ${field} pattern`),
+      region: optionalString(options.region, `field ${field} region`),
+      occurrence: optionalChoice(options.occurrence, OCCURRENCES, `field ${field} occurrence`),
+      format: optionalChoice(options.format, DATE_FORMATS, `field ${field} format`),
+      calendar: optionalChoice(options.calendar, CALENDARS, `field ${field} calendar`),
+    };
+    const hasValue = options.value !== undefined && options.value !== null;
+    if (rule.pattern === undefined && !hasValue) {
+      throw new Error(`Invalid template: field ${field} needs a pattern or a value`);
+    }
+    // Fixed values are checked now, so they cannot fail when written to the receipt
+    if (hasValue) {
+      rule.value = String(options.value).trim();
+      if (!fieldValue(field, rule.value, rule, rule.value)) {
+        throw new Error(`Invalid template: ${JSON.stringify(rule.value)} is not a valid value for field ${field}`);
+      }
+    }
+    if (rule.pattern !== undefined) {
+      compile(rule.pattern, `field ${field}`);
+    }
+    checkRegion(rule.region, `field ${field}`);
+    fields[field] = rule;
+  }
+  definition.fields = fields;
+
+  if (parsed.items) {
+    const items = isObject(parsed.items) ? parsed.items : {};
+    const pattern = items.pattern;
+    if (typeof pattern !== 'string') {
+      throw new Error('Invalid template: items need a pattern');
+    }
+    if (!compile(pattern, 'items').source.includes('(?<name>')) {
+      throw new Error('Invalid template: items pattern needs a (?<name>...) group');
+    }
+    definition.items = {
+      pattern,
+      region: optionalString(items.region, 'items region'),
+      skip: optionalString(items.skip, 'items skip'),
+    };
+    if (definition.items.skip !== undefined) {
+      compile(definition.items.skip, 'items skip');
+    }
+    checkRegion(definition.items.region, 'items');
+  }
+
+  return definition;
+}
+
+// Pick the template for a receipt: a TIN match wins over a header match. Lines are the
+// trimmed, non-empty text lines of the receipt.
+export function matchTemplate<T extends ReceiptTemplateRecord>(
+  templates: T[],
+  lines: string[],
+  tin?: string | null
+): { template: T; matchedBy: 'tin' | 'header' } | null {
+  const receiptTin = normalizeTin(tin);
+  const byTin = receiptTin ? templates.find((template) => template.definition.match.tin === receiptTin) : undefined;
+  if (byTin) {
+    return { template: byTin, matchedBy: 'tin' };
+  }
+
+  const byHeader = templates.find((template) => {
+    const { header, headerLines } = template.definition.match;
+    if (!header) {
+      return false;
+    }
+    const pattern = compile(header, 'match.header');
+    return lines.slice(0, headerLines || DEFAULT_HEADER_LINES).some((line) => pattern.test(line));
+  });
+
+  return byHeader ? { template: byHeader, matchedBy: 'header' } : null;
+}
+
+// Read the declared fields and items from the receipt lines
+export function applyTemplate(definition: TemplateDefinition, lines: string[]): TemplateResult {
+  const findAnchor = (name: string): number => {
+    const anchor = definition.anchors![name];
+    const pattern = compile(anchor.pattern, `anchor ${name}`);
+    const indexes = lines.map((line, index) => (pattern.test(line) ? index : -1)).filter((index) => index >= 0);
+    if (indexes.length === 0) return -1;
+    return anchor.occurrence === 'last' ? indexes[indexes.length - 1] : indexes[0];
+  };
+
+  // A region whose anchor is missing from this receipt is empty
+  const regionLines = (name?: string): string[] => {
+    if (!name) return lines;
+    const region = definition.regions![name];
+    const start = region.after !== undefined ? findAnchor(region.after) : -1;
+    const end = region.before !== undefined ? findAnchor(region.before) : lines.length;
+    if ((region.after !== undefined && start < 0) || end < 0) return [];
+    return lines.slice(start + 1, end);
+  };
+
+  const result: TemplateResult = { fields: [], items: [], missingFields: [] };
+
+  for (const [field, rule] of Object.entries(definition.fields || {}) as Array<[TemplateField, TemplateFieldRule]>) {
+    if (rule.pattern === undefined) {
+      const fixed = fieldValue(field, rule.value!, rule, rule.value!);
+      if (fixed) {
+        result.fields.push({ field, ...fixed, raw: rule.value!, sourceLine: '' });
+      } else {
+        result.missingFields.push(field); // Stored before fixed values were checked
+      }
+      continue;
+    }
+
+    const pattern = compile(rule.pattern, `field ${field}`);
+    const candidates = regionLines(rule.region);
+    const ordered = rule.occurrence === 'last' ? [...candidates].reverse() : candidates;
+
+    let found: TemplateFieldResult | undefined;
+    for (const line of ordered) {
+      const match = line.match(pattern);
+      if (!match) continue;
+
+      const raw = (match.groups?.value ?? match[1] ?? match[0]).trim();
+      const value = fieldValue(field, rule.value ?? raw, rule, line);
+      if (value) found = { field, ...value, raw, sourceLine: line };
+
+      if (found) break;
+    }
+
+    if (found) {
+      result.fields.push(found);
+    } else {
+      result.missingFields.push(field);
+    }
+  }
+
+  if (definition.items) {
+    const pattern = compile(definition.items.pattern, 'items');
+    const skip = definition.items.skip ? compile(definition.items.skip, 'items skip') : null;
+
+    for (const line of regionLines(definition.items.region)) {
+      if (skip?.test(line)) continue;
+      const groups = line.match(pattern)?.groups;
+      if (!groups?.name?.trim()) continue;
+
+      const number = (value?: string) => (value ? parseAmount(value) : undefined);
+      result.items.push({
+        name: groups.name.trim(),
+        quantity: number(groups.quantity),
+        unit: groups.unit?.trim() || undefined,
+        price: number(groups.price),
+        amount: number(groups.amount),
+        sourceLine: line,
+      });
+    }
+  }
+
+  return result;
+}
+
+export class TemplateService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Enabled templates of an organization in the order they are tried, for the worker
+  async getActiveTemplates(organizationId: string): Promise<ReceiptTemplateRecord[]> {
+    const templates = await this.prisma.receiptTemplate.findMany({
+      where: { organizationId, enabled: true },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return templates.map((template) => ({
+      id: template.id,
+      name: template.name,
+      definition: template.definition as unknown as TemplateDefinition,
+    }));
+  }
+
+  async listTemplates(organizationId: string) {
+    return this.prisma.receiptTemplate.findMany({
+      where: { organizationId },
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async getTemplate(organizationId: string, id: string) {
+    return this.prisma.receiptTemplate.findFirst({ where: { id, organizationId } });
+  }
+
+  async createTemplate(organizationId: string, input: { source?: string; enabled?: boolean; priority?: number }) {
+    if (!input.source?.trim()) {
+      throw new Error('Template source is required');
+    }
+    const definition = parseTemplateSource(input.source);
+
+    return this.prisma.receiptTemplate.create({
+      data: {
+        organizationId,
+        name: definition.name.trim(),
+        tin: definition.match.tin ?? null,
+        source: input.source,
+        definition: definition satisfies Prisma.InputJsonValue,
+        enabled: input.enabled ?? true,
+        priority: input.priority ?? 0,
+      },
+    });
+  }
+
+  async updateTemplate(organizationId: string, id: string, input: { source?: string; enabled?: boolean; priority?: number }) {
+    const template = await this.getTemplate(organizationId, id);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    const data: Prisma.ReceiptTemplateUpdateInput = {};
+
+    if (input.source !== undefined && input.source !== null) {
+      const definition = parseTemplateSource(input.source);
+      data.name = definition.name.trim();
+      data.tin = definition.match.tin ?? null;
+      data.source = input.source;
+      data.definition = definition satisfies Prisma.InputJsonValue;
+    }
+
+    if (input.enabled !== undefined && input.enabled !== null) data.enabled = input.enabled;
+    if (input.priority !== undefined && input.priority !== null) data.priority = input.priority;
+
+    return this.prisma.receiptTemplate.update({ where: { id }, data });
+  }
+
+  // Receipts read with a deleted template keep their data; only the link is removed
+  async deleteTemplate(organizationId: string, id: string) {
+    const template = await this.getTemplate(organizationId, id);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    await this.prisma.receiptTemplate.delete({ where: { id } });
+    return true;
+  }
+
+  // Dry-run a stored template, or a template source that is not saved yet, against OCR text:
+  // given as text, or the stored OCR output of a receipt (whose TIN is used for matching)
+  async testTemplate(
+    organizationId: string,
+    args: { id?: string; source?: string; text?: string; receiptId?: string; tin?: string }
+  ) {
+    let record: ReceiptTemplateRecord;
+    if (args.source) {
+      const definition = parseTemplateSource(args.source);
+      record = { id: args.id || '', name: definition.name, definition };
+    } else if (args.id) {
+      const template = await this.getTemplate(organizationId, args.id);
+      if (!template) {
+        throw new Error('Template not found');
+      }
+      record = { id: template.id, name: template.name, definition: template.definition as unknown as TemplateDefinition };
+    } else {
+      throw new Error('Provide a template id or source');
+    }
+
+    let text = args.text;
+    let tin = args.tin;
+    if (args.receiptId) {
+      const receipt = await this.prisma.receipt.findFirst({
+        where: { id: args.receiptId, organizationId },
+        include: { ocrOutput: true },
+      });
+      if (!receipt?.ocrOutput) {
+        throw new Error('Receipt has no stored OCR output');
+      }
+      text = receipt.ocrOutput.text;
+      tin = tin ?? receipt.tin ?? undefined;
+    }
+    if (text === undefined || text === null) {
+      throw new Error('Provide OCR text or a receipt id');
+    }
+
+    const lines = text.split('\n').map((line) => line.trim()).filter((line) => line.length > 0);
+    const match = matchTemplate([record], lines, tin);
+    const result = applyTemplate(record.definition, lines);
+
+    return {
+      matched: match !== null,
+      matchedBy: match?.matchedBy ?? null,
+      ...result,
+    };
+  }
+}
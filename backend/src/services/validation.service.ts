@@ -0,0 +1,283 @@
+import { PrismaClient } from '@prisma/client';
+
+export type ValidationSeverity = 'INFO' | 'WARNING' | 'ERROR';
+
+export interface ValidationIssueData {
+  code: string; // Stable machine-readable code, e.g. 'ITEMS_SUBTOTAL_MISMATCH'
+  severity: ValidationSeverity;
+  message: string;
+  itemId?: string; // Set when the issue concerns a single line item
+  expected?: number;
+  actual?: number;
+}
+
+// Shape of a receipt as loaded for validation (receipt + items + summary with lines)
+export interface ReceiptForValidation {
+  id: string;
+  totalAmount: number | null;
+  items: Array<{
+    id: string;
+    name: string;
+    quantity: number | null;
+    unit: string | null;
+    price: number | null;
+    amount: number | null;
+  }>;
+  summary: {
+    subtotal: number | null;
+    taxTotal: number | null;
+    discountTotal: number | null;
+    rounding: number | null;
+    grandTotal: number | null;
+    lines: Array<{
+      type: string;
+      label: string;
+      rate: number | null;
+      amount: number;
+    }>;
+  } | null;
+}
+
+// Amounts are in birr with 2 decimals. Single values may be off by a cent because
+// of rounding; sums of many lines are allowed a little more.
+const LINE_TOLERANCE = 0.01;
+const TOTAL_TOLERANCE = 0.05;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const hasMoreThanTwoDecimals = (value: number) => Math.abs(value * 100 - Math.round(value * 100)) > 1e-6;
+
+export class ValidationService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Run all arithmetic checks against a receipt. Pure: does not touch the database.
+  validate(receipt: ReceiptForValidation): ValidationIssueData[] {
+    const issues: ValidationIssueData[] = [];
+    const summary = receipt.summary;
+
+    if (receipt.totalAmount === null || receipt.totalAmount === undefined) {
+      issues.push({
+        code: 'MISSING_TOTAL',
+        severity: 'WARNING',
+        message: 'No total amount was found on the receipt.',
+      });
+    } else if (receipt.totalAmount <= 0) {
+      issues.push({
+        code: 'NON_POSITIVE_TOTAL',
+        severity: 'ERROR',
+        message: `Total amount ${receipt.totalAmount} is not a positive amount.`,
+        actual: receipt.totalAmount,
+      });
+    }
+
+    // Line items: every item should have a positive price and quantity
+    for (const item of receipt.items) {
+      if (item.price === null || item.price === undefined) {
+        // A printed line amount is enough to check the item against the total
+        if (item.amount !== null && item.amount !== undefined) {
+          continue;
+        }
+        issues.push({
+          code: 'ITEM_MISSING_PRICE',
+          severity: 'INFO',
+          message: `Item "${item.name}" has no price, so it cannot be checked against the total.`,
+          itemId: item.id,
+        });
+        continue;
+      }
+
+      if (item.price <= 0) {
+        issues.push({
+          code: 'ITEM_NON_POSITIVE_PRICE',
+          severity: 'ERROR',
+          message: `Item "${item.name}" has a price of ${item.price}.`,
+          itemId: item.id,
+          actual: item.price,
+        });
+      }
+
+      if (item.quantity !== null && item.quantity !== undefined && item.quantity <= 0) {
+        issues.push({
+          code: 'ITEM_NON_POSITIVE_QUANTITY',
+          severity: 'ERROR',
+          message: `Item "${item.name}" has a quantity of ${item.quantity}.`,
+          itemId: item.id,
+          actual: item.quantity,
+        });
+      }
+
+      // Printed line amount should be quantity * unit price
+      if (item.amount !== null && item.amount !== undefined) {
+        const expectedAmount = round((item.quantity ?? 1) * item.price);
+        if (Math.abs(expectedAmount - item.amount) > LINE_TOLERANCE) {
+          issues.push({
+            code: 'LINE_TOTAL_MISMATCH',
+            severity: 'WARNING',
+            message: `Item "${item.name}" amount is ${item.amount.toFixed(2)} but ${item.quantity ?? 1}${item.unit ? ` ${item.unit}` : ''} x ${item.price.toFixed(2)} is ${expectedAmount.toFixed(2)}.`,
+            itemId: item.id,
+            expected: expectedAmount,
+            actual: item.amount,
+          });
+        }
+      }
+
+      if (hasMoreThanTwoDecimals(item.price)) {
+        issues.push({
+          code: 'CURRENCY_PRECISION',
+          severity: 'INFO',
+          message: `Item "${item.name}" price ${item.price} has more than 2 decimal places.`,
+          itemId: item.id,
+          actual: item.price,
+        });
+      }
+    }
+
+    // Sum of line totals (printed amount, else quantity * price) against the subtotal, or the total if there is no subtotal
+    const lineTotal = (item: ReceiptForValidation['items'][number]) =>
+      item.amount ?? (item.quantity ?? 1) * (item.price as number);
+    const pricedItems = receipt.items.filter(
+      (item) => (item.price !== null && item.price !== undefined) || (item.amount !== null && item.amount !== undefined)
+    );
+    if (pricedItems.length > 0 && pricedItems.length === receipt.items.length) {
+      const itemsTotal = round(pricedItems.reduce((sum, item) => sum + lineTotal(item), 0));
+
+      if (summary?.subtotal !== null && summary?.subtotal !== undefined) {
+        // The subtotal may or may not already have discounts taken off
+        const discountedItemsTotal = round(itemsTotal - (summary.discountTotal ?? 0));
+        if (
+          Math.abs(itemsTotal - summary.subtotal) > TOTAL_TOLERANCE &&
+          Math.abs(discountedItemsTotal - summary.subtotal) > TOTAL_TOLERANCE
+        ) {
+          issues.push({
+            code: 'ITEMS_SUBTOTAL_MISMATCH',
+            severity: 'WARNING',
+            message: `Line items add up to ${itemsTotal.toFixed(2)} but the subtotal is ${summary.subtotal.toFixed(2)}.`,
+            expected: summary.subtotal,
+            actual: itemsTotal,
+          });
+        }
+      } else if (receipt.totalAmount && !summary?.lines.length) {
+        // Without a summary block the items should add up to the total on their own
+        if (Math.abs(itemsTotal - receipt.totalAmount) > TOTAL_TOLERANCE) {
+          issues.push({
+            code: 'ITEMS_TOTAL_MISMATCH',
+            severity: 'WARNING',
+            message: `Line items add up to ${itemsTotal.toFixed(2)} but the total is ${receipt.totalAmount.toFixed(2)}.`,
+            expected: receipt.totalAmount,
+            actual: itemsTotal,
+          });
+        }
+      }
+    }
+
+    if (summary) {
+      // Each tax line with a printed rate should be rate% of the subtotal
+      if (summary.subtotal !== null && summary.subtotal !== undefined) {
+        for (const line of summary.lines) {
+          if (line.rate === null || line.rate === undefined || line.type === 'DISCOUNT' || line.type === 'ROUNDING') {
+            continue;
+          }
+          const expectedAmount = round((summary.subtotal * line.rate) / 100);
+          if (Math.abs(expectedAmount - line.amount) > LINE_TOLERANCE) {
+            issues.push({
+              code: 'TAX_RATE_MISMATCH',
+              severity: 'WARNING',
+              message: `"${line.label}" is ${line.amount.toFixed(2)}, but ${line.rate}% of the subtotal is ${expectedAmount.toFixed(2)}.`,
+              expected: expectedAmount,
+              actual: line.amount,
+            });
+          }
+        }
+      }
+
+      // Subtotal + taxes + charges - discounts + rounding = grand total.
+      // Some printers apply discounts before the subtotal, so accept either reading.
+      const total = summary.grandTotal ?? receipt.totalAmount;
+      if (summary.subtotal !== null && summary.subtotal !== undefined && total !== null && total !== undefined) {
+        const computedTotal = round(summary.subtotal + summary.lines.reduce((sum, line) => sum + line.amount, 0));
+        const computedWithoutDiscounts = round(
+          summary.subtotal + summary.lines.filter((line) => line.type !== 'DISCOUNT').reduce((sum, line) => sum + line.amount, 0)
+        );
+        if (
+          Math.abs(computedTotal - total) > TOTAL_TOLERANCE &&
+          Math.abs(computedWithoutDiscounts - total) > TOTAL_TOLERANCE
+        ) {
+          issues.push({
+            code: 'SUBTOTAL_TAX_TOTAL_MISMATCH',
+            severity: 'ERROR',
+            message: `Subtotal plus taxes, charges and adjustments is ${computedTotal.toFixed(2)} but the total is ${total.toFixed(2)}.`,
+            expected: total,
+            actual: computedTotal,
+          });
+        }
+      }
+
+      if (
+        summary.grandTotal !== null &&
+        summary.grandTotal !== undefined &&
+        receipt.totalAmount !== null &&
+        receipt.totalAmount !== undefined &&
+        Math.abs(summary.grandTotal - receipt.totalAmount) > LINE_TOLERANCE
+      ) {
+        issues.push({
+          code: 'SUMMARY_TOTAL_MISMATCH',
+          severity: 'WARNING',
+          message: `The printed total is ${summary.grandTotal.toFixed(2)} but the receipt total is ${receipt.totalAmount.toFixed(2)}.`,
+          expected: summary.grandTotal,
+          actual: receipt.totalAmount,
+        });
+      }
+    }
+
+    if (receipt.totalAmount && hasMoreThanTwoDecimals(receipt.totalAmount)) {
+      issues.push({
+        code: 'CURRENCY_PRECISION',
+        severity: 'INFO',
+        message: `Total amount ${receipt.totalAmount} has more than 2 decimal places.`,
+        actual: receipt.totalAmount,
+      });
+    }
+
+    return issues;
+  }
+
+  // Validate a stored receipt and replace its previous validation issues
+  async validateReceipt(receiptId: string): Promise<ValidationIssueData[]> {
+    const receipt = await this.prisma.receipt.findUnique({
+      where: { id: receiptId },
+      include: {
+        items: true,
+        summary: {
+          include: { lines: true },
+        },
+      },
+    });
+
+    if (!receipt) {
+      throw new Error('Receipt not found');
+    }
+
+    const issues = this.validate(receipt);
+
+    await this.prisma.$transaction([
+      this.prisma.validationIssue.deleteMany({
+        where: { receiptId },
+      }),
+      this.prisma.validationIssue.createMany({
+        data: issues.map((issue) => ({
+          receiptId,
+          code: issue.code,
+          severity: issue.severity,
+          message: issue.message,
+          itemId: issue.itemId ?? null,
+          expected: issue.expected ?? null,
+          actual: issue.actual ?? null,
+        })),
+      }),
+    ]);
+
+    console.log(`[Validation] Receipt ${receiptId}: ${issues.length} issue(s)`);
+
+    return issues;
+  }
+}
@@ -0,0 +1,345 @@
+import { Prisma, PrismaClient, WebhookDeliveryStatus } from '@prisma/client';
+import crypto from 'crypto';
+import { addWebhookJob } from '../queue/webhook.queue';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../utils/webhookSignature';
+
+// Receipt lifecycle events a webhook can subscribe to
+export const WEBHOOK_EVENTS = ['receipt.processed', 'receipt.failed', 'receipt.updated', 'receipt.deleted'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by testWebhook only, whatever the webhook subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+
+// Response bodies kept in the delivery log, for troubleshooting
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export interface WebhookInput {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  enabled?: boolean;
+}
+
+export interface DeliveryFilter {
+  organizationId?: string;
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+function generateSecret() {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+function validateUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid webhook URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+}
+
+function validateEvents(events: string[]) {
+  const unknown = events.filter((event) => !(WEBHOOK_EVENTS as readonly string[]).includes(event));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown webhook event: ${unknown.join(', ')}; expected ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+}
+
+type ReceiptWithItems = Prisma.ReceiptGetPayload<{ include: { items: true } }>;
+
+// What receivers get of a receipt: the reviewable fields, not the OCR internals
+function toWebhookReceipt(receipt: ReceiptWithItems) {
+  return {
+    id: receipt.id,
+    status: receipt.status,
+    statusReason: receipt.statusReason,
+    storeName: receipt.storeName,
+    purchaseDate: receipt.purchaseDate,
+    totalAmount: receipt.totalAmount,
+    currency: receipt.currency,
+    tin: receipt.tin,
+    fsNumber: receipt.fsNumber,
+    mrc: receipt.mrc,
+    referenceNumber: receipt.referenceNumber,
+    cashier: receipt.cashier,
+    paymentMethod: receipt.paymentMethod,
+    merchantId: receipt.merchantId,
+    confidence: receipt.confidence,
+    imageUrl: receipt.imageUrl,
+    batchId: receipt.batchId,
+    ownerId: receipt.ownerId,
+    duplicateOfId: receipt.duplicateOfId,
+    reviewedBy: receipt.reviewedBy,
+    reviewerId: receipt.reviewerId,
+    reviewedAt: receipt.reviewedAt,
+    humanEdited: receipt.humanEdited,
+    createdAt: receipt.createdAt,
+    updatedAt: receipt.updatedAt,
+    items: receipt.items.map((item) => ({
+      id: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      price: item.price,
+      amount: item.amount,
+      categoryId: item.categoryId,
+    })),
+  };
+}
+
+export type WebhookReceipt = ReturnType<typeof toWebhookReceipt>;
+
+// The `data` of a delivery: the receipt for receipt events, a message for test pings
+export type WebhookEventData = { receipt: WebhookReceipt } | { message: string };
+
+// Webhooks belong to an organization and only hear of its receipts
+export class WebhookService {
+  constructor(private prisma: PrismaClient) {}
+
+  async listWebhooks(organizationId: string) {
+    return this.prisma.webhook.findMany({ where: { organizationId }, orderBy: { createdAt: 'asc' } });
+  }
+
+  async getWebhook(organizationId: string, id: string) {
+    return this.prisma.webhook.findFirst({ where: { id, organizationId } });
+  }
+
+  async createWebhook(organizationId: string, input: WebhookInput) {
+    if (!input.url?.trim()) {
+      throw new Error('Webhook URL is required');
+    }
+    validateUrl(input.url.trim());
+    validateEvents(input.events || []);
+
+    const webhook = await this.prisma.webhook.create({
+      data: {
+        organizationId,
+        url: input.url.trim(),
+        description: input.description?.trim() || null,
+        events: [...new Set(input.events || [])],
+        secret: generateSecret(),
+        enabled: input.enabled ?? true,
+      },
+    });
+    console.log(`[Webhook] Registered webhook ${webhook.id} for ${webhook.url}`);
+    return webhook;
+  }
+
+  async updateWebhook(organizationId: string, id: string, input: WebhookInput) {
+    const webhook = await this.getWebhook(organizationId, id);
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    const data: Prisma.WebhookUpdateInput = {};
+
+    if (input.url !== undefined && input.url !== null) {
+      validateUrl(input.url.trim());
+      data.url = input.url.trim();
+    }
+    if (input.description !== undefined) data.description = input.description?.trim() || null;
+    if (input.events !== undefined && input.events !== null) {
+      validateEvents(input.events);
+      data.events = [...new Set(input.events)];
+    }
+    if (input.enabled !== undefined && input.enabled !== null) data.enabled = input.enabled;
+
+    return this.prisma.webhook.update({ where: { id }, data });
+  }
+
+  // Deliveries still queued are dropped with their log entries
+  async deleteWebhook(organizationId: string, id: string) {
+    const webhook = await this.getWebhook(organizationId, id);
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    await this.prisma.webhook.delete({ where: { id } });
+    return true;
+  }
+
+  // Queued retries are signed with the new secret
+  async rotateSecret(organizationId: string, id: string) {
+    const webhook = await this.getWebhook(organizationId, id);
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    return this.prisma.webhook.update({ where: { id }, data: { secret: generateSecret() } });
+  }
+
+  async listDeliveries(filter: DeliveryFilter = {}) {
+    return this.prisma.webhookDelivery.findMany({
+      where: {
+        ...(filter.organizationId ? { webhook: { organizationId: filter.organizationId } } : {}),
+        ...(filter.webhookId ? { webhookId: filter.webhookId } : {}),
+        ...(filter.status ? { status: filter.status } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(filter.limit ?? 50, 1), 500),
+    });
+  }
+
+  // Queue a receipt event for every enabled webhook of the receipt's organization subscribed
+  // to it. Deleted receipts are sent from a snapshot taken before deletion. Never throws: a
+  // webhook problem must not fail the change that triggered it.
+  async emitReceiptEvent(event: WebhookEvent, receiptId: string, snapshot?: ReceiptWithItems) {
+    try {
+      const receipt =
+        snapshot ??
+        (await this.prisma.receipt.findUnique({
+          where: { id: receiptId },
+          include: { items: true },
+        }));
+      if (!receipt) {
+        return;
+      }
+
+      const webhooks = await this.prisma.webhook.findMany({
+        where: {
+          organizationId: receipt.organizationId,
+          enabled: true,
+          OR: [{ events: { isEmpty: true } }, { events: { has: event } }],
+        },
+      });
+
+      for (const webhook of webhooks) {
+        await this.queueDelivery(webhook.id, event, { receipt: toWebhookReceipt(receipt) });
+      }
+    } catch (error) {
+      console.error(`[Webhook] Error queueing ${event} for receipt ${receiptId}:`, error);
+    }
+  }
+
+  // Send a test event to one webhook, enabled or not, to check the receiver and its
+  // signature verification
+  async testWebhook(organizationId: string, id: string) {
+    const webhook = await this.getWebhook(organizationId, id);
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    return this.queueDelivery(webhook.id, WEBHOOK_TEST_EVENT, {
+      message: 'Test event from Shewaber OCR',
+    });
+  }
+
+  // Send a delivery again with its original payload, e.g. after a receiver outage
+  async redeliver(organizationId: string, deliveryId: string) {
+    const delivery = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhook: { organizationId } },
+    });
+    if (!delivery) {
+      throw new Error('Webhook delivery not found');
+    }
+
+    const queued = await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'PENDING', error: null },
+    });
+    await addWebhookJob({ deliveryId });
+    return queued;
+  }
+
+  // One delivery attempt. Throws when the receiver did not accept the event, so the queue
+  // retries it; the last attempt marks the delivery FAILED.
+  async deliver(deliveryId: string, finalAttempt: boolean) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+    if (!delivery) {
+      // Deleted along with its webhook
+      console.warn(`[Webhook] Delivery ${deliveryId} no longer exists, skipping`);
+      return;
+    }
+
+    // Events queued before the webhook was switched off are not sent; test pings go out regardless
+    if (!delivery.webhook.enabled && delivery.event !== WEBHOOK_TEST_EVENT) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'SKIPPED', error: 'Webhook is disabled' },
+      });
+      console.log(`[Webhook] Skipped delivery ${deliveryId}, webhook ${delivery.webhookId} is disabled`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.webhook.url, {
+        method: 'POST',
+        body,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'shewaber-ocr-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.webhook.secret, timestamp, body),
+        },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.name === 'TimeoutError' ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms` : requestError.message;
+    }
+
+    const succeeded = error === null;
+    await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: succeeded ? 'SUCCEEDED' : finalAttempt ? 'FAILED' : 'PENDING',
+        attempts: { increment: 1 },
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startedAt,
+        deliveredAt: succeeded ? new Date() : null,
+      },
+    });
+
+    if (!succeeded) {
+      throw new Error(`Delivery of ${delivery.event} to ${delivery.webhook.url} failed: ${error}`);
+    }
+
+    console.log(`[Webhook] Delivered ${delivery.event} to ${delivery.webhook.url} (${responseStatus})`);
+  }
+
+  private async queueDelivery(webhookId: string, event: WebhookEvent | typeof WEBHOOK_TEST_EVENT, data: WebhookEventData) {
+    // The delivery id is part of the payload, so receivers can drop repeats
+    const id = crypto.randomUUID();
+    const payload = JSON.parse(
+      JSON.stringify({
+        id,
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      })
+    );
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: { id, webhookId, event, payload },
+    });
+    await addWebhookJob({ deliveryId: delivery.id });
+    return delivery;
+  }
+}
@@ -0,0 +1,78 @@
+import express from 'express';
+import { IncomingHttpHeaders } from 'http';
+import { UserRole } from '@prisma/client';
+import { AUTH_TOKEN_TTL_HOURS, AuthError, AuthService, AuthUser, requireRole } from '../services/auth.service';
+
+// Session cookie of the web interface. Integrations send a Bearer token or API key instead.
+export const AUTH_COOKIE = 'auth_token';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Undefined when the cookie is missing or malformed (e.g. "%E0"); the request is then
+// treated as unauthenticated
+function readCookie(header: string | undefined, name: string): string | undefined {
+  for (const part of (header || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Credentials of a request: "Authorization: Bearer <JWT or API key>", "X-API-Key: <API key>",
+// or the session cookie
+export function getRequestToken(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKey = headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey) {
+    return apiKey.trim();
+  }
+
+  return readCookie(headers.cookie, AUTH_COOKIE);
+}
+
+export function setAuthCookie(res: express.Response, token: string) {
+  res.cookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.COOKIE_SECURE === 'true',
+    maxAge: AUTH_TOKEN_TTL_HOURS * 3600 * 1000,
+  });
+}
+
+export function clearAuthCookie(res: express.Response) {
+  res.clearCookie(AUTH_COOKIE, { httpOnly: true, sameSite: 'lax', secure: process.env.COOKIE_SECURE === 'true' });
+}
+
+// Express middleware: sets req.user from the request's credentials and, when a role is
+// given, answers 401/403 for callers without it
+export function authenticate(authService: AuthService, role: UserRole = 'SUBMITTER') {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const user = await authService.authenticateToken(getRequestToken(req.headers));
+      req.user = requireRole(user, role);
+      next();
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  };
+}
+
@@ -0,0 +1,170 @@
+// Ethiopian (Ge'ez) calendar helpers
+// The Ethiopian calendar has 12 months of 30 days plus a 13th month (Pagume) of
+// 5 days, or 6 days in a leap year. Every 4th year (year % 4 === 3) is a leap year.
+// Conversions go through the Julian Day Number (JDN) and use UTC dates only.
+
+export type CalendarSystem = 'GREGORIAN' | 'ETHIOPIAN';
+
+export interface CalendarDate {
+  calendar: CalendarSystem;
+  year: number;
+  month: number; // 1-based (1-13 for Ethiopian)
+  day: number;
+  monthName: string;
+  formatted: string; // DD/MM/YYYY, the way receipts print dates
+}
+
+// JDN of 1 Meskerem 1 (Amete Mihret era)
+const ETHIOPIAN_EPOCH = 1724221;
+
+export const ETHIOPIAN_MONTHS = [
+  'Meskerem',
+  'Tikimt',
+  'Hidar',
+  'Tahsas',
+  'Tir',
+  'Yekatit',
+  'Megabit',
+  'Miyazya',
+  'Ginbot',
+  'Sene',
+  'Hamle',
+  'Nehase',
+  'Pagume',
+];
+
+const GREGORIAN_MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+export function isEthiopianLeapYear(year: number): boolean {
+  return year % 4 === 3;
+}
+
+export function isValidEthiopianDate(year: number, month: number, day: number): boolean {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+    return false;
+  }
+  if (month < 1 || month > 13 || day < 1) {
+    return false;
+  }
+  if (month === 13) {
+    return day <= (isEthiopianLeapYear(year) ? 6 : 5);
+  }
+  return day <= 30;
+}
+
+function ethiopianToJdn(year: number, month: number, day: number): number {
+  return ETHIOPIAN_EPOCH - 1 + 365 * (year - 1) + Math.floor(year / 4) + 30 * (month - 1) + day;
+}
+
+function jdnToEthiopian(jdn: number): { year: number; month: number; day: number } {
+  // Estimate the year, then correct it against the exact start of year
+  let year = Math.floor((jdn - ETHIOPIAN_EPOCH) / 365.25) + 1;
+  while (ethiopianToJdn(year + 1, 1, 1) <= jdn) year++;
+  while (ethiopianToJdn(year, 1, 1) > jdn) year--;
+
+  const dayOfYear = jdn - ethiopianToJdn(year, 1, 1);
+  return {
+    year,
+    month: Math.floor(dayOfYear / 30) + 1,
+    day: (dayOfYear % 30) + 1,
+  };
+}
+
+function gregorianToJdn(year: number, month: number, day: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+}
+
+function jdnToGregorian(jdn: number): { year: number; month: number; day: number } {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+    month: m + 3 - 12 * Math.floor(m / 10),
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+  };
+}
+
+// Convert an Ethiopian date to a Gregorian Date at UTC midnight
+export function ethiopianToGregorian(year: number, month: number, day: number): Date {
+  if (!isValidEthiopianDate(year, month, day)) {
+    throw new Error(`Invalid Ethiopian date: ${day}/${month}/${year}`);
+  }
+  const gregorian = jdnToGregorian(ethiopianToJdn(year, month, day));
+  return new Date(Date.UTC(gregorian.year, gregorian.month - 1, gregorian.day));
+}
+
+// Convert a Gregorian Date (UTC components) to an Ethiopian date
+export function gregorianToEthiopian(date: Date): { year: number; month: number; day: number } {
+  return jdnToEthiopian(gregorianToJdn(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()));
+}
+
+// Express a date in the requested calendar
+export function toCalendarDate(date: Date, calendar: CalendarSystem): CalendarDate {
+  const { year, month, day } = calendar === 'ETHIOPIAN'
+    ? gregorianToEthiopian(date)
+    : { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+
+  return {
+    calendar,
+    year,
+    month,
+    day,
+    monthName: (calendar === 'ETHIOPIAN' ? ETHIOPIAN_MONTHS : GREGORIAN_MONTHS)[month - 1],
+    formatted: `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`,
+  };
+}
+
+// Decide whether a printed day/month/year is an Ethiopian calendar date.
+// Receipts rarely say which calendar they use, so this relies on:
+// 1. An explicit era marker next to the date (E.C., EC, ዓ.ም)
+// 2. A 13th month, which only exists in the Ethiopian calendar
+// 3. A year within the last few Ethiopian years whose Gregorian reading would make
+//    the receipt several years old. The calendars are 7-8 years apart, so a recent
+//    Ethiopian year read as Gregorian always lands well in the past.
+export function looksLikeEthiopianDate(
+  day: number,
+  month: number,
+  year: number,
+  context: string = '',
+  now: Date = new Date()
+): boolean {
+  if (!isValidEthiopianDate(year, month, day)) {
+    return false;
+  }
+
+  if (/\bE\.?\s?C\.?(?![A-Za-z])|ዓ\s*[./]?\s*ም/i.test(context)) {
+    return true;
+  }
+
+  if (month === 13) {
+    return true;
+  }
+
+  const currentEthiopianYear = gregorianToEthiopian(now).year;
+  if (year < currentEthiopianYear - 3 || year > currentEthiopianYear) {
+    return false;
+  }
+
+  const fourYearsAgo = Date.UTC(now.getUTCFullYear() - 4, now.getUTCMonth(), now.getUTCDate());
+  return Date.UTC(year, month - 1, Math.min(day, 28)) < fourYearsAgo;
+}
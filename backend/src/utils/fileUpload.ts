@@ -10,9 +10,40 @@ if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
 
+// Uploads of each organization are kept in their own subdirectory, named after its id.
+// Files in the root are from before organizations existed and belong to the default one.
+export const DEFAULT_ORGANIZATION_ID = 'default';
+
+export function organizationUploadDir(organizationId: string): string {
+  const dir = path.join(uploadDir, organizationId);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+export function uploadedFileUrl(organizationId: string, filename: string): string {
+  return `/uploads/${organizationId}/${filename}`;
+}
+
+// File on disk behind an /uploads URL
+export function uploadedFilePath(url: string): string {
+  return path.join(uploadDir, url.replace(/^\/uploads\//, ''));
+}
+
+// Whether a path below /uploads belongs to the organization
+export function isOrganizationUpload(organizationId: string, urlPath: string): boolean {
+  const segments = urlPath.split('/').filter((segment) => segment.length > 0);
+  if (segments.length === 1) {
+    return organizationId === DEFAULT_ORGANIZATION_ID;
+  }
+  return segments.length === 2 && segments[0] === organizationId;
+}
+
+// Requests reaching multer have been authenticated, see utils/auth
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, uploadDir);
+    cb(null, organizationUploadDir(req.user!.organizationId));
   },
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
@@ -20,14 +51,14 @@ const storage = multer.diskStorage({
   },
 });
 
+// Receipt photos, plus PDF invoices (digital or scanned)
+const allowedMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Accept only image files
-  const allowedMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
-  
   if (allowedMimes.includes(file.mimetype)) {
     cb(null, true);
   } else {
-    cb(new Error('Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.'));
+    cb(new Error('Invalid file type. Only JPEG, PNG, GIF, WebP images and PDF files are allowed.'));
   }
 };
 
@@ -39,14 +70,59 @@ export const upload = multer({
   },
 });
 
+// Batch uploads: many receipts per request, or ZIP archives of them
+export const MAX_BATCH_FILES = 100;
+
+const zipMimes = ['application/zip', 'application/x-zip-compressed'];
+
+const batchFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  // Some browsers send ZIP archives as a generic binary
+  const isZipName = path.extname(file.originalname).toLowerCase() === '.zip';
+  if (allowedMimes.includes(file.mimetype) || zipMimes.includes(file.mimetype) || (file.mimetype === 'application/octet-stream' && isZipName)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only JPEG, PNG, GIF, WebP images, PDF files and ZIP archives are allowed.'));
+  }
+};
+
+export const batchUpload = multer({
+  storage,
+  fileFilter: batchFileFilter,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB, for ZIP archives; single receipts are checked with validateImage
+    files: MAX_BATCH_FILES,
+  },
+});
+
+// Type of a receipt file from its leading bytes, as the extension it is stored with; null
+// for anything that is not a JPEG, PNG, GIF, WebP image or PDF
+export function detectFileType(data: Buffer): string | null {
+  const signature = data.subarray(0, 12).toString('latin1');
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return '.jpg';
+  }
+  if (signature.startsWith('\x89PNG\r\n\x1a\n')) {
+    return '.png';
+  }
+  if (signature.startsWith('GIF87a') || signature.startsWith('GIF89a')) {
+    return '.gif';
+  }
+  if (signature.startsWith('RIFF') && signature.slice(8, 12) === 'WEBP') {
+    return '.webp';
+  }
+  if (signature.startsWith('%PDF-')) {
+    return '.pdf';
+  }
+  return null;
+}
+
 export const validateImage = (file: Express.Multer.File): { valid: boolean; error?: string } => {
-  const allowedMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
   const maxSize = 10 * 1024 * 1024; // 10MB
 
   if (!allowedMimes.includes(file.mimetype)) {
     return {
       valid: false,
-      error: 'Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.',
+      error: 'Invalid file type. Only JPEG, PNG, GIF, WebP images and PDF files are allowed.',
     };
   }
 
@@ -60,3 +136,20 @@ export const validateImage = (file: Express.Multer.File): { valid: boolean; erro
   return { valid: true };
 };
 
+// Delete an upload together with the files derived from it: the preprocessed copy
+// (123.processed.png) and rendered PDF pages (123.page-1.png, 123.page-1.processed.png)
+export const deleteUploadedFile = (filePath: string) => {
+  const { dir, name } = path.parse(filePath);
+  const derived = new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.(processed|page-\\d+(\\.processed)?)\\.png$`);
+
+  const files = [filePath];
+  if (fs.existsSync(dir)) {
+    files.push(...fs.readdirSync(dir).filter((file) => derived.test(file)).map((file) => path.join(dir, file)));
+  }
+
+  for (const file of files) {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+};
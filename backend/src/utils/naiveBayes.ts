@@ -0,0 +1,76 @@
+// Multinomial naive Bayes text classifier with Laplace smoothing, small enough to be
+// trained on every use from an organization's category corrections
+
+export interface TrainingExample {
+  text: string;
+  label: string;
+}
+
+export interface NaiveBayesModel {
+  labels: Map<string, { examples: number; tokens: Map<string, number>; tokenTotal: number }>;
+  vocabulary: Set<string>;
+  exampleTotal: number;
+}
+
+export interface Classification {
+  label: string;
+  probability: number; // Of the best label against the others, 0-1
+}
+
+// Words of an item name: letters and digits in any script, lowercased. Numbers alone
+// (quantities, prices, codes) say nothing about the category.
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((token) => token.length > 1 && !/^\d+$/.test(token));
+}
+
+export function trainNaiveBayes(examples: TrainingExample[]): NaiveBayesModel {
+  const model: NaiveBayesModel = { labels: new Map(), vocabulary: new Set(), exampleTotal: 0 };
+
+  for (const example of examples) {
+    const tokens = tokenize(example.text);
+    if (tokens.length === 0) {
+      continue;
+    }
+
+    let label = model.labels.get(example.label);
+    if (!label) {
+      label = { examples: 0, tokens: new Map(), tokenTotal: 0 };
+      model.labels.set(example.label, label);
+    }
+
+    label.examples++;
+    model.exampleTotal++;
+    for (const token of tokens) {
+      label.tokens.set(token, (label.tokens.get(token) || 0) + 1);
+      label.tokenTotal++;
+      model.vocabulary.add(token);
+    }
+  }
+
+  return model;
+}
+
+// The most likely label, or null when the model cannot tell: fewer than two labels
+// trained, or no word of the text seen in training
+export function classify(model: NaiveBayesModel, text: string): Classification | null {
+  const tokens = tokenize(text).filter((token) => model.vocabulary.has(token));
+  if (model.labels.size < 2 || tokens.length === 0) {
+    return null;
+  }
+
+  const scores: { label: string; score: number }[] = [];
+  for (const [label, stats] of model.labels) {
+    let score = Math.log(stats.examples / model.exampleTotal);
+    for (const token of tokens) {
+      score += Math.log(((stats.tokens.get(token) || 0) + 1) / (stats.tokenTotal + model.vocabulary.size));
+    }
+    scores.push({ label, score });
+  }
+
+  // Log scores to probabilities, shifted by the best score so exp() does not underflow
+  scores.sort((a, b) => b.score - a.score);
+  const best = scores[0];
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+
+  return { label: best.label, probability: 1 / total };
+}
@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { ExtractedData, ReceiptSummaryData } from '../services/ocr.service';
+
+// Receipt columns filled from parsed OCR text. Shared by the OCR worker and re-parsing,
+// so a re-parsed receipt ends up exactly as if it had been uploaded again.
+export function buildExtractedFields(extractedData: ExtractedData) {
+  // Validate date before saving
+  let validDate = null;
+  if (extractedData.purchaseDate && !isNaN(extractedData.purchaseDate.getTime())) {
+    validDate = extractedData.purchaseDate;
+  }
+
+  return {
+    storeName: extractedData.storeName || null,
+    purchaseDate: validDate,
+    purchaseDateRaw: validDate ? extractedData.purchaseDateRaw || null : null,
+    purchaseDateCalendar: validDate ? extractedData.purchaseDateCalendar || null : null,
+    totalAmount: extractedData.totalAmount || null,
+    tin: extractedData.tin || null,
+    fsNumber: extractedData.fsNumber || null,
+    mrc: extractedData.mrc || null,
+    referenceNumber: extractedData.referenceNumber || null,
+    cashier: extractedData.cashier || null,
+    paymentMethod: extractedData.paymentMethod || null,
+    confidence: extractedData.confidence ?? null,
+    textSource: extractedData.textSource || null,
+    ocrEngine: extractedData.ocrEngine || null,
+    templateId: extractedData.templateId || null,
+    extraction: extractedData.provenance satisfies Prisma.InputJsonValue,
+  };
+}
+
+// Nested create input for the receipt's items, which carry its organization
+export function buildItemsCreate(extractedData: ExtractedData, organizationId: string) {
+  return extractedData.items.map((item) => ({
+    organizationId,
+    name: item.name,
+    quantity: item.quantity || null,
+    unit: item.unit || null,
+    price: item.price ?? null,
+    amount: item.amount ?? null,
+    confidence: item.provenance?.confidence ?? null,
+    extraction: item.provenance satisfies Prisma.InputJsonValue | undefined,
+  }));
+}
+
+// Nested create input for the receipt's subtotal/tax/total block
+export function buildSummaryCreate(summary?: ReceiptSummaryData) {
+  if (!summary) {
+    return undefined;
+  }
+
+  return {
+    create: {
+      subtotal: summary.subtotal ?? null,
+      taxTotal: summary.taxTotal ?? null,
+      discountTotal: summary.discountTotal ?? null,
+      rounding: summary.rounding ?? null,
+      grandTotal: summary.grandTotal ?? null,
+      lines: {
+        create: summary.lines.map((line, index) => ({
+          type: line.type,
+          label: line.label,
+          rate: line.rate ?? null,
+          amount: line.amount,
+          position: index,
+        })),
+      },
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+
+// Signing of outbound webhook requests. Kept apart from the webhook service so receivers,
+// like the development receiver script, can verify requests without a queue connection.
+
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of '<t>.<body>'>"
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Receivers should reject signatures older than this, against replays
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Check a signature header against the raw request body, as a receiver would
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(
+    (header || '').split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = parseInt(parts.t, 10);
+  if (!timestamp || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
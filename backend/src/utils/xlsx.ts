@@ -0,0 +1,106 @@
+import AdmZip from 'adm-zip';
+
+// Minimal XLSX writer: one worksheet of text and number cells, with the header row frozen.
+// An .xlsx file is a ZIP archive of XML parts; strings are written inline, so no shared
+// strings table is needed.
+
+export type XlsxCell = string | number | null | undefined;
+
+// Excel's row limit, header row included
+export const XLSX_MAX_ROWS = 1048576;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Style 0 is the default, style 1 the bold header
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+function escapeXml(text: string) {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '') // Not allowed in XML
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters of a zero-based index: 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function rowXml(cells: XlsxCell[], rowNumber: number, style = 0): string {
+  const xml = cells.map((cell, index) => {
+    const ref = `${columnName(index)}${rowNumber}`;
+    const s = style ? ` s="${style}"` : '';
+    if (cell === null || cell === undefined || cell === '') {
+      return '';
+    }
+    if (typeof cell === 'number') {
+      return Number.isFinite(cell) ? `<c r="${ref}"${s}><v>${cell}</v></c>` : '';
+    }
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${xml.join('')}</row>`;
+}
+
+export function writeXlsx(sheetName: string, header: string[], rows: XlsxCell[][]): Buffer {
+  if (rows.length + 1 > XLSX_MAX_ROWS) {
+    throw new Error(`XLSX sheets hold at most ${XLSX_MAX_ROWS - 1} rows`);
+  }
+
+  // Built from one buffer per row: a large sheet does not fit in a single string
+  const sheet = Buffer.concat([
+    Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>`),
+    Buffer.from(rowXml(header, 1, 1)),
+    ...rows.map((row, index) => Buffer.from('\n' + rowXml(row, index + 2))),
+    Buffer.from('</sheetData>\n</worksheet>'),
+  ]);
+
+  // Sheet names are at most 31 characters, without []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+  const zip = new AdmZip();
+  zip.addFile('[Content_Types].xml', Buffer.from(CONTENT_TYPES));
+  zip.addFile('_rels/.rels', Buffer.from(ROOT_RELS));
+  zip.addFile('xl/workbook.xml', Buffer.from(workbook));
+  zip.addFile('xl/_rels/workbook.xml.rels', Buffer.from(WORKBOOK_RELS));
+  zip.addFile('xl/styles.xml', Buffer.from(STYLES));
+  zip.addFile('xl/worksheets/sheet1.xml', sheet);
+  return zip.toBuffer();
+}
@@ -1,7 +1,33 @@
 // Worker process entry point
-// This file runs the OCR worker that processes jobs from the queue
+// This file runs the OCR worker that processes jobs from the queue,
+// the worker that re-parses stored OCR output in bulk, the one that delivers webhooks and
+// the one that writes receipt exports
 
-import './worker/ocr.worker';
+import { closeOcrWorker } from './worker/ocr.worker';
+import { closeReparseWorker } from './worker/reparse.worker';
+import { closeWebhookWorker } from './worker/webhook.worker';
+import { closeExportWorker } from './worker/export.worker';
+
+// One shutdown for all workers: the process exits only once every worker has closed
+let shuttingDown = false;
+async function gracefulShutdown() {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  console.log('[Worker] Shutting down gracefully...');
+
+  const results = await Promise.allSettled([closeOcrWorker(), closeReparseWorker(), closeWebhookWorker(), closeExportWorker()]);
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  for (const failure of failures) {
+    console.error('[Worker] Error during shutdown:', failure.reason);
+  }
+
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+process.on('SIGTERM', gracefulShutdown);
+process.on('SIGINT', gracefulShutdown);
 
 // Keep the process alive
 process.on('unhandledRejection', (reason, promise) => {
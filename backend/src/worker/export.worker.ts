@@ -0,0 +1,75 @@
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import { EXPORT_DIR, ExportService, exportFileName, exportFilePath, removeExpiredExports } from '../services/export.service';
+import { receiptScope } from '../services/auth.service';
+import { ExportJobData, ExportJobResult } from '../queue/export.queue';
+import path from 'path';
+
+// Load environment variables
+import dotenv from 'dotenv';
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+const prisma = new PrismaClient();
+const exportService = new ExportService(prisma);
+
+// Create Redis connection
+const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// Write receipt exports to files the API serves for download
+export const exportWorker = new Worker<ExportJobData, ExportJobResult>(
+  'receipt-export',
+  async (job: Job<ExportJobData, ExportJobResult>) => {
+    console.log(`[Export] Processing job ${job.id}`);
+    const { user, options } = job.data;
+
+    fs.mkdirSync(EXPORT_DIR, { recursive: true });
+    removeExpiredExports();
+
+    const scope = receiptScope(user);
+    const total = await exportService.countRows(scope, options);
+    const file = exportFilePath(job.id!, options.format);
+    const output = fs.createWriteStream(file);
+
+    try {
+      const rowCount = await exportService.writeExport(scope, options, output, async (rows) => {
+        await job.updateProgress(total > 0 ? Math.min(99, Math.round((rows / total) * 100)) : 99);
+      });
+      await job.updateProgress(100);
+
+      return { format: options.format, layout: options.layout, rowCount, fileName: exportFileName(options, new Date(job.timestamp)) };
+    } catch (error) {
+      output.destroy();
+      fs.rmSync(file, { force: true });
+      throw error;
+    }
+  },
+  {
+    connection,
+    concurrency: 1, // Exports are heavy on the database; one at a time
+  }
+);
+
+exportWorker.on('completed', (job, result) => {
+  console.log(`[Export] Job ${job.id} completed: ${result.rowCount} rows`);
+});
+
+exportWorker.on('failed', (job, err) => {
+  console.error(`[Export] Job ${job?.id} failed:`, err.message);
+});
+
+exportWorker.on('error', (err) => {
+  console.error('[Export] Worker error:', err);
+});
+
+// Closed by the shutdown in worker.ts
+export async function closeExportWorker() {
+  await exportWorker.close();
+  await prisma.$disconnect();
+  await connection.quit();
+}
+
+console.log('[Export] Export worker started and ready to process jobs');
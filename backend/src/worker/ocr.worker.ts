@@ -1,8 +1,20 @@
 import { Worker, Job } from 'bullmq';
 import Redis from 'ioredis';
-import { PrismaClient } from '@prisma/client';
-import { OCRService } from '../services/ocr.service';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ExtractedData, OCRService, RecognizedText } from '../services/ocr.service';
+import { ValidationService } from '../services/validation.service';
+import { DuplicateService } from '../services/duplicate.service';
+import { MerchantService } from '../services/merchant.service';
+import { CategoryService } from '../services/category.service';
+import { ReceiptTemplateRecord, TemplateService } from '../services/template.service';
+import { ReparseService } from '../services/reparse.service';
+import { WebhookService } from '../services/webhook.service';
+import { PreprocessResult } from '../services/preprocess.service';
+import { PdfMode, PdfService, isPdf } from '../services/pdf.service';
+import { DEFAULT_ORGANIZATION_ID, deleteUploadedFile, uploadedFilePath } from '../utils/fileUpload';
+import { buildExtractedFields, buildItemsCreate, buildSummaryCreate } from '../utils/receiptData';
 import { OCRJobData, OCRJobResult } from '../queue/ocr.queue';
+import { createEventsProducer, publishReceiptsChanged } from '../queue/events';
 import fs from 'fs';
 import path from 'path';
 
@@ -12,17 +24,201 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
 const prisma = new PrismaClient();
 const ocrService = new OCRService();
+const validationService = new ValidationService(prisma);
+const duplicateService = new DuplicateService(prisma);
+const merchantService = new MerchantService(prisma);
+const categoryService = new CategoryService(prisma);
+const templateService = new TemplateService(prisma);
+const reparseService = new ReparseService(prisma, ocrService);
+const webhookService = new WebhookService(prisma);
+const pdfService = new PdfService();
+const eventsProducer = createEventsProducer('ocr-processing');
+
+// Organizations with their own OCR languages get their own service and Tesseract worker;
+// the others share the default one (OCR_LANGUAGES)
+const languageOcrServices = new Map<string, OCRService>();
+
+function getOcrService(languages: string | null): OCRService {
+  if (!languages) {
+    return ocrService;
+  }
+  let service = languageOcrServices.get(languages);
+  if (!service) {
+    service = new OCRService({ languages });
+    languageOcrServices.set(languages, service);
+  }
+  return service;
+}
 
 // Create Redis connection
 const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
   maxRetriesPerRequest: null,
 });
 
+// Where the preprocessed image is served from and what was done to it.
+// Rendered PDF pages are shown as the processed image when preprocessing was skipped.
+function buildPreprocessingData(imageUrl: string, result?: PreprocessResult, renderedPagePath?: string) {
+  const toUrl = (filePath: string) => path.posix.join(path.posix.dirname(imageUrl), path.basename(filePath));
+
+  if (!result) {
+    return {
+      processedImageUrl: renderedPagePath ? toUrl(renderedPagePath) : null,
+      preprocessing: Prisma.DbNull,
+    };
+  }
+
+  const { outputPath, ...report } = result;
+  return {
+    processedImageUrl: toUrl(outputPath),
+    preprocessing: report satisfies Prisma.InputJsonValue,
+  };
+}
+
+// One receipt's worth of extracted data, with where it came from in the upload
+interface Extraction {
+  data: ExtractedData;
+  pages: RecognizedText[]; // Raw OCR output the data was parsed from, stored for re-parsing
+  sourcePage?: number;
+  renderedPagePath?: string;
+  imagePath?: string; // Image the receipt was read from, for duplicate detection
+}
+
+// Read a PDF: embedded text where available, OCR on rendered pages otherwise.
+// In 'pages' mode every page becomes its own receipt; otherwise all pages form one.
+async function extractPdf(
+  pdfPath: string,
+  pdfMode: PdfMode,
+  preprocessing: OCRJobData['preprocessing'],
+  engine: OCRJobData['engine'],
+  templates: ReceiptTemplateRecord[],
+  ocr: OCRService
+): Promise<Extraction[]> {
+  const pages = await pdfService.extractPages(pdfPath);
+  if (pages.length === 0) {
+    throw new Error('PDF has no pages');
+  }
+
+  const recognized: RecognizedText[] = [];
+  for (const page of pages) {
+    recognized.push(page.text ?? (await ocr.recognize(page.imagePath!, preprocessing, engine)));
+  }
+
+  if (pdfMode === 'pages') {
+    return pages.map((page, index) => ({
+      data: ocr.parse([recognized[index]], templates),
+      pages: [recognized[index]],
+      sourcePage: page.pageNumber,
+      renderedPagePath: page.imagePath,
+      imagePath: page.imagePath,
+    }));
+  }
+
+  const renderedPagePath = pages.find((page) => page.imagePath)?.imagePath;
+  return [
+    {
+      data: ocr.parse(recognized, templates),
+      pages: recognized,
+      renderedPagePath,
+      imagePath: renderedPagePath,
+    },
+  ];
+}
+
+async function extractImage(
+  imagePath: string,
+  preprocessing: OCRJobData['preprocessing'],
+  engine: OCRJobData['engine'],
+  templates: ReceiptTemplateRecord[],
+  ocr: OCRService
+): Promise<Extraction[]> {
+  const recognized = await ocr.recognize(imagePath, preprocessing, engine);
+  return [{ data: ocr.parse([recognized], templates), pages: [recognized], imagePath }];
+}
+
+// Save extracted data into the placeholder receipt created at upload, or a new receipt
+async function saveReceipt(
+  extraction: Extraction,
+  imageUrl: string,
+  organization: { id: string; currency: string },
+  receiptId?: string,
+  batchId?: string,
+  ownerId?: string
+) {
+  const extractedData = extraction.data;
+
+  const data = {
+    ...buildExtractedFields(extractedData),
+    currency: organization.currency,
+    imageHash: extraction.imagePath ? await duplicateService.computeImageHash(extraction.imagePath) : null,
+    ...buildPreprocessingData(imageUrl, extractedData.preprocessing, extraction.renderedPagePath),
+    sourcePage: extraction.sourcePage ?? null,
+    status: 'NEEDS_REVIEW' as const, // Extraction done, waiting for a human to verify it
+    summary: buildSummaryCreate(extractedData.summary),
+  };
+
+  const items = buildItemsCreate(extractedData, organization.id);
+
+  if (receiptId) {
+    // Update existing receipt
+    // Replace any summary from a previous run
+    await prisma.receiptSummary.deleteMany({
+      where: { receiptId },
+    });
+
+    return prisma.receipt.update({
+      where: { id: receiptId },
+      data: {
+        ...data,
+        statusReason: null,
+        items: {
+          deleteMany: {}, // Remove old items
+          create: items,
+        },
+      },
+      include: {
+        items: true,
+      },
+    });
+  }
+
+  // Create new receipt
+  return prisma.receipt.create({
+    data: {
+      ...data,
+      organizationId: organization.id,
+      imageUrl,
+      batchId: batchId ?? null,
+      ownerId: ownerId ?? null,
+      items: {
+        create: items,
+      },
+    },
+    include: {
+      items: true,
+    },
+  });
+}
+
+// Receipt an earlier attempt of the job saved for an extra PDF page, so that a retry updates
+// it instead of adding the page again
+async function findPageReceiptId(organizationId: string, imageUrl: string, sourcePage?: number, placeholderId?: string) {
+  if (sourcePage === undefined) {
+    return undefined;
+  }
+  const existing = await prisma.receipt.findFirst({
+    where: { organizationId, imageUrl, sourcePage, ...(placeholderId ? { id: { not: placeholderId } } : {}) },
+    select: { id: true },
+  });
+  return existing?.id;
+}
+
 // Create worker
 export const ocrWorker = new Worker<OCRJobData, OCRJobResult>(
   'ocr-processing',
   async (job: Job<OCRJobData, OCRJobResult>) => {
-    const { filePath, filename, imageUrl, receiptId } = job.data;
+    const { filePath, filename, imageUrl, receiptId, batchId, ownerId, preprocessing, pdfMode, engine } = job.data;
+    // Jobs queued before organizations existed belong to the default one
+    const organizationId = job.data.organizationId || DEFAULT_ORGANIZATION_ID;
 
     console.log(`[Worker] Processing OCR job ${job.id} for file: ${filename}`);
 
@@ -30,13 +226,25 @@ export const ocrWorker = new Worker<OCRJobData, OCRJobResult>(
       // Update job progress
       await job.updateProgress(10);
 
-      // Construct file path using UPLOAD_DIR if filePath is relative or doesn't exist
-      const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
+      // Everything the job creates goes to its organization, with that organization's
+      // settings. The placeholder receipt must be one of its own.
+      const organization = await prisma.organization.findUnique({ where: { id: organizationId } });
+      if (!organization) {
+        throw new Error(`Organization ${organizationId} not found`);
+      }
+      if (receiptId) {
+        const placeholder = await prisma.receipt.findUnique({ where: { id: receiptId }, select: { organizationId: true } });
+        if (placeholder && placeholder.organizationId !== organizationId) {
+          throw new Error(`Receipt ${receiptId} does not belong to organization ${organizationId}`);
+        }
+      }
+
+      // Construct file path from the image URL if filePath is relative or doesn't exist
       let actualFilePath = filePath;
       
-      // If file doesn't exist at the given path, try constructing it from uploadDir
+      // If file doesn't exist at the given path, try the upload directory
       if (!fs.existsSync(filePath)) {
-        actualFilePath = path.join(uploadDir, filename);
+        actualFilePath = uploadedFilePath(imageUrl);
         console.log(`[Worker] File not found at ${filePath}, trying ${actualFilePath}`);
       }
       
@@ -49,64 +257,50 @@ export const ocrWorker = new Worker<OCRJobData, OCRJobResult>(
 
       await job.updateProgress(20);
 
-      // Perform OCR
-      const extractedData = await ocrService.extractData(actualFilePath);
+      // Perform OCR, or read the text layer of a PDF, and parse it with the generic
+      // heuristics or a matching merchant template
+      const templates = await templateService.getActiveTemplates(organization.id);
+      const ocr = getOcrService(organization.ocrLanguages);
+      const extractions = isPdf(actualFilePath)
+        ? await extractPdf(actualFilePath, pdfMode || 'document', preprocessing, engine, templates, ocr)
+        : await extractImage(actualFilePath, preprocessing, engine, templates, ocr);
       await job.updateProgress(70);
 
-      // Save to database
-      let receipt;
-      
-      if (receiptId) {
-        // Update existing receipt
-        // Validate date before saving
-        let validDate = null;
-        if (extractedData.purchaseDate && !isNaN(extractedData.purchaseDate.getTime())) {
-          validDate = extractedData.purchaseDate;
+      // Save to database. The first result fills the placeholder receipt from the upload.
+      const receipts = [];
+      const createdIds: string[] = [];
+      for (const [index, extraction] of extractions.entries()) {
+        const existingId =
+          index === 0 ? receiptId : await findPageReceiptId(organization.id, imageUrl, extraction.sourcePage, receiptId);
+        const saved = await saveReceipt(extraction, imageUrl, organization, existingId, batchId, ownerId);
+        await reparseService.saveOcrOutput(saved.id, extraction.pages);
+        receipts.push(saved);
+        if (!existingId) {
+          createdIds.push(saved.id);
         }
-        
-        receipt = await prisma.receipt.update({
-          where: { id: receiptId },
-          data: {
-            storeName: extractedData.storeName || null,
-            purchaseDate: validDate,
-            totalAmount: extractedData.totalAmount || null,
-            items: {
-              deleteMany: {}, // Remove old items
-              create: extractedData.items.map((item) => ({
-                name: item.name,
-                quantity: item.quantity || null,
-              })),
-            },
-          },
-          include: {
-            items: true,
-          },
-        });
-      } else {
-        // Create new receipt
-        // Validate date before saving
-        let validDate = null;
-        if (extractedData.purchaseDate && !isNaN(extractedData.purchaseDate.getTime())) {
-          validDate = extractedData.purchaseDate;
+      }
+      const receipt = receipts[0];
+
+      // Check line items, subtotal, taxes and total against each other, link the
+      // merchant, categorize the items, and flag receipts that were uploaded before
+      let duplicateOfId: string | null = null;
+      for (const saved of receipts) {
+        await validationService.validateReceipt(saved.id);
+        await merchantService.matchReceipt(saved.id);
+        await categoryService.categorizeReceipt(saved.id);
+        const duplicate = await duplicateService.checkReceipt(saved.id);
+        if (saved.id === receipt.id) {
+          duplicateOfId = duplicate.duplicateOfId;
         }
-        
-        receipt = await prisma.receipt.create({
-          data: {
-            storeName: extractedData.storeName || null,
-            purchaseDate: validDate,
-            totalAmount: extractedData.totalAmount || null,
-            imageUrl,
-            items: {
-              create: extractedData.items.map((item) => ({
-                name: item.name,
-                quantity: item.quantity || null,
-              })),
-            },
-          },
-          include: {
-            items: true,
-          },
-        });
+      }
+
+      // Tell subscribers: the placeholder from the upload was filled, extra PDF pages are new
+      // unless an earlier attempt saved them already
+      const updatedIds = receipts.map((saved) => saved.id).filter((id) => !createdIds.includes(id));
+      await publishReceiptsChanged(eventsProducer, organization.id, updatedIds, 'UPDATED');
+      await publishReceiptsChanged(eventsProducer, organization.id, createdIds, 'CREATED');
+      for (const saved of receipts) {
+        await webhookService.emitReceiptEvent('receipt.processed', saved.id);
       }
 
       await job.updateProgress(100);
@@ -116,26 +310,34 @@ export const ocrWorker = new Worker<OCRJobData, OCRJobResult>(
       // Return only parsed structured data
       return {
         receiptId: receipt.id,
+        receiptIds: receipts.length > 1 ? receipts.map((saved) => saved.id) : undefined,
         storeName: receipt.storeName || undefined,
         purchaseDate: receipt.purchaseDate ? receipt.purchaseDate.toISOString() : undefined,
         totalAmount: receipt.totalAmount || undefined,
+        confidence: receipt.confidence ?? undefined,
+        duplicateOfId: duplicateOfId ?? undefined,
         items: receipt.items.map((item) => ({
           name: item.name,
           quantity: item.quantity || undefined,
+          unit: item.unit ?? undefined,
+          price: item.price ?? undefined,
+          amount: item.amount ?? undefined,
         })),
       };
     } catch (error: any) {
       console.error(`[Worker] Error processing job ${job.id}:`, error);
       
-      // Clean up file on error
-      const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
-      const fileToDelete = fs.existsSync(filePath) ? filePath : path.join(uploadDir, filename);
-      if (fs.existsSync(fileToDelete)) {
-        try {
-          fs.unlinkSync(fileToDelete);
-        } catch (unlinkError) {
-          console.error('Error deleting file:', unlinkError);
-        }
+      // Clean up file on error. Files with a receipt are kept so the job can be retried,
+      // by BullMQ or by retrying the batch; they are removed with the receipt.
+      if (receiptId) {
+        throw error;
+      }
+
+      const fileToDelete = fs.existsSync(filePath) ? filePath : uploadedFilePath(imageUrl);
+      try {
+        deleteUploadedFile(fileToDelete);
+      } catch (unlinkError) {
+        console.error('Error deleting file:', unlinkError);
       }
 
       throw error;
@@ -156,28 +358,42 @@ ocrWorker.on('completed', (job) => {
   console.log(`[Worker] Job ${job.id} completed successfully`);
 });
 
-ocrWorker.on('failed', (job, err) => {
+ocrWorker.on('failed', async (job, err) => {
   console.error(`[Worker] Job ${job?.id} failed:`, err.message);
+
+  // Mark the receipt as failed once all retry attempts are used up
+  if (job?.data.receiptId && job.attemptsMade >= (job.opts.attempts || 1)) {
+    try {
+      const failed = await prisma.receipt.update({
+        where: { id: job.data.receiptId },
+        data: {
+          status: 'FAILED',
+          statusReason: err.message,
+        },
+      });
+      await publishReceiptsChanged(eventsProducer, failed.organizationId, [job.data.receiptId], 'UPDATED');
+      await webhookService.emitReceiptEvent('receipt.failed', job.data.receiptId);
+    } catch (updateError) {
+      console.error(`[Worker] Error marking receipt ${job.data.receiptId} as failed:`, updateError);
+    }
+  }
 });
 
 ocrWorker.on('error', (err) => {
   console.error('[Worker] Worker error:', err);
 });
 
-// Graceful shutdown
-async function gracefulShutdown() {
-  console.log('[Worker] Shutting down gracefully...');
-  
+// Stop taking jobs, let running ones finish and release connections; worker.ts calls this on shutdown
+export async function closeOcrWorker() {
   await ocrWorker.close();
+  await eventsProducer.close();
   await ocrService.terminate();
+  for (const service of languageOcrServices.values()) {
+    await service.terminate();
+  }
   await prisma.$disconnect();
   await connection.quit();
-  
-  process.exit(0);
 }
 
-process.on('SIGTERM', gracefulShutdown);
-process.on('SIGINT', gracefulShutdown);
-
 console.log('[Worker] OCR Worker started and ready to process jobs');
 
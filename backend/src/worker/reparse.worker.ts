@@ -0,0 +1,73 @@
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+import { ReparseJobResult, ReparseService } from '../services/reparse.service';
+import { WebhookService } from '../services/webhook.service';
+import { ReparseJobData } from '../queue/reparse.queue';
+import { createEventsProducer, publishReceiptsChanged } from '../queue/events';
+import path from 'path';
+
+// Load environment variables
+import dotenv from 'dotenv';
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+const prisma = new PrismaClient();
+const reparseService = new ReparseService(prisma);
+const webhookService = new WebhookService(prisma);
+const eventsProducer = createEventsProducer('receipt-reparse');
+
+// Create Redis connection
+const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// Re-parse stored OCR output in bulk; no OCR engine is involved
+export const reparseWorker = new Worker<ReparseJobData, ReparseJobResult>(
+  'receipt-reparse',
+  async (job: Job<ReparseJobData, ReparseJobResult>) => {
+    console.log(`[Reparse] Processing job ${job.id}`);
+
+    // Jobs queued before organizations existed would re-parse every tenant's receipts
+    const organizationId = job.data.filter?.organizationId;
+    if (!organizationId) {
+      throw new Error('Re-parse job has no organization');
+    }
+
+    return reparseService.reparseReceipts(job.data.filter, job.data.force ?? false, async (done, total, reparsedId) => {
+      if (reparsedId) {
+        await publishReceiptsChanged(eventsProducer, organizationId, [reparsedId], 'UPDATED');
+        await webhookService.emitReceiptEvent('receipt.updated', reparsedId);
+      }
+      // Report every 1% or so, not once per receipt
+      if (done === total || done % Math.max(1, Math.floor(total / 100)) === 0) {
+        await job.updateProgress(Math.round((done / total) * 100));
+      }
+    });
+  },
+  {
+    connection,
+    concurrency: 1, // One bulk run at a time
+  }
+);
+
+reparseWorker.on('completed', (job) => {
+  console.log(`[Reparse] Job ${job.id} completed`);
+});
+
+reparseWorker.on('failed', (job, err) => {
+  console.error(`[Reparse] Job ${job?.id} failed:`, err.message);
+});
+
+reparseWorker.on('error', (err) => {
+  console.error('[Reparse] Worker error:', err);
+});
+
+// Closed by the shutdown in worker.ts
+export async function closeReparseWorker() {
+  await reparseWorker.close();
+  await eventsProducer.close();
+  await prisma.$disconnect();
+  await connection.quit();
+}
+
+console.log('[Reparse] Re-parse worker started and ready to process jobs');
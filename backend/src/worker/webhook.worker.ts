@@ -0,0 +1,49 @@
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookJobData } from '../queue/webhook.queue';
+import path from 'path';
+
+// Load environment variables
+import dotenv from 'dotenv';
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+const prisma = new PrismaClient();
+const webhookService = new WebhookService(prisma);
+
+// Create Redis connection
+const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// POST queued events to webhook receivers; failed attempts are retried with backoff
+export const webhookWorker = new Worker<WebhookJobData>(
+  'webhook-delivery',
+  async (job: Job<WebhookJobData>) => {
+    // attemptsMade counts the attempts before this one
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+    await webhookService.deliver(job.data.deliveryId, finalAttempt);
+  },
+  {
+    connection,
+    concurrency: 5, // Receivers are slow, not us
+  }
+);
+
+webhookWorker.on('failed', (job, err) => {
+  console.error(`[Webhook] Job ${job?.id} attempt ${job?.attemptsMade} failed:`, err.message);
+});
+
+webhookWorker.on('error', (err) => {
+  console.error('[Webhook] Worker error:', err);
+});
+
+// Closed by the shutdown in worker.ts
+export async function closeWebhookWorker() {
+  await webhookWorker.close();
+  await prisma.$disconnect();
+  await connection.quit();
+}
+
+console.log('[Webhook] Webhook worker started and ready to deliver events');
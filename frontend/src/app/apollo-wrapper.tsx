@@ -1,11 +1,16 @@
 'use client'
 
-import { ApolloClient, InMemoryCache, ApolloProvider, createHttpLink, from, HttpLink } from '@apollo/client'
+import { ApolloClient, InMemoryCache, ApolloProvider, createHttpLink, from, split, HttpLink } from '@apollo/client'
 import { onError } from '@apollo/client/link/error'
+import { GraphQLWsLink } from '@apollo/client/link/subscriptions'
+import { getMainDefinition } from '@apollo/client/utilities'
+import { createClient } from 'graphql-ws'
 import { ReactNode } from 'react'
 
+const GRAPHQL_URL = process.env.NEXT_PUBLIC_GRAPHQL_URL || 'http://localhost:4000/graphql'
+
 const httpLink = createHttpLink({
-  uri: process.env.NEXT_PUBLIC_GRAPHQL_URL || 'http://localhost:4000/graphql',
+  uri: GRAPHQL_URL,
   credentials: 'include',
   fetchOptions: {
     mode: 'cors',
@@ -33,8 +38,25 @@ const errorLink = onError(({ graphQLErrors, networkError, operation, forward })
   }
 })
 
+// Subscriptions go over WebSocket; only in the browser, the page is also rendered on the server
+const transportLink =
+  typeof window === 'undefined'
+    ? httpLink
+    : split(
+        ({ query }) => {
+          const definition = getMainDefinition(query)
+          return definition.kind === 'OperationDefinition' && definition.operation === 'subscription'
+        },
+        new GraphQLWsLink(
+          createClient({
+            url: process.env.NEXT_PUBLIC_GRAPHQL_WS_URL || GRAPHQL_URL.replace(/^http/, 'ws'),
+          })
+        ),
+        httpLink
+      )
+
 const client = new ApolloClient({
-  link: from([errorLink, httpLink]),
+  link: from([errorLink, transportLink]),
   cache: new InMemoryCache(),
   defaultOptions: {
     watchQuery: {
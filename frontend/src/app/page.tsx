@@ -1,55 +1,273 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { useQuery, useMutation, gql } from '@apollo/client'
+import { useState, useEffect, useCallback } from 'react'
+import { useQuery, useMutation, useSubscription, useApolloClient, gql } from '@apollo/client'
 
 // API URL - will be replaced at build time with NEXT_PUBLIC_API_URL
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
-const GET_RECEIPTS = gql`
-  query GetReceipts($filter: ReceiptFilter) {
-    receipts(filter: $filter) {
+const RECEIPT_FIELDS = gql`
+  fragment ReceiptFields on Receipt {
+    id
+    storeName
+    purchaseDate
+    totalAmount
+    currency
+    tin
+    fsNumber
+    mrc
+    referenceNumber
+    cashier
+    paymentMethod
+    imageUrl
+    processedImageUrl
+    status
+    reviewedBy
+    reviewedAt
+    items {
+      id
+      name
+      quantity
+      unit
+      price
+      amount
+      category {
+        id
+        name
+      }
+    }
+    validationIssues {
       id
-      storeName
-      purchaseDate
-      totalAmount
-      imageUrl
-      items {
+      code
+      severity
+      message
+      item {
         id
         name
-        quantity
-        price
       }
-      createdAt
-      updatedAt
+    }
+    createdAt
+    updatedAt
+  }
+`
+
+const GET_RECEIPTS = gql`
+  query GetReceipts($filter: ReceiptFilter) {
+    receipts(filter: $filter) {
+      ...ReceiptFields
     }
   }
+  ${RECEIPT_FIELDS}
 `
 
 const GET_RECEIPT = gql`
   query GetReceipt($id: ID!) {
     receipt(id: $id) {
+      ...ReceiptFields
+    }
+  }
+  ${RECEIPT_FIELDS}
+`
+
+// Receipts created, changed or deleted anywhere: uploads, the OCR worker, other reviewers
+const RECEIPTS_CHANGED = gql`
+  subscription ReceiptsChanged {
+    receiptsChanged {
+      change
+      receiptIds
+      receipts {
+        ...ReceiptFields
+      }
+    }
+  }
+  ${RECEIPT_FIELDS}
+`
+
+const JOB_PROGRESS = gql`
+  subscription JobProgress($jobId: String!) {
+    jobProgress(jobId: $jobId) {
+      id
+      state
+      progress
+      failedReason
+    }
+  }
+`
+
+const ME = gql`
+  query Me {
+    me {
       id
-      storeName
-      purchaseDate
-      totalAmount
-      imageUrl
-      items {
+      email
+      name
+      role
+    }
+  }
+`
+
+const LOGIN = gql`
+  mutation Login($email: String!, $password: String!) {
+    login(email: $email, password: $password) {
+      user {
         id
-        name
-        quantity
-        price
       }
-      createdAt
-      updatedAt
     }
   }
 `
 
+const LOGOUT = gql`
+  mutation Logout {
+    logout
+  }
+`
+
+const VERIFY_RECEIPT = gql`
+  mutation VerifyReceipt($id: ID!) {
+    verifyReceipt(id: $id) {
+      id
+      status
+      reviewedBy
+      reviewedAt
+    }
+  }
+`
+
+const REJECT_RECEIPT = gql`
+  mutation RejectReceipt($id: ID!, $reason: String) {
+    rejectReceipt(id: $id, reason: $reason) {
+      id
+      status
+      statusReason
+      reviewedBy
+      reviewedAt
+    }
+  }
+`
+
+// Progress of one upload's OCR job, removed shortly after the job finishes
+function UploadProgress({ jobId, fileName, onDone }: { jobId: string; fileName: string; onDone: (jobId: string) => void }) {
+  const { data } = useSubscription(JOB_PROGRESS, { variables: { jobId } })
+  const job = data?.jobProgress
+  const finished = job?.state === 'completed' || job?.state === 'failed'
+
+  useEffect(() => {
+    if (!finished) return
+    const timer = setTimeout(() => onDone(jobId), job.state === 'failed' ? 8000 : 3000)
+    return () => clearTimeout(timer)
+  }, [finished, jobId, job?.state, onDone])
+
+  const progress = job?.state === 'completed' ? 100 : job?.progress || 0
+  const label = !job
+    ? 'Queued'
+    : job.state === 'completed'
+      ? 'Done'
+      : job.state === 'failed'
+        ? `Failed: ${job.failedReason || 'unknown error'}`
+        : job.state === 'active'
+          ? `${progress}%`
+          : 'Queued'
+
+  return (
+    <div style={{ marginTop: '0.75rem', fontSize: '0.85rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', marginBottom: '0.25rem' }}>
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{fileName}</span>
+        <span style={{ color: job?.state === 'failed' ? '#dc3545' : 'var(--text-secondary)', whiteSpace: 'nowrap' }}>{label}</span>
+      </div>
+      <div style={{ height: '6px', borderRadius: '3px', background: 'var(--border-color)', overflow: 'hidden' }}>
+        <div
+          style={{
+            width: `${progress}%`,
+            height: '100%',
+            background: job?.state === 'failed' ? '#dc3545' : 'var(--primary-color)',
+            transition: 'width 0.3s ease',
+          }}
+        />
+      </div>
+    </div>
+  )
+}
 
+// The session is a cookie set by the login mutation
+function LoginForm({ onLogin }: { onLogin: () => void }) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [loginError, setLoginError] = useState<string | null>(null)
+  const [login, { loading }] = useMutation(LOGIN)
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoginError(null)
+    try {
+      await login({ variables: { email, password } })
+      onLogin()
+    } catch (err: any) {
+      setLoginError(err.message || 'Login failed')
+    }
+  }
+
+  return (
+    <div className="container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+      <form onSubmit={handleLogin} className="card" style={{ width: '100%', maxWidth: '360px' }}>
+        <h2 style={{ fontSize: '1.3rem', marginBottom: '1rem', fontWeight: '600', color: 'var(--text-primary)' }}>Receipt OCR</h2>
+        <input
+          type="email"
+          placeholder="Email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="input"
+          autoComplete="username"
+          required
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="input"
+          autoComplete="current-password"
+          style={{ marginTop: '0.5rem' }}
+          required
+        />
+        <button type="submit" disabled={loading} className="button" style={{ marginTop: '1rem', width: '100%' }}>
+          {loading ? 'Logging in...' : 'Log in'}
+        </button>
+        {loginError && (
+          <div className="error" style={{ marginTop: '0.5rem', fontSize: '0.9rem' }}>
+            {loginError}
+          </div>
+        )}
+      </form>
+    </div>
+  )
+}
 
 export default function Home() {
+  const client = useApolloClient()
+  const { data, loading, refetch } = useQuery(ME)
+  const [logout] = useMutation(LOGOUT)
+
+  const handleLogout = async () => {
+    await logout()
+    // Drop the previous user's receipts from the cache
+    await client.clearStore()
+    refetch()
+  }
+
+  if (loading && !data) {
+    return <div className="container">Loading...</div>
+  }
+
+  if (!data?.me) {
+    return <LoginForm onLogin={() => refetch()} />
+  }
+
+  return <Receipts user={data.me} onLogout={handleLogout} />
+}
+
+function Receipts({ user, onLogout }: { user: any; onLogout: () => void }) {
+  const canReview = user.role === 'REVIEWER' || user.role === 'ADMIN'
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [splitPdfPages, setSplitPdfPages] = useState(false)
   const [storeFilter, setStoreFilter] = useState('')
   const [startDate, setStartDate] = useState('')
   const [endDate, setEndDate] = useState('')
@@ -57,6 +275,7 @@ export default function Home() {
   const [uploadError, setUploadError] = useState<string | null>(null)
   const [selectedReceipt, setSelectedReceipt] = useState<any>(null)
   const [activeView, setActiveView] = useState<'all' | 'verified'>('all')
+  const [uploadJobs, setUploadJobs] = useState<Array<{ jobId: string; fileName: string }>>([])
 
   // Debug: Log when selectedReceipt changes
   useEffect(() => {
@@ -74,7 +293,7 @@ export default function Home() {
     }
   }, [selectedReceipt])
 
-  const { data, loading, error, refetch } = useQuery(GET_RECEIPTS, {
+  const { data, loading, error, refetch, updateQuery } = useQuery(GET_RECEIPTS, {
     variables: {
       filter: {
         ...(storeFilter && { storeName: storeFilter }),
@@ -110,14 +329,77 @@ export default function Home() {
     },
   })
 
+  // Keep the list current without refetching. Updated receipts refresh through the cache;
+  // new ones are only added here when no filter is active, as they may not match it.
+  useSubscription(RECEIPTS_CHANGED, {
+    onData: ({ data: { data } }) => {
+      const event = data?.receiptsChanged
+      if (!event) return
+
+      if (event.change === 'DELETED') {
+        updateQuery((previous: any) => previous?.receipts && {
+          ...previous,
+          receipts: previous.receipts.filter((receipt: any) => !event.receiptIds.includes(receipt.id)),
+        })
+        setSelectedReceipt((current: any) => current && event.receiptIds.includes(current.id) ? null : current)
+        return
+      }
+
+      if (event.change === 'CREATED') {
+        if (storeFilter || startDate || endDate) {
+          refetch()
+        } else {
+          updateQuery((previous: any) => {
+            if (!previous?.receipts) return previous
+            const known = new Set(previous.receipts.map((receipt: any) => receipt.id))
+            const added = event.receipts.filter((receipt: any) => !known.has(receipt.id))
+            return { ...previous, receipts: [...added, ...previous.receipts] }
+          })
+        }
+      }
+
+      setSelectedReceipt((current: any) => {
+        const updated = current && event.receipts.find((receipt: any) => receipt.id === current.id)
+        return updated ? { ...current, ...updated } : current
+      })
+    },
+  })
+
+  const finishUploadJob = useCallback((jobId: string) => {
+    setUploadJobs((jobs) => jobs.filter((job) => job.jobId !== jobId))
+  }, [])
+
+  const [verifyReceipt] = useMutation(VERIFY_RECEIPT)
+  const [rejectReceipt] = useMutation(REJECT_RECEIPT)
+
+  const handleVerify = async (id: string) => {
+    try {
+      const { data } = await verifyReceipt({ variables: { id } })
+      setSelectedReceipt((current: any) => current && { ...current, ...data?.verifyReceipt })
+    } catch (err: any) {
+      alert(err.message || 'Failed to verify receipt')
+    }
+  }
+
+  const handleReject = async (id: string) => {
+    const reason = prompt('Reason for rejecting this receipt (optional):')
+    if (reason === null) return
+
+    try {
+      const { data } = await rejectReceipt({ variables: { id, reason: reason || null } })
+      setSelectedReceipt((current: any) => current && { ...current, ...data?.rejectReceipt })
+    } catch (err: any) {
+      alert(err.message || 'Failed to reject receipt')
+    }
+  }
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
       // Validate file type
-      const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
+      const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'application/pdf']
       if (!allowedTypes.includes(file.type)) {
-        alert('Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.')
+        alert('Invalid file type. Only JPEG, PNG, GIF, WebP images and PDF files are allowed.')
         return
       }
 
@@ -142,11 +424,15 @@ export default function Home() {
 
     const formData = new FormData()
     formData.append('file', selectedFile)
+    if (selectedFile.type === 'application/pdf') {
+      formData.append('pdfMode', splitPdfPages ? 'pages' : 'document')
+    }
 
     try {
       const response = await fetch(`${API_URL}/api/upload`, {
         method: 'POST',
         body: formData,
+        credentials: 'include',
       })
 
       if (!response.ok) {
@@ -154,14 +440,13 @@ export default function Home() {
         throw new Error(error.error || 'Upload failed')
       }
 
-      const receipt = await response.json()
+      const upload = await response.json()
+      // The receipt shows up through the receiptsChanged subscription; follow the OCR job here
+      setUploadJobs((jobs) => [...jobs, { jobId: upload.jobId, fileName: selectedFile.name }])
       setSelectedFile(null)
       // Reset file input
       const fileInput = document.getElementById('file-input') as HTMLInputElement
       if (fileInput) fileInput.value = ''
-      
-      // Refetch receipts
-      refetch()
     } catch (err: any) {
       console.error('Upload error:', err)
       setUploadError(err.message || 'Upload failed')
@@ -197,8 +482,13 @@ export default function Home() {
             <li><a onClick={() => setActiveView('verified')}>Verified</a></li>
           </ul>
         </div>
-        <div className="header-right">
-          <span style={{ color: 'var(--text-secondary)', fontSize: '0.9rem' }}>Data Extraction System</span>
+        <div className="header-right" style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <span style={{ color: 'var(--text-secondary)', fontSize: '0.9rem' }}>
+            {user.name || user.email} ({user.role.toLowerCase()})
+          </span>
+          <button onClick={onLogout} className="button" style={{ fontSize: '0.85rem', padding: '0.4rem 0.8rem' }}>
+            Log out
+          </button>
         </div>
       </header>
 
@@ -218,7 +508,7 @@ export default function Home() {
         <input
           id="file-input"
           type="file"
-          accept="image/jpeg,image/jpg,image/png,image/gif,image/webp"
+          accept="image/jpeg,image/jpg,image/png,image/gif,image/webp,application/pdf"
           onChange={handleFileChange}
           className="input"
         />
@@ -226,6 +516,16 @@ export default function Home() {
           <div>
             <p>Selected: {selectedFile.name}</p>
             <p>Size: {(selectedFile.size / 1024 / 1024).toFixed(2)} MB</p>
+            {selectedFile.type === 'application/pdf' && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', fontSize: '0.9rem' }}>
+                <input
+                  type="checkbox"
+                  checked={splitPdfPages}
+                  onChange={(e) => setSplitPdfPages(e.target.checked)}
+                />
+                One receipt per page
+              </label>
+            )}
           </div>
         )}
           <button
@@ -241,6 +541,9 @@ export default function Home() {
               Error: {uploadError}
             </div>
           )}
+          {uploadJobs.map((job) => (
+            <UploadProgress key={job.jobId} jobId={job.jobId} fileName={job.fileName} onDone={finishUploadJob} />
+          ))}
         </div>
 
         {/* Filter Section */}
@@ -297,7 +600,7 @@ export default function Home() {
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                 <span style={{ color: 'var(--text-secondary)' }}>Verified:</span>
                 <strong style={{ color: 'var(--primary-color)' }}>
-                  {data.receipts.filter((r: any) => r.totalAmount && r.items && r.items.length > 0).length}
+                  {data.receipts.filter((r: any) => r.status === 'VERIFIED').length}
                 </strong>
               </div>
               <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '0.5rem', paddingTop: '0.5rem', borderTop: '1px solid var(--border-color)' }}>
@@ -325,9 +628,9 @@ export default function Home() {
             {data && data.receipts && (
               <p style={{ color: 'var(--text-secondary)', marginTop: '0.5rem', fontSize: '0.95rem' }}>
                 Showing {activeView === 'verified' 
-                  ? data.receipts.filter((r: any) => r.totalAmount && r.items && r.items.length > 0).length
+                  ? data.receipts.filter((r: any) => r.status === 'VERIFIED').length
                   : data.receipts.length} receipt{activeView === 'verified' 
-                    ? data.receipts.filter((r: any) => r.totalAmount && r.items && r.items.length > 0).length !== 1 ? 's' : ''
+                    ? data.receipts.filter((r: any) => r.status === 'VERIFIED').length !== 1 ? 's' : ''
                     : data.receipts.length !== 1 ? 's' : ''}
               </p>
             )}
@@ -350,7 +653,7 @@ export default function Home() {
         {data && data.receipts && data.receipts.length > 0 && (() => {
           // Filter receipts based on active view
           const filteredReceipts = activeView === 'verified' 
-            ? data.receipts.filter((r: any) => r.totalAmount && r.items && r.items.length > 0)
+            ? data.receipts.filter((r: any) => r.status === 'VERIFIED')
             : data.receipts;
           
           if (filteredReceipts.length === 0) {
@@ -360,7 +663,7 @@ export default function Home() {
                   {activeView === 'verified' ? 'No verified receipts found.' : 'No receipts found.'}
                 </p>
                 <p style={{ color: '#999' }}>
-                  {activeView === 'verified' ? 'Verified receipts have completed OCR processing with extracted data.' : 'Upload a receipt to get started.'}
+                  {activeView === 'verified' ? 'Verified receipts have been checked and confirmed by a reviewer.' : 'Upload a receipt to get started.'}
                 </p>
               </div>
             );
@@ -382,7 +685,12 @@ export default function Home() {
                         return receipt.purchaseDate;
                       })()}
                     </p>
-                    <p style={{ margin: '0.25rem 0', fontSize: '0.9rem' }}><strong>Total Amount:</strong> ETB {receipt.totalAmount?.toFixed(2) || 'N/A'}</p>
+                    <p style={{ margin: '0.25rem 0', fontSize: '0.9rem' }}><strong>Total Amount:</strong> {receipt.currency || 'ETB'} {receipt.totalAmount?.toFixed(2) || 'N/A'}</p>
+                    {receipt.validationIssues?.length > 0 && (
+                      <p style={{ margin: '0.25rem 0', fontSize: '0.9rem', color: receipt.validationIssues.some((issue: any) => issue.severity === 'ERROR') ? '#dc3545' : '#d39e00' }}>
+                        ⚠ {receipt.validationIssues.length} validation issue{receipt.validationIssues.length !== 1 ? 's' : ''}
+                      </p>
+                    )}
                   </div>
                   <div className="receipt-actions" style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
                     <button
@@ -402,10 +710,10 @@ export default function Home() {
                     </button>
                   </div>
                 </div>
-                {receipt.imageUrl && (
+                {receipt.imageUrl && (!receipt.imageUrl.endsWith('.pdf') || receipt.processedImageUrl) && (
                   <div>
                     <img
-                      src={`${API_URL}${receipt.imageUrl}`}
+                      src={`${API_URL}${receipt.imageUrl.endsWith('.pdf') ? receipt.processedImageUrl : receipt.imageUrl}`}
                       alt="Receipt"
                       style={{ maxWidth: '100%', marginTop: '1rem', borderRadius: '4px', cursor: 'pointer' }}
                       onClick={() => setSelectedReceipt(receipt)}
@@ -423,8 +731,11 @@ export default function Home() {
                       {receipt.items.slice(0, 3).map((item: any) => (
                         <li key={item.id}>
                           {item.name}
-                          {item.quantity && ` (Qty: ${item.quantity})`}
+                          {item.quantity && ` (Qty: ${item.quantity}${item.unit ? ` ${item.unit}` : ''})`}
                           {item.price && ` - $${item.price.toFixed(2)}`}
+                          {item.category && (
+                            <span style={{ color: '#666', fontSize: '0.85em' }}> [{item.category.name}]</span>
+                          )}
                         </li>
                       ))}
                       {receipt.items.length > 3 && (
@@ -486,8 +797,60 @@ export default function Home() {
               ×
             </button>
             <h2 style={{ marginBottom: '2rem', fontSize: '1.8rem', color: 'var(--text-primary)' }}>Receipt Details</h2>
+
+            {/* Review Status */}
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', marginBottom: '1.5rem' }}>
+              <div style={{ fontSize: '0.95rem', color: 'var(--text-secondary)' }}>
+                Status: <strong style={{ color: 'var(--text-primary)' }}>{selectedReceipt.status?.replace('_', ' ') || 'N/A'}</strong>
+                {selectedReceipt.reviewedAt && (
+                  <span> {selectedReceipt.reviewedBy ? `by ${selectedReceipt.reviewedBy} ` : ''}on {new Date(selectedReceipt.reviewedAt).toLocaleString()}</span>
+                )}
+                {selectedReceipt.processedImageUrl && (
+                  <div style={{ marginTop: '0.25rem', fontSize: '0.85rem' }}>
+                    <a href={`${API_URL}${selectedReceipt.imageUrl}`} target="_blank" rel="noreferrer">Original image</a>
+                    {' · '}
+                    <a href={`${API_URL}${selectedReceipt.processedImageUrl}`} target="_blank" rel="noreferrer">Processed image</a>
+                  </div>
+                )}
+              </div>
+              {canReview && selectedReceipt.status !== 'PROCESSING' && (
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button
+                    onClick={() => handleVerify(selectedReceipt.id)}
+                    disabled={selectedReceipt.status === 'VERIFIED'}
+                    className="button"
+                    style={{ fontSize: '0.85rem', padding: '0.4rem 0.8rem' }}
+                  >
+                    Verify
+                  </button>
+                  <button
+                    onClick={() => handleReject(selectedReceipt.id)}
+                    disabled={selectedReceipt.status === 'REJECTED'}
+                    className="button"
+                    style={{ fontSize: '0.85rem', padding: '0.4rem 0.8rem', background: '#dc3545' }}
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+            </div>
             
             <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+              {/* Validation Issues */}
+              {selectedReceipt.validationIssues?.length > 0 && (
+                <div style={{ paddingBottom: '1rem', borderBottom: '1px solid var(--border-color)' }}>
+                  <div style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '0.5rem', textTransform: 'uppercase', letterSpacing: '0.5px' }}>Validation Issues</div>
+                  <ul style={{ margin: 0, paddingLeft: '1.25rem' }}>
+                    {selectedReceipt.validationIssues.map((issue: any) => (
+                      <li key={issue.id} style={{ color: issue.severity === 'ERROR' ? '#dc3545' : issue.severity === 'WARNING' ? '#d39e00' : 'var(--text-secondary)', marginBottom: '0.25rem' }}>
+                        <strong>{issue.severity}</strong>: {issue.message}
+                        {issue.item && ` (${issue.item.name})`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Store Name */}
               <div style={{ paddingBottom: '1rem', borderBottom: '1px solid var(--border-color)' }}>
                 <div style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '0.5rem', textTransform: 'uppercase', letterSpacing: '0.5px' }}>Store Name</div>
@@ -523,7 +886,20 @@ export default function Home() {
               <div style={{ paddingBottom: '1rem', borderBottom: '1px solid var(--border-color)' }}>
                 <div style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '0.5rem', textTransform: 'uppercase', letterSpacing: '0.5px' }}>Total Amount Spent</div>
                 <div style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--primary-color)' }}>
-                  {selectedReceipt.totalAmount ? `ETB ${selectedReceipt.totalAmount.toFixed(2)}` : 'N/A'}
+                  {selectedReceipt.totalAmount ? `${selectedReceipt.currency || 'ETB'} ${selectedReceipt.totalAmount.toFixed(2)}` : 'N/A'}
+                </div>
+              </div>
+
+              {/* Fiscal Details */}
+              <div style={{ paddingBottom: '1rem', borderBottom: '1px solid var(--border-color)' }}>
+                <div style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '0.5rem', textTransform: 'uppercase', letterSpacing: '0.5px' }}>Fiscal Details</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '0.5rem 1.5rem', fontSize: '0.95rem', color: 'var(--text-primary)' }}>
+                  <div><strong>TIN:</strong> {selectedReceipt.tin || 'N/A'}</div>
+                  <div><strong>FS No.:</strong> {selectedReceipt.fsNumber || 'N/A'}</div>
+                  <div><strong>MRC:</strong> {selectedReceipt.mrc || 'N/A'}</div>
+                  <div><strong>Reference:</strong> {selectedReceipt.referenceNumber || 'N/A'}</div>
+                  <div><strong>Cashier:</strong> {selectedReceipt.cashier || 'N/A'}</div>
+                  <div><strong>Payment:</strong> {selectedReceipt.paymentMethod?.replace('_', ' ') || 'N/A'}</div>
                 </div>
               </div>
 
@@ -566,6 +942,30 @@ export default function Home() {
                           }}>
                             Quantity
                           </th>
+                          <th style={{ 
+                            textAlign: 'right', 
+                            padding: '0.75rem 1rem', 
+                            fontSize: '0.85rem',
+                            fontWeight: '600',
+                            color: 'var(--text-secondary)',
+                            textTransform: 'uppercase',
+                            letterSpacing: '0.5px',
+                            width: '110px'
+                          }}>
+                            Unit Price
+                          </th>
+                          <th style={{ 
+                            textAlign: 'right', 
+                            padding: '0.75rem 1rem', 
+                            fontSize: '0.85rem',
+                            fontWeight: '600',
+                            color: 'var(--text-secondary)',
+                            textTransform: 'uppercase',
+                            letterSpacing: '0.5px',
+                            width: '110px'
+                          }}>
+                            Amount
+                          </th>
                         </tr>
                       </thead>
                       <tbody>
@@ -591,7 +991,25 @@ export default function Home() {
                               color: 'var(--text-primary)',
                               fontWeight: '500'
                             }}>
-                              {item.quantity || '-'}
+                              {item.quantity ? `${item.quantity}${item.unit ? ` ${item.unit}` : ''}` : '-'}
+                            </td>
+                            <td style={{ 
+                              textAlign: 'right', 
+                              padding: '0.75rem 1rem',
+                              fontSize: '0.95rem',
+                              color: 'var(--text-primary)',
+                              fontWeight: '500'
+                            }}>
+                              {item.price != null ? item.price.toFixed(2) : '-'}
+                            </td>
+                            <td style={{ 
+                              textAlign: 'right', 
+                              padding: '0.75rem 1rem',
+                              fontSize: '0.95rem',
+                              color: 'var(--text-primary)',
+                              fontWeight: '500'
+                            }}>
+                              {item.amount != null ? item.amount.toFixed(2) : '-'}
                             </td>
                           </tr>
                         ))}